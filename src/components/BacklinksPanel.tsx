@@ -0,0 +1,59 @@
+import React from "react";
+import { FileText, Link2, Loader2, RefreshCw } from "lucide-react";
+import type { Backlink } from "@/hooks/use-workspace-links";
+
+interface BacklinksPanelProps {
+  fileName: string | null;
+  backlinks: Backlink[];
+  isScanning: boolean;
+  onOpen: (backlink: Backlink) => void;
+  onRefresh: () => void;
+}
+
+export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ fileName, backlinks, isScanning, onOpen, onRefresh }) => {
+  const sourceCount = new Set(backlinks.map(backlink => backlink.source.node.id)).size;
+
+  return (
+    <div className="w-full flex flex-col h-full select-none">
+      <div className="flex items-center justify-between px-3 pb-2 text-xs text-muted-foreground">
+        <span className="truncate">
+          {fileName
+            ? isScanning ? "正在查找..." : `${sourceCount} 个文件链接到 ${fileName}`
+            : "当前文档不在已打开的文件夹中"}
+        </span>
+        <button
+          type="button"
+          title="刷新"
+          onClick={onRefresh}
+          className="p-0.5 rounded hover:text-foreground transition-colors"
+        >
+          {isScanning ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {backlinks.map((backlink, index) => {
+          const isFirstOfSource = index === 0 || backlinks[index - 1].source !== backlink.source;
+
+          return (
+            <div key={`${backlink.source.node.id}:${backlink.link.from}`}>
+              {isFirstOfSource && (
+                <div className="flex items-center gap-1 px-2 pt-2 pb-0.5 text-sm" title={backlink.source.path}>
+                  <FileText size={14} className="shrink-0 text-muted-foreground" />
+                  <span className="truncate">{backlink.source.path}</span>
+                </div>
+              )}
+              <div
+                className="flex items-baseline gap-2 pl-6 pr-2 py-0.5 text-xs cursor-pointer hover:bg-accent/50 transition-colors"
+                onClick={() => onOpen(backlink)}
+              >
+                <Link2 size={12} className="shrink-0 text-muted-foreground self-center" />
+                <span className="truncate font-mono">{backlink.lineText.trim()}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useCallback } from "react";
+import React, { useCallback, useMemo } from "react";
 import CodeMirror, { type ReactCodeMirrorRef } from "@uiw/react-codemirror";
 import { markdown, markdownLanguage } from "@codemirror/lang-markdown";
 import { languages } from "@codemirror/language-data";
@@ -6,23 +6,84 @@ import { oneDark } from "@codemirror/theme-one-dark";
 import { useTheme } from "@/contexts/ThemeContext";
 import { useSettings } from "@/contexts/SettingsContext";
 import { EditorView, keymap } from "@codemirror/view";
+import { Prec } from "@codemirror/state";
 import { toast } from "sonner";
 import { uploadImage, uploadVideo, getImageMarkdown, getVideoHTML } from "@/lib/image-upload";
 import { htmlToMarkdownAsync, getHTMLFromClipboard, downloadImageAsFile } from "@/lib/html-to-markdown";
+import type { TabViewState } from "@/hooks/use-tabs";
+import type { CompletionContext, CompletionResult } from "@codemirror/autocomplete";
+import { type WikiPage, pageNameOf } from "@/lib/wiki-links";
+import { nextTableCell, previousTableCell } from "@/lib/markdown-table";
 
 interface EditorProps {
   value: string;
   onChange: (value: string) => void;
   onEditorCreate?: (view: EditorView) => void;
+  initialViewState?: TabViewState;
+  onViewStateChange?: (state: Partial<TabViewState>) => void;
+  wikiPages?: WikiPage[];
 }
 
-export const Editor: React.FC<EditorProps> = ({ value, onChange, onEditorCreate }) => {
+export const Editor: React.FC<EditorProps> = ({ value, onChange, onEditorCreate, initialViewState, onViewStateChange, wikiPages }) => {
   const { theme } = useTheme();
   const { fontSize, lineNumbers, wordWrap, defaultImageUploadProvider } = useSettings();
 
   const handleCreateEditor = useCallback((view: EditorView) => {
+    // Restore the cursor and scroll position the tab had when it was last shown
+    if (initialViewState) {
+      const length = view.state.doc.length;
+      view.dispatch({
+        selection: {
+          anchor: Math.min(initialViewState.anchor, length),
+          head: Math.min(initialViewState.head, length),
+        },
+      });
+      requestAnimationFrame(() => {
+        if (initialViewState.scrollMode === 'wysiwyg') {
+          view.dispatch({ effects: EditorView.scrollIntoView(view.state.selection.main.head, { y: 'center' }) });
+        } else {
+          view.scrollDOM.scrollTop = initialViewState.scrollTop;
+        }
+      });
+    }
+
+    if (onViewStateChange) {
+      view.scrollDOM.addEventListener("scroll", () => {
+        onViewStateChange({ scrollTop: view.scrollDOM.scrollTop, scrollMode: 'source' });
+      }, { passive: true });
+    }
+
     onEditorCreate?.(view);
-  }, [onEditorCreate]);
+  }, [onEditorCreate, initialViewState, onViewStateChange]);
+
+  const viewStateListener = useMemo(() => EditorView.updateListener.of((update) => {
+    if (update.selectionSet && onViewStateChange) {
+      const { anchor, head } = update.state.selection.main;
+      onViewStateChange({ anchor, head });
+    }
+  }), [onViewStateChange]);
+
+  // Complete file names after `[[`, closing the link unless it already is
+  const wikiLinkCompletion = useMemo(() => markdownLanguage.data.of({
+    autocomplete: (context: CompletionContext): CompletionResult | null => {
+      const match = context.matchBefore(/\[\[[^[\]|#\n]*/);
+      if (!match || !wikiPages || wikiPages.length === 0) return null;
+
+      const closing = context.state.sliceDoc(context.pos, context.pos + 2) === "]]" ? "" : "]]";
+      // Pages sharing a name need their path to resolve to the right file
+      const isAmbiguous = (name: string) => wikiPages.filter(page => page.name === name).length > 1;
+      return {
+        from: match.from + 2,
+        options: wikiPages.map(page => ({
+          label: page.name,
+          detail: page.path,
+          type: "file",
+          apply: (isAmbiguous(page.name) ? pageNameOf(page.path) : page.name) + closing,
+        })),
+        validFor: /^[^[\]|#\n]*$/,
+      };
+    },
+  }), [wikiPages]);
 
   return (
     <div className="h-full w-full bg-editor-bg flex flex-col">
@@ -34,7 +95,14 @@ export const Editor: React.FC<EditorProps> = ({ value, onChange, onEditorCreate
         theme={theme === "dark" ? oneDark : "light"}
         extensions={[
           markdown({ base: markdownLanguage, codeLanguages: languages }),
+          wikiLinkCompletion,
           wordWrap ? EditorView.lineWrapping : [],
+          viewStateListener,
+          // Ahead of indenting with Tab, which applies outside tables
+          Prec.high(keymap.of([
+            { key: "Tab", run: nextTableCell },
+            { key: "Shift-Tab", run: previousTableCell },
+          ])),
           keymap.of([
             { key: "Mod-b", run: (view) => {
               const { state, dispatch } = view;
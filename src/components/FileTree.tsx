@@ -1,16 +1,214 @@
-import React, { useState, useMemo } from "react";
-import { ChevronRight, ChevronDown, File, Folder, FolderOpen, Loader2, Search, X } from "lucide-react";
-import { type FileNode, readDirectoryEntries } from "@/lib/file-system";
+import React, { useState, useMemo, useRef } from "react";
+import { ChevronRight, ChevronDown, File, FilePlus, Folder, FolderOpen, FolderPlus, Loader2, Pencil, Search, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  type FileNode,
+  readDirectoryEntries,
+  findParentNode,
+  isDescendantNode,
+  createFileEntry,
+  createDirectoryEntry,
+  deleteEntry,
+  moveEntry,
+} from "@/lib/file-system";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
 import { cn } from "@/lib/utils";
 
+export type FileTreeChange =
+  | { type: 'create'; node: FileNode }
+  | { type: 'rename'; node: FileNode }
+  | { type: 'move'; node: FileNode }
+  | { type: 'delete'; node: FileNode };
+
 interface FileTreeProps {
   root: FileNode;
   onSelectFile: (node: FileNode) => void;
   selectedFileId?: string;
+  dirtyFileIds?: Set<string>;
+  onTreeChange?: (change: FileTreeChange) => void;
 }
 
-export const FileTree: React.FC<FileTreeProps> = ({ root, onSelectFile, selectedFileId }) => {
+type EditingState =
+  | { mode: 'rename'; node: FileNode }
+  | { mode: 'new-file' | 'new-folder'; parent: FileNode };
+
+// Everything rows need for editing the tree, passed down as one object
+interface FileTreeActions {
+  expandedIds: Set<string>;
+  editing: EditingState | null;
+  dragOverId: string | null;
+  setExpanded: (node: FileNode, expanded: boolean) => void;
+  startCreate: (parent: FileNode, mode: 'new-file' | 'new-folder') => void;
+  startRename: (node: FileNode) => void;
+  commitEdit: (name: string) => void;
+  cancelEdit: () => void;
+  deleteNode: (node: FileNode) => void;
+  dragStart: (node: FileNode) => void;
+  dragOver: (node: FileNode | null) => void;
+  drop: (target: FileNode) => void;
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : "";
+  switch (message) {
+    case "LEGACY_MODE":
+      return "兼容模式下无法修改文件";
+    case "PERMISSION_DENIED":
+      return "权限被拒绝";
+    case "ALREADY_EXISTS":
+      return "已存在同名文件或文件夹";
+    case "INVALID_TARGET":
+      return "不能移动到自身或其子文件夹中";
+    default:
+      return message || "未知错误";
+  }
+}
+
+function isValidEntryName(name: string): boolean {
+  return !!name && name !== "." && name !== ".." && !/[\\/:*?"<>|]/.test(name);
+}
+
+export const FileTree: React.FC<FileTreeProps> = ({ root, onSelectFile, selectedFileId, dirtyFileIds, onTreeChange }) => {
   const [searchQuery, setSearchQuery] = useState("");
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(() => new Set([root.id]));
+  const [editing, setEditing] = useState<EditingState | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  // Nodes are mutated in place by the file-system helpers, so bump this
+  // to re-render after an operation
+  const [, setVersion] = useState(0);
+  const draggedRef = useRef<FileNode | null>(null);
+
+  const refresh = () => setVersion(v => v + 1);
+
+  const setExpanded = (node: FileNode, expanded: boolean) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (expanded) {
+        next.add(node.id);
+      } else {
+        next.delete(node.id);
+      }
+      return next;
+    });
+  };
+
+  const runOperation = async (operation: () => Promise<void>, failureMessage: string) => {
+    try {
+      await operation();
+    } catch (error) {
+      console.error(error);
+      toast.error(`${failureMessage}: ${describeError(error)}`);
+    } finally {
+      refresh();
+    }
+  };
+
+  const startCreate = async (parent: FileNode, mode: 'new-file' | 'new-folder') => {
+    // Load the directory first so the new entry shows up among its siblings
+    if (parent.handle && (!parent.children || parent.children.length === 0)) {
+      try {
+        parent.children = await readDirectoryEntries(parent);
+      } catch (error) {
+        console.error("Failed to read directory", error);
+      }
+    }
+    setExpanded(parent, true);
+    setEditing({ mode, parent });
+  };
+
+  const commitEdit = (rawName: string) => {
+    const current = editing;
+    setEditing(null);
+    const name = rawName.trim();
+    if (!current || !name) return;
+
+    if (!isValidEntryName(name)) {
+      toast.error(`无效的名称: ${name}`);
+      return;
+    }
+
+    if (current.mode === 'rename') {
+      const { node } = current;
+      if (name === node.name) return;
+      const parent = findParentNode(root, node);
+      if (!parent) return;
+
+      runOperation(async () => {
+        await moveEntry(parent, node, parent, name);
+        onTreeChange?.({ type: 'rename', node });
+      }, "重命名失败");
+      return;
+    }
+
+    const { parent, mode } = current;
+    runOperation(async () => {
+      const node = mode === 'new-file'
+        ? await createFileEntry(parent, name)
+        : await createDirectoryEntry(parent, name);
+      onTreeChange?.({ type: 'create', node });
+      if (node.kind === 'file') {
+        onSelectFile(node);
+      }
+    }, mode === 'new-file' ? "新建文件失败" : "新建文件夹失败");
+  };
+
+  const deleteNode = (node: FileNode) => {
+    const parent = findParentNode(root, node);
+    if (!parent) return;
+
+    const message = node.kind === 'directory'
+      ? `确定要删除文件夹 "${node.name}" 及其全部内容吗？`
+      : `确定要删除 "${node.name}" 吗？`;
+    if (!confirm(message)) return;
+
+    runOperation(async () => {
+      await deleteEntry(parent, node);
+      onTreeChange?.({ type: 'delete', node });
+      toast.success(`已删除 ${node.name}`);
+    }, "删除失败");
+  };
+
+  const drop = (target: FileNode) => {
+    const node = draggedRef.current;
+    draggedRef.current = null;
+    setDragOverId(null);
+    if (!node || target.kind !== 'directory') return;
+
+    const parent = findParentNode(root, node);
+    if (!parent || parent.id === target.id) return;
+    if (node.id === target.id || isDescendantNode(node, target)) {
+      toast.error(`移动失败: ${describeError(new Error("INVALID_TARGET"))}`);
+      return;
+    }
+
+    runOperation(async () => {
+      await moveEntry(parent, node, target);
+      setExpanded(target, true);
+      onTreeChange?.({ type: 'move', node });
+      toast.success(`已移动 ${node.name} 到 ${target.name}`);
+    }, "移动失败");
+  };
+
+  const actions: FileTreeActions = {
+    expandedIds,
+    editing,
+    dragOverId,
+    setExpanded,
+    startCreate,
+    startRename: (node) => setEditing({ mode: 'rename', node }),
+    commitEdit,
+    cancelEdit: () => setEditing(null),
+    deleteNode,
+    dragStart: (node) => { draggedRef.current = node; },
+    dragOver: (node) => setDragOverId(node?.id ?? null),
+    drop,
+  };
 
   // Filter nodes based on search query
   const filteredRoot = useMemo(() => {
@@ -80,6 +278,8 @@ export const FileTree: React.FC<FileTreeProps> = ({ root, onSelectFile, selected
         node={filteredRoot}
         onSelectFile={onSelectFile}
         selectedFileId={selectedFileId}
+        dirtyFileIds={dirtyFileIds}
+        actions={actions}
         isRoot={true}
         searchQuery={searchQuery}
       />
@@ -91,19 +291,70 @@ interface FileTreeNodeProps {
   node: FileNode;
   onSelectFile: (node: FileNode) => void;
   selectedFileId?: string;
+  dirtyFileIds?: Set<string>;
+  actions: FileTreeActions;
   isRoot?: boolean;
   searchQuery?: string;
 }
 
-const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, onSelectFile, selectedFileId, isRoot, searchQuery = "" }) => {
+// Inline name input used for renaming and for new entries
+const EntryNameInput: React.FC<{
+  defaultValue: string;
+  level: number;
+  icon?: React.ReactNode;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+}> = ({ defaultValue, level, icon, onCommit, onCancel }) => {
+  const committedRef = useRef(false);
+
+  const commit = (value: string) => {
+    if (committedRef.current) return;
+    committedRef.current = true;
+    onCommit(value);
+  };
+
+  return (
+    <div
+      className="flex items-center gap-1 py-0.5 px-2"
+      style={{ paddingLeft: `${level * 0.75 + 0.5}rem` }}
+    >
+      <span className="w-3.5 inline-block shrink-0" />
+      {icon}
+      <input
+        autoFocus
+        defaultValue={defaultValue}
+        className="flex-1 min-w-0 px-1 py-0.5 text-sm bg-background border border-primary rounded-sm focus:outline-none"
+        onFocus={(e) => {
+          // Select the name without its extension, like most file managers
+          const dot = e.target.value.lastIndexOf('.');
+          e.target.setSelectionRange(0, dot > 0 ? dot : e.target.value.length);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commit(e.currentTarget.value);
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            committedRef.current = true;
+            onCancel();
+          }
+        }}
+        onBlur={(e) => commit(e.target.value)}
+        onClick={(e) => e.stopPropagation()}
+      />
+    </div>
+  );
+};
+
+const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, onSelectFile, selectedFileId, dirtyFileIds, actions, isRoot, searchQuery = "" }) => {
   // Auto-expand if there's a search query
-  const [isOpen, setIsOpen] = useState(isRoot || !!searchQuery);
-  const [children, setChildren] = useState<FileNode[] | undefined>(node.children);
+  const isOpen = actions.expandedIds.has(node.id) || !!searchQuery;
+  const children = node.children;
   const [isLoading, setIsLoading] = useState(false);
 
   const handleToggle = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    
+
     if (node.kind === 'file') {
       onSelectFile(node);
       return;
@@ -114,8 +365,7 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, onSelectFile, selecte
       // Opening
       // If node.children is already populated (legacy mode or previously loaded), use it
       if (node.children && node.children.length > 0) {
-         setChildren(node.children);
-         setIsOpen(true);
+         actions.setExpanded(node, true);
          return;
       }
 
@@ -124,29 +374,35 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, onSelectFile, selecte
         setIsLoading(true);
         try {
           const entries = await readDirectoryEntries(node);
-          setChildren(entries);
-          node.children = entries; 
+          node.children = entries;
         } catch (error) {
           console.error("Failed to read directory", error);
         } finally {
           setIsLoading(false);
         }
       }
-      setIsOpen(true);
+      actions.setExpanded(node, true);
     } else {
       // Closing
-      setIsOpen(false);
+      actions.setExpanded(node, false);
     }
   };
 
   const isSelected = selectedFileId === node.id;
-  
-  // Indentation based on level. Root (level 0) has 0 padding if we hide it, 
+  const isDirty = dirtyFileIds?.has(node.id) ?? false;
+  const isRenaming = actions.editing?.mode === 'rename' && actions.editing.node.id === node.id;
+  const creatingHere = actions.editing && actions.editing.mode !== 'rename' && actions.editing.parent.id === node.id
+    ? actions.editing.mode
+    : null;
+  // Handles are only available outside legacy mode
+  const canModify = !!node.handle;
+
+  // Indentation based on level. Root (level 0) has 0 padding if we hide it,
   // but if we show it, it has standard padding.
   // Let's hide root visually if it's the container, or show it as top level item.
   // VS Code shows project name as a section header.
   // Let's render root as a simple item for now.
-  
+
   const Icon = node.kind === 'file'
     ? File
     : (isOpen ? FolderOpen : Folder);
@@ -171,48 +427,127 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, onSelectFile, selecte
     );
   };
 
+  if (isRenaming) {
+    return (
+      <EntryNameInput
+        defaultValue={node.name}
+        level={node.level}
+        icon={<Icon size={14} className={cn("shrink-0", node.kind === 'directory' ? "text-primary" : "text-muted-foreground")} />}
+        onCommit={actions.commitEdit}
+        onCancel={actions.cancelEdit}
+      />
+    );
+  }
+
   return (
     <div>
-      <div
-        className={cn(
-          "flex items-center gap-1 py-1 px-2 cursor-pointer text-sm hover:bg-accent/50 transition-all duration-150 whitespace-nowrap overflow-hidden text-ellipsis file-item-hover",
-          isSelected && "bg-accent text-accent-foreground",
-          isRoot && "font-bold text-foreground py-2 border-b border-border mb-1"
-        )}
-        style={{ paddingLeft: isRoot ? '0.5rem' : `${node.level * 0.75 + 0.5}rem` }}
-        onClick={handleToggle}
-      >
-        <span className="shrink-0 text-muted-foreground">
-          {node.kind === 'directory' && !isRoot && (
-            isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />
-          )}
-          {node.kind === 'directory' && isRoot && (
-             <span className="text-xs uppercase tracking-wider text-muted-foreground mr-1">项目</span>
-          )}
-          {node.kind === 'file' && <span className="w-3.5 inline-block" />} {/* Spacer for alignment */}
-        </span>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            className={cn(
+              "flex items-center gap-1 py-1 px-2 cursor-pointer text-sm hover:bg-accent/50 transition-all duration-150 whitespace-nowrap overflow-hidden text-ellipsis file-item-hover",
+              isSelected && "bg-accent text-accent-foreground",
+              isRoot && "font-bold text-foreground py-2 border-b border-border mb-1",
+              actions.dragOverId === node.id && "bg-primary/15 ring-1 ring-inset ring-primary/50"
+            )}
+            style={{ paddingLeft: isRoot ? '0.5rem' : `${node.level * 0.75 + 0.5}rem` }}
+            onClick={handleToggle}
+            draggable={!isRoot && canModify}
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.effectAllowed = 'move';
+              actions.dragStart(node);
+            }}
+            onDragOver={(e) => {
+              if (node.kind !== 'directory' || !canModify) return;
+              e.preventDefault();
+              e.stopPropagation();
+              e.dataTransfer.dropEffect = 'move';
+              if (actions.dragOverId !== node.id) actions.dragOver(node);
+            }}
+            onDragLeave={() => {
+              if (actions.dragOverId === node.id) actions.dragOver(null);
+            }}
+            onDrop={(e) => {
+              if (node.kind !== 'directory') return;
+              e.preventDefault();
+              e.stopPropagation();
+              actions.drop(node);
+            }}
+          >
+            <span className="shrink-0 text-muted-foreground">
+              {node.kind === 'directory' && !isRoot && (
+                isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />
+              )}
+              {node.kind === 'directory' && isRoot && (
+                 <span className="text-xs uppercase tracking-wider text-muted-foreground mr-1">项目</span>
+              )}
+              {node.kind === 'file' && <span className="w-3.5 inline-block" />} {/* Spacer for alignment */}
+            </span>
 
-        {!isRoot && (
-          <Icon size={14} className={cn("shrink-0", node.kind === 'directory' ? "text-primary" : "text-muted-foreground")} />
-        )}
+            {!isRoot && (
+              <Icon size={14} className={cn("shrink-0", node.kind === 'directory' ? "text-primary" : "text-muted-foreground")} />
+            )}
 
-        <span className="truncate">{highlightMatch(node.name)}</span>
+            <span className="truncate">{highlightMatch(node.name)}</span>
 
-        {isLoading && <Loader2 size={12} className="animate-spin ml-auto shrink-0" />}
-      </div>
+            {isDirty && (
+              <span className="ml-auto mr-1 w-1.5 h-1.5 rounded-full bg-primary shrink-0" title="有未保存的更改" />
+            )}
+
+            {isLoading && <Loader2 size={12} className="animate-spin ml-auto shrink-0" />}
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-44" onCloseAutoFocus={(e) => e.preventDefault()}>
+          {node.kind === 'directory' && (
+            <>
+              <ContextMenuItem disabled={!canModify} onSelect={() => actions.startCreate(node, 'new-file')}>
+                <FilePlus /> 新建文件
+              </ContextMenuItem>
+              <ContextMenuItem disabled={!canModify} onSelect={() => actions.startCreate(node, 'new-folder')}>
+                <FolderPlus /> 新建文件夹
+              </ContextMenuItem>
+            </>
+          )}
+          {!isRoot && (
+            <>
+              {node.kind === 'directory' && <ContextMenuSeparator />}
+              <ContextMenuItem disabled={!canModify} onSelect={() => actions.startRename(node)}>
+                <Pencil /> 重命名
+              </ContextMenuItem>
+              <ContextMenuItem variant="destructive" disabled={!canModify} onSelect={() => actions.deleteNode(node)}>
+                <Trash2 /> 删除
+              </ContextMenuItem>
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
 
       {isOpen && node.kind === 'directory' && (
         <div>
+          {creatingHere && (
+            <EntryNameInput
+              defaultValue=""
+              level={node.level + 1}
+              icon={creatingHere === 'new-folder'
+                ? <Folder size={14} className="shrink-0 text-primary" />
+                : <File size={14} className="shrink-0 text-muted-foreground" />}
+              onCommit={actions.commitEdit}
+              onCancel={actions.cancelEdit}
+            />
+          )}
           {children && children.map(child => (
             <FileTreeNode
               key={child.id}
               node={child}
               onSelectFile={onSelectFile}
               selectedFileId={selectedFileId}
+              dirtyFileIds={dirtyFileIds}
+              actions={actions}
               searchQuery={searchQuery}
             />
           ))}
-          {children && children.length === 0 && !isLoading && !isRoot && (
+          {children && children.length === 0 && !isLoading && !isRoot && !creatingHere && (
             <div
               className="text-xs text-muted-foreground py-1 italic"
               style={{ paddingLeft: `${(node.level + 1) * 0.75 + 1.5}rem` }}
@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { fieldText, type FrontMatterValue, parseFrontMatter } from "@/lib/front-matter";
+
+interface FrontMatterDialogProps {
+  open: boolean;
+  markdown: string;
+  // Fields to set, or remove when `null`
+  onApply: (updates: Record<string, FrontMatterValue | null>) => void;
+  onCancel: () => void;
+}
+
+type FieldKey = 'title' | 'author' | 'date' | 'tags' | 'description';
+
+const FIELDS: { key: FieldKey; label: string; placeholder?: string; multiline?: boolean }[] = [
+  { key: 'title', label: "标题" },
+  { key: 'author', label: "作者" },
+  { key: 'date', label: "日期", placeholder: "2024-01-01" },
+  { key: 'tags', label: "标签", placeholder: "用逗号分隔" },
+  { key: 'description', label: "摘要", multiline: true },
+];
+
+const LIST_FIELDS = new Set<FieldKey>(['tags']);
+
+export const FrontMatterDialog: React.FC<FrontMatterDialogProps> = ({ open, markdown, onApply, onCancel }) => {
+  const frontMatter = useMemo(() => parseFrontMatter(markdown), [markdown]);
+  const initial = useMemo(
+    () => Object.fromEntries(FIELDS.map(({ key }) => [key, fieldText(frontMatter?.fields[key])])) as Record<FieldKey, string>,
+    [frontMatter]
+  );
+  const [values, setValues] = useState(initial);
+
+  const handleApply = () => {
+    const updates: Record<string, FrontMatterValue | null> = {};
+    for (const { key } of FIELDS) {
+      // Untouched fields keep their formatting
+      if (values[key] === initial[key]) continue;
+      const text = values[key].trim();
+      if (LIST_FIELDS.has(key)) {
+        const items = text.split(/[,，]/).map(item => item.trim()).filter(Boolean);
+        updates[key] = items.length ? items : null;
+      } else {
+        updates[key] = text || null;
+      }
+    }
+    onApply(updates);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>文档信息</DialogTitle>
+          <DialogDescription>
+            {frontMatter
+              ? `编辑文档开头的 ${frontMatter.format.toUpperCase()} Front Matter，其他字段保持不变。`
+              : "文档还没有 Front Matter，保存后会在开头添加 YAML Front Matter。"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {FIELDS.map(({ key, label, placeholder, multiline }) => (
+            <div key={key} className="grid gap-2">
+              <Label htmlFor={`front-matter-${key}`}>{label}</Label>
+              {multiline ? (
+                <Textarea
+                  id={`front-matter-${key}`}
+                  value={values[key]}
+                  placeholder={placeholder}
+                  rows={3}
+                  onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                />
+              ) : (
+                <Input
+                  id={`front-matter-${key}`}
+                  value={values[key]}
+                  placeholder={placeholder}
+                  onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                  onKeyDown={(e) => e.key === "Enter" && handleApply()}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>取消</Button>
+          <Button onClick={handleApply}>保存</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { HtmlTheme } from "@/lib/html-export";
+
+export interface HtmlExportSettings {
+  theme: HtmlTheme;
+  toc: boolean;
+  inlineImages: boolean;
+}
+
+interface HtmlExportDialogProps {
+  open: boolean;
+  // Preselected theme, normally the app's current one
+  defaultTheme: HtmlTheme;
+  onExport: (settings: HtmlExportSettings) => void;
+  onCancel: () => void;
+}
+
+export const HtmlExportDialog: React.FC<HtmlExportDialogProps> = ({ open, defaultTheme, onExport, onCancel }) => {
+  const [theme, setTheme] = useState<HtmlTheme>(defaultTheme);
+  const [toc, setToc] = useState(true);
+  const [inlineImages, setInlineImages] = useState(true);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>导出为 HTML</DialogTitle>
+          <DialogDescription>生成单个 .html 文件，样式、公式和图表都内嵌其中，无需联网即可打开。</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label>主题</Label>
+            <RadioGroup value={theme} onValueChange={(value) => setTheme(value as HtmlTheme)} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="light" id="html-export-light" />
+                <Label htmlFor="html-export-light" className="font-normal">浅色</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="dark" id="html-export-dark" />
+                <Label htmlFor="html-export-dark" className="font-normal">深色</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="html-export-toc">目录</Label>
+              <p className="text-sm text-muted-foreground">在正文旁生成可跳转的标题目录。</p>
+            </div>
+            <Switch id="html-export-toc" checked={toc} onCheckedChange={setToc} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="html-export-images">内嵌图片</Label>
+              <p className="text-sm text-muted-foreground">将图片转为 Data URI 写入文件，不可跨域读取的图片保留原链接。</p>
+            </div>
+            <Switch id="html-export-images" checked={inlineImages} onCheckedChange={setInlineImages} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>取消</Button>
+          <Button onClick={() => onExport({ theme, toc, inlineImages })}>导出</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { diff3, defaultMergeChoice, resolveMerge, type MergeChoice, type MergeHunk } from "@/lib/merge";
+import { cn } from "@/lib/utils";
+
+interface MergeDialogProps {
+  open: boolean;
+  fileName: string;
+  base: string;
+  ours: string;
+  theirs: string;
+  onApply: (merged: string) => void;
+  onCancel: () => void;
+}
+
+const HUNK_LABELS: Record<Exclude<MergeHunk['kind'], 'stable'>, string> = {
+  ours: "本地修改",
+  theirs: "磁盘修改",
+  same: "相同修改",
+  conflict: "冲突",
+};
+
+const CHOICE_LABELS: [MergeChoice, string][] = [
+  ['ours', "采用本地"],
+  ['theirs', "采用磁盘"],
+  ['both', "保留两者"],
+];
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({
+  open,
+  fileName,
+  base,
+  ours,
+  theirs,
+  onApply,
+  onCancel,
+}) => {
+  const hunks = useMemo(() => diff3(base, ours, theirs), [base, ours, theirs]);
+  const [choices, setChoices] = useState<MergeChoice[]>(() => hunks.map(defaultMergeChoice));
+
+  const changedCount = hunks.filter(hunk => hunk.kind !== 'stable').length;
+  const conflictCount = hunks.filter(hunk => hunk.kind === 'conflict').length;
+
+  const setChoice = (index: number, choice: MergeChoice) => {
+    setChoices(prev => prev.map((current, i) => (i === index ? choice : current)));
+  };
+
+  const chooseAll = (choice: MergeChoice) => {
+    setChoices(hunks.map(hunk => (hunk.kind === 'stable' ? 'ours' : choice)));
+  };
+
+  const renderLines = (title: string, lines: string[], highlight: boolean) => (
+    <div className="min-w-0">
+      <div className="text-xs text-muted-foreground mb-1">{title}</div>
+      <pre
+        className={cn(
+          "text-xs font-mono p-2 rounded border border-border overflow-x-auto whitespace-pre min-h-[2rem]",
+          highlight ? "bg-primary/5" : "bg-muted/30"
+        )}
+      >
+        {lines.length > 0 ? lines.join('\n') : <span className="italic text-muted-foreground">(空)</span>}
+      </pre>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>合并外部修改：{fileName}</DialogTitle>
+          <DialogDescription>
+            文件已被其他程序修改，而编辑器中也有未保存的更改。共 {changedCount} 处变更，其中 {conflictCount} 处冲突。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {hunks.map((hunk, index) => {
+            if (hunk.kind === 'stable') {
+              return (
+                <div key={index} className="text-xs text-muted-foreground text-center">
+                  ⋯ {hunk.base.length} 行未改动 ⋯
+                </div>
+              );
+            }
+
+            return (
+              <div key={index} className="border border-border rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={hunk.kind === 'conflict' ? "destructive" : "secondary"}>
+                    {HUNK_LABELS[hunk.kind]}
+                  </Badge>
+                  <div className="flex gap-1">
+                    {CHOICE_LABELS.map(([choice, label]) => (
+                      <Button
+                        key={choice}
+                        size="sm"
+                        variant={choices[index] === choice ? "default" : "outline"}
+                        className="h-7 text-xs"
+                        onClick={() => setChoice(index, choice)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {renderLines("基准", hunk.base, false)}
+                  {renderLines("本地", hunk.ours, choices[index] === 'ours' || choices[index] === 'both')}
+                  {renderLines("磁盘", hunk.theirs, choices[index] === 'theirs' || choices[index] === 'both')}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => chooseAll('ours')}>
+              全部采用本地
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => chooseAll('theirs')}>
+              全部采用磁盘
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              稍后处理
+            </Button>
+            <Button onClick={() => onApply(resolveMerge(hunks, choices))}>
+              应用合并
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useRef, useState } from "react";
+import { GripVertical } from "lucide-react";
+import type { OutlineHeading } from "@/lib/outline";
+import { cn } from "@/lib/utils";
+
+interface OutlinePanelProps {
+  headings: OutlineHeading[];
+  activeIndex: number;
+  onNavigate: (index: number) => void;
+  onMoveSection: (sourceIndex: number, targetIndex: number, position: 'before' | 'after') => void;
+}
+
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({ headings, activeIndex, onNavigate, onMoveSection }) => {
+  const [dropTarget, setDropTarget] = useState<{ index: number; position: 'before' | 'after' } | null>(null);
+  const draggedRef = useRef<number | null>(null);
+
+  if (headings.length === 0) {
+    return (
+      <div className="px-4 py-2 text-sm text-muted-foreground italic">
+        当前文档没有标题
+      </div>
+    );
+  }
+
+  // Headings are indented relative to the shallowest one in the document
+  const minLevel = Math.min(...headings.map(heading => heading.level));
+
+  const isInsideDragged = (index: number) => {
+    const source = draggedRef.current === null ? null : headings[draggedRef.current];
+    return !!source && headings[index].from >= source.from && headings[index].from < source.sectionEnd;
+  };
+
+  return (
+    <div className="w-full flex-1 overflow-y-auto select-none pb-4">
+      {headings.map((heading, index) => (
+        <div
+          key={`${heading.line}:${heading.text}`}
+          draggable
+          className={cn(
+            "group relative flex items-center gap-1 py-1 pr-2 text-sm cursor-pointer hover:bg-accent/50 transition-colors",
+            index === activeIndex ? "text-primary font-medium bg-primary/10" : "text-foreground/80"
+          )}
+          style={{ paddingLeft: `${(heading.level - minLevel) * 0.75 + 0.25}rem` }}
+          title={heading.text}
+          onClick={() => onNavigate(index)}
+          onDragStart={(e) => {
+            draggedRef.current = index;
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragEnd={() => {
+            draggedRef.current = null;
+            setDropTarget(null);
+          }}
+          onDragOver={(e) => {
+            // A section can't be dropped into itself
+            if (draggedRef.current === null || isInsideDragged(index)) return;
+            e.preventDefault();
+            const rect = e.currentTarget.getBoundingClientRect();
+            const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+            if (dropTarget?.index !== index || dropTarget.position !== position) {
+              setDropTarget({ index, position });
+            }
+          }}
+          onDragLeave={() => setDropTarget(current => (current?.index === index ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            const source = draggedRef.current;
+            draggedRef.current = null;
+            setDropTarget(null);
+            if (source !== null && dropTarget) {
+              onMoveSection(source, index, dropTarget.position);
+            }
+          }}
+        >
+          {dropTarget?.index === index && (
+            <span
+              className={cn(
+                "absolute left-0 right-0 h-0.5 bg-primary pointer-events-none",
+                dropTarget.position === 'before' ? "top-0" : "bottom-0"
+              )}
+            />
+          )}
+          <GripVertical size={12} className="shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 cursor-grab" />
+          <span className="truncate">{heading.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
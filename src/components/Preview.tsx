@@ -1,60 +1,128 @@
-import React, { forwardRef, useMemo, useState } from "react";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
-import remarkMath from "remark-math";
-import rehypeHighlight from "rehype-highlight";
-import rehypeKatex from "rehype-katex";
-import rehypeRaw from "rehype-raw";
+import React, { forwardRef, useEffect, useMemo, useState } from "react";
+import ReactMarkdown, { type ExtraProps } from "react-markdown";
 import "highlight.js/styles/github-dark.css";
 import "katex/dist/katex.min.css";
 import { Mermaid } from "@/components/Mermaid";
+import { sourceLineAt } from "@/lib/source-lines";
+import { REHYPE_PLUGINS, REMARK_REHYPE_OPTIONS, remarkPlugins, renderableMarkdown } from "@/lib/markdown-pipeline";
+import { type FrontMatter, parseFrontMatter } from "@/lib/front-matter";
+import { type FileNode, isRelativeUrl } from "@/lib/file-system";
+import { isSearchableFile } from "@/lib/search";
+import type { RelativeResources } from "@/hooks/use-relative-resources";
+import { toast } from "sonner";
+import { ChevronRight, Pencil } from "lucide-react";
 
 interface PreviewProps {
   content: string;
+  // Resolves and opens `[[Page]]` links; without it they render unresolved
+  wikiLinks?: {
+    exists: (page: string) => boolean;
+    onOpen: (page: string, heading?: string) => void;
+  };
+  // Relative images and links resolve against the opened folder
+  resources?: RelativeResources;
+  onOpenFile?: (node: FileNode) => void;
+  // Called with the 1-based source line of a toggled task item
+  onTaskChange?: (line: number, checked: boolean) => void;
+  // Called with the 1-based source line of a clicked block
+  onSourceLineClick?: (line: number) => void;
+  // Opens the form for the document's front matter
+  onEditFrontMatter?: () => void;
 }
 
-export const Preview = forwardRef<HTMLDivElement, PreviewProps>(({ content }, ref) => {
-  // Sanitize and process HTML content to allow video tags
-  const sanitizedContent = useMemo(() => {
-    return content.replace(
-      /<video([^>]*)>/gi,
-      (match, attributes) => {
-        // Allow only safe attributes
-        const safeAttrs = attributes
-          .replace(/on\w+="[^"]*"/gi, '') // Remove event handlers
-          .replace(/javascript:/gi, '') // Remove javascript: URLs
-          .replace(/onerror="[^"]*"/gi, ''); // Remove onerror
-        return `<video${safeAttrs}>`;
-      }
-    );
-  }, [content]);
+// Image whose source is a path inside the opened folder
+const RelativeImage: React.FC<React.ComponentProps<"img"> & { src: string; resources: RelativeResources }> = ({
+  src,
+  resources,
+  ...props
+}) => {
+  const [resolved, setResolved] = useState(() => resources.cachedObjectUrl(src));
 
-  // Track checkbox states
-  const checkboxStates = useMemo(() => {
-    const states: Record<string, boolean> = {};
-    const lines = content.split('\n');
-    lines.forEach((line, index) => {
-      const match = line.match(/^\s*-\s*\[([ x])\]/);
-      if (match) {
-        states[`task-${index}`] = match[1] === 'x' || match[1] === 'X';
-      }
+  useEffect(() => {
+    let cancelled = false;
+    resources.resolveObjectUrl(src).then(url => {
+      // Fall back to the path as written so a broken image still shows up as one
+      if (!cancelled) setResolved(url ?? src);
     });
-    return states;
-  }, [content]);
+    return () => {
+      cancelled = true;
+    };
+  }, [resources, src]);
 
-  const handleCheckboxChange = (taskId: string, checked: boolean) => {
-    // This would need to update the markdown content
-    // For now, just update local state
-    checkboxStates[taskId] = checked;
-  };
+  return resolved ? <img {...props} src={resolved} /> : null;
+};
+
+// Front matter shown as a card of its fields instead of as markdown
+const FrontMatterCard: React.FC<{ frontMatter: FrontMatter; onEdit?: () => void }> = ({ frontMatter, onEdit }) => {
+  const { title, ...fields } = frontMatter.fields;
+  const entries = Object.entries(fields);
+
+  return (
+    <details open className="front-matter-card not-prose group mb-8 rounded-lg border border-border bg-muted/30 text-sm" data-source-line="1">
+      <summary className="flex items-center gap-2 px-4 py-2 cursor-pointer select-none list-none [&::-webkit-details-marker]:hidden">
+        <ChevronRight size={14} className="text-muted-foreground transition-transform group-open:rotate-90" />
+        <span className="font-medium truncate">{typeof title === "string" && title ? title : "文档信息"}</span>
+        <span className="text-xs text-muted-foreground uppercase">{frontMatter.format}</span>
+        {onEdit && (
+          <button
+            type="button"
+            title="编辑文档信息"
+            className="ml-auto p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+            onClick={(e) => {
+              // Don't toggle the card
+              e.preventDefault();
+              onEdit();
+            }}
+          >
+            <Pencil size={14} />
+          </button>
+        )}
+      </summary>
+      {entries.length > 0 && (
+        <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1.5 px-4 pb-3 pt-1">
+          {entries.map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt className="text-muted-foreground">{key}</dt>
+              <dd className="min-w-0 break-words whitespace-pre-wrap">
+                {Array.isArray(value) ? (
+                  <span className="flex flex-wrap gap-1">
+                    {value.map((item, index) => (
+                      <span key={index} className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs">{item}</span>
+                    ))}
+                  </span>
+                ) : value}
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </details>
+  );
+};
+
+export const Preview = forwardRef<HTMLDivElement, PreviewProps>(({ content, wikiLinks, resources, onOpenFile, onTaskChange, onSourceLineClick, onEditFrontMatter }, ref) => {
+  const wikiLinkExists = wikiLinks?.exists;
+  const plugins = useMemo(() => remarkPlugins(wikiLinkExists), [wikiLinkExists]);
+
+  const frontMatter = useMemo(() => parseFrontMatter(content), [content]);
+
+  const sanitizedContent = useMemo(() => renderableMarkdown(content), [content]);
 
   return (
     <div
       ref={ref}
       className="h-full w-full overflow-auto bg-background p-8 transition-colors"
       id="preview-scroller"
+      onClick={(e) => {
+        if (!onSourceLineClick || !(e.target instanceof Element)) return;
+        // Leave links, controls and text selections alone
+        if (e.target.closest("a, button, input, video, summary") || !window.getSelection()?.isCollapsed) return;
+        const line = sourceLineAt(e.target);
+        if (line !== null) onSourceLineClick(line);
+      }}
     >
       <div className="prose prose-slate dark:prose-invert max-w-none mx-auto pb-20">
+        {frontMatter && <FrontMatterCard frontMatter={frontMatter} onEdit={onEditFrontMatter} />}
         <style>{`
           /* Task list styles */
           .task-list-item {
@@ -96,10 +164,40 @@ export const Preview = forwardRef<HTMLDivElement, PreviewProps>(({ content }, re
           .dark .task-list-item-checkbox:checked + .task-list-item-text {
             color: #64748b;
           }
+          /* Table of contents */
+          .toc {
+            margin: 1em 0 1.5em;
+            padding: 0.75em 1em;
+            border-left: 3px solid #3b82f6;
+            background: rgba(148, 163, 184, 0.08);
+          }
+          .toc ul {
+            margin: 0;
+            padding-left: 1.25em;
+            list-style: none;
+          }
+          .toc > ul {
+            padding-left: 0;
+          }
+          .toc li {
+            margin: 0.2em 0;
+          }
+          .toc a {
+            text-decoration: none;
+          }
+          /* Wiki-link styles */
+          .wiki-link {
+            text-decoration-style: dotted;
+          }
+          .wiki-link-missing {
+            color: #94a3b8;
+            text-decoration-style: dashed;
+          }
         `}</style>
         <ReactMarkdown
-          remarkPlugins={[remarkGfm, remarkMath]}
-          rehypePlugins={[rehypeRaw, rehypeHighlight, rehypeKatex]}
+          remarkPlugins={plugins}
+          remarkRehypeOptions={REMARK_REHYPE_OPTIONS}
+          rehypePlugins={REHYPE_PLUGINS}
           components={{
             code({ node, inline, className, children, ...props }: any) {
               const match = /language-(\w+)/.exec(className || "");
@@ -127,29 +225,85 @@ export const Preview = forwardRef<HTMLDivElement, PreviewProps>(({ content }, re
                 </div>
               );
             },
-            // Custom task list item rendering
-            li({ node, children, ...props }: any) {
-              const isTask = node?.children?.[0]?.type === 'paragraph' &&
-                             node?.children?.[0]?.children?.[0]?.type === 'input';
-              const isChecked = node?.children?.[0]?.children?.[0]?.properties?.checked;
-
-              if (isTask) {
+            // Wiki-links open files from the workspace instead of navigating
+            a({ node, children, ...props }: React.ComponentProps<"a"> & ExtraProps) {
+              const page = node?.properties?.dataWikiPage;
+              if (typeof page === "string") {
+                const heading = node?.properties?.dataWikiHeading;
                 return (
-                  <li className="task-list-item" {...props}>
-                    <input
-                      type="checkbox"
-                      className="task-list-item-checkbox"
-                      checked={isChecked || false}
-                      readOnly
-                    />
-                    <span className="task-list-item-text">
-                      {node?.children?.[0]?.children?.slice(1)}
-                    </span>
-                  </li>
+                  <a
+                    {...props}
+                    title={page || undefined}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      wikiLinks?.onOpen(page, typeof heading === "string" ? heading : undefined);
+                    }}
+                  >
+                    {children}
+                  </a>
                 );
               }
-
-              return <li {...props}>{children}</li>;
+              // In-page anchors (TOC entries) would change the app's hash route
+              if (props.href?.startsWith("#") && props.href.length > 1) {
+                const id = decodeURIComponent(props.href.slice(1));
+                return (
+                  <a
+                    {...props}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      const container = e.currentTarget.closest("#preview-scroller");
+                      container?.querySelector(`[id="${CSS.escape(id)}"]`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+                    }}
+                  >
+                    {children}
+                  </a>
+                );
+              }
+              if (resources && props.href && isRelativeUrl(props.href)) {
+                const href = props.href;
+                return (
+                  <a
+                    {...props}
+                    onClick={async (e) => {
+                      e.preventDefault();
+                      const target = await resources.resolveLink(href);
+                      if (!target) {
+                        toast.error(`未找到文件: ${href}`);
+                      } else if (isSearchableFile(target.name)) {
+                        onOpenFile?.(target);
+                      } else {
+                        const url = await resources.resolveObjectUrl(href);
+                        if (url) window.open(url, "_blank");
+                      }
+                    }}
+                  >
+                    {children}
+                  </a>
+                );
+              }
+              return <a {...props}>{children}</a>;
+            },
+            img({ node, ...props }: React.ComponentProps<"img"> & ExtraProps) {
+              // The source as written, before react-markdown's URL sanitizing
+              const src = node?.properties?.src;
+              if (resources && typeof src === "string" && isRelativeUrl(src)) {
+                return <RelativeImage {...props} src={src} resources={resources} />;
+              }
+              return <img {...props} />;
+            },
+            // Task checkboxes toggle their line in the source
+            input({ node, ...props }: React.ComponentProps<"input"> & ExtraProps) {
+              const line = Number(node?.properties?.dataTaskLine);
+              if (props.type !== "checkbox" || !line) return <input {...props} />;
+              return (
+                <input
+                  {...props}
+                  checked={!!props.checked}
+                  readOnly={!onTaskChange}
+                  disabled={!onTaskChange}
+                  onChange={(e) => onTaskChange?.(line, e.target.checked)}
+                />
+              );
             },
           }}
         >
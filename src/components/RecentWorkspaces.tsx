@@ -0,0 +1,45 @@
+import React from "react";
+import { FileText, Folder, X } from "lucide-react";
+import type { RecentEntry } from "@/lib/recent-workspaces";
+
+interface RecentWorkspacesProps {
+  entries: RecentEntry[];
+  onOpen: (entry: RecentEntry) => void;
+  onRemove: (entry: RecentEntry) => void;
+}
+
+export const RecentWorkspaces: React.FC<RecentWorkspacesProps> = ({ entries, onOpen, onRemove }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="w-full mt-6 text-left">
+      <div className="px-1 pb-1 text-xs uppercase tracking-wider text-muted-foreground">最近打开</div>
+      {entries.map(entry => {
+        const Icon = entry.kind === 'directory' ? Folder : FileText;
+
+        return (
+          <div
+            key={entry.id}
+            className="group flex items-center gap-2 px-2 py-1 rounded-md text-sm text-foreground cursor-pointer hover:bg-accent/50 transition-colors"
+            title={`${entry.name}\n${new Date(entry.lastOpened).toLocaleString()}`}
+            onClick={() => onOpen(entry)}
+          >
+            <Icon size={14} className={entry.kind === 'directory' ? "shrink-0 text-primary" : "shrink-0 text-muted-foreground"} />
+            <span className="truncate">{entry.name}</span>
+            <button
+              type="button"
+              title="从列表中移除"
+              className="ml-auto shrink-0 p-0.5 rounded text-muted-foreground hover:text-foreground invisible group-hover:visible"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(entry);
+              }}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { FileReplacement } from "@/lib/search";
+
+interface ReplacePreviewDialogProps {
+  open: boolean;
+  replacements: FileReplacement[];
+  onApply: (replacements: FileReplacement[]) => void;
+  onCancel: () => void;
+}
+
+export const ReplacePreviewDialog: React.FC<ReplacePreviewDialogProps> = ({
+  open,
+  replacements,
+  onApply,
+  onCancel,
+}) => {
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+
+  const selected = replacements.filter(replacement => !excluded.has(replacement.node.id));
+  const changeCount = replacements.reduce((sum, replacement) => sum + replacement.changes.length, 0);
+
+  const toggle = (id: string, include: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (include) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>替换预览</DialogTitle>
+          <DialogDescription>
+            将在 {replacements.length} 个文件中修改 {changeCount} 行。取消勾选可跳过对应文件。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {replacements.map(replacement => {
+            const included = !excluded.has(replacement.node.id);
+
+            return (
+              <div key={replacement.node.id} className="border border-border rounded-md">
+                <label className="flex items-center gap-2 px-3 py-2 border-b border-border bg-muted/30 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={included}
+                    onCheckedChange={(checked) => toggle(replacement.node.id, checked === true)}
+                  />
+                  <span className="font-medium truncate">{replacement.path}</span>
+                  <span className="ml-auto text-xs text-muted-foreground shrink-0">
+                    {replacement.changes.length} 行
+                  </span>
+                </label>
+                <div className={included ? "" : "opacity-50"}>
+                  {replacement.changes.map(change => (
+                    <div key={change.line} className="grid grid-cols-[3rem_1fr] text-xs font-mono">
+                      <span className="row-span-2 px-2 py-0.5 text-right text-muted-foreground border-r border-border">
+                        {change.line}
+                      </span>
+                      <pre className="px-2 py-0.5 whitespace-pre-wrap break-all bg-destructive/10 line-through decoration-destructive/50">
+                        {change.before}
+                      </pre>
+                      <pre className="px-2 py-0.5 whitespace-pre-wrap break-all bg-green-500/10">
+                        {change.after}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            取消
+          </Button>
+          <Button disabled={selected.length === 0} onClick={() => onApply(selected)}>
+            替换 {selected.length} 个文件
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
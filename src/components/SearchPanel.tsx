@@ -0,0 +1,260 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { CaseSensitive, ChevronDown, ChevronRight, FileText, Loader2, Regex, RefreshCw, Replace, WholeWord } from "lucide-react";
+import { toast } from "sonner";
+import type { FileNode } from "@/lib/file-system";
+import {
+  type FileReplacement,
+  type FileSearchResult,
+  type SearchMatch,
+  type SearchOptions,
+  buildSearchRegExp,
+  replaceInContent,
+  searchFiles,
+} from "@/lib/search";
+import { ReplacePreviewDialog } from "@/components/ReplacePreviewDialog";
+import { cn } from "@/lib/utils";
+
+interface SearchPanelProps {
+  root: FileNode;
+  // Reads a file the way the user currently sees it (open tabs win over disk)
+  readContent: (node: FileNode) => Promise<string>;
+  onOpenMatch: (node: FileNode, match: SearchMatch) => void;
+  onApplyReplace: (replacements: FileReplacement[]) => Promise<void>;
+}
+
+// Characters of context kept in front of a match in the result list
+const CONTEXT_BEFORE = 24;
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ root, readContent, onOpenMatch, onApplyReplace }) => {
+  const [options, setOptions] = useState<SearchOptions>({
+    query: "",
+    useRegex: false,
+    matchCase: false,
+    wholeWord: false,
+  });
+  const [replacement, setReplacement] = useState("");
+  const [results, setResults] = useState<FileSearchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [preview, setPreview] = useState<FileReplacement[] | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Replacing writes to disk, which legacy folders can't do
+  const canReplace = !!root.handle;
+
+  const runSearch = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      buildSearchRegExp(options);
+    } catch {
+      setError("无效的正则表达式（按 Unicode 模式解析）");
+      setResults([]);
+      return;
+    }
+    setError(null);
+
+    setIsSearching(true);
+    try {
+      const found = await searchFiles(root, options, readContent, controller.signal);
+      if (!controller.signal.aborted) setResults(found);
+    } catch (err) {
+      console.error(err);
+      if (!controller.signal.aborted) setError("搜索失败");
+    } finally {
+      if (!controller.signal.aborted) setIsSearching(false);
+    }
+  }, [root, options, readContent]);
+
+  // Search as the user types, but not on every keystroke
+  useEffect(() => {
+    const handler = setTimeout(runSearch, 300);
+    return () => clearTimeout(handler);
+  }, [runSearch]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleOption = (key: 'useRegex' | 'matchCase' | 'wholeWord') => {
+    setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handlePreviewReplace = async () => {
+    const regex = buildSearchRegExp(options);
+    if (!regex || results.length === 0) return;
+
+    // Re-read so the preview reflects edits made since the search ran
+    const replacements: FileReplacement[] = [];
+    for (const result of results) {
+      try {
+        const content = await readContent(result.node);
+        const replaced = replaceInContent(content, regex, replacement, options.useRegex);
+        if (replaced.changes.length > 0) {
+          replacements.push({ node: result.node, path: result.path, ...replaced });
+        }
+      } catch (err) {
+        console.error(err);
+        toast.error(`读取文件失败: ${result.path}`);
+      }
+    }
+
+    if (replacements.length === 0) {
+      toast.info("没有需要替换的内容");
+      return;
+    }
+    setPreview(replacements);
+  };
+
+  const handleApplyReplace = async (selected: FileReplacement[]) => {
+    setPreview(null);
+    await onApplyReplace(selected);
+    runSearch();
+  };
+
+  const matchCount = results.reduce((sum, result) => sum + result.matches.length, 0);
+
+  const optionButton = (key: 'useRegex' | 'matchCase' | 'wholeWord', title: string, Icon: typeof Regex) => (
+    <button
+      type="button"
+      title={title}
+      onClick={() => toggleOption(key)}
+      className={cn(
+        "p-0.5 rounded text-muted-foreground hover:text-foreground transition-colors",
+        options[key] && "bg-primary/20 text-primary hover:text-primary"
+      )}
+    >
+      <Icon size={14} />
+    </button>
+  );
+
+  const renderMatch = (match: SearchMatch) => {
+    const contextStart = Math.max(0, match.start - CONTEXT_BEFORE);
+    return (
+      <>
+        {contextStart > 0 && "…"}
+        {match.lineText.slice(contextStart, match.start).trimStart()}
+        <span className="bg-primary/25 text-foreground rounded-sm">
+          {match.lineText.slice(match.start, match.end)}
+        </span>
+        {match.lineText.slice(match.end)}
+      </>
+    );
+  };
+
+  return (
+    <div className="w-full flex flex-col h-full select-none">
+      <div className="px-2 pb-2 space-y-1.5">
+        <div className="relative">
+          <input
+            type="text"
+            placeholder="在文件中搜索..."
+            value={options.query}
+            autoFocus
+            onChange={(e) => setOptions(prev => ({ ...prev, query: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && runSearch()}
+            className={cn(
+              "w-full pl-2 pr-20 py-1.5 text-sm bg-muted/50 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 transition-all duration-200",
+              error && "border-destructive focus:ring-destructive/50"
+            )}
+          />
+          <div className="absolute right-1.5 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+            {optionButton('matchCase', "区分大小写", CaseSensitive)}
+            {optionButton('wholeWord', "全字匹配", WholeWord)}
+            {optionButton('useRegex', "使用正则表达式", Regex)}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            placeholder="替换为..."
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-muted/50 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 transition-all duration-200"
+          />
+          <button
+            type="button"
+            title={canReplace ? "全部替换（预览）" : "兼容模式下无法写入文件"}
+            disabled={!canReplace || matchCount === 0}
+            onClick={handlePreviewReplace}
+            className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-accent/50 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+          >
+            <Replace size={14} />
+          </button>
+        </div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground px-0.5">
+          <span>
+            {error
+              ? <span className="text-destructive">{error}</span>
+              : options.query && !isSearching && `${results.length} 个文件中有 ${matchCount} 个结果`}
+          </span>
+          <button
+            type="button"
+            title="重新搜索"
+            onClick={runSearch}
+            className="p-0.5 rounded hover:text-foreground transition-colors"
+          >
+            {isSearching ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {results.map(result => {
+          const isCollapsed = collapsed.has(result.node.id);
+
+          return (
+            <div key={result.node.id}>
+              <div
+                className="flex items-center gap-1 px-2 py-1 text-sm cursor-pointer hover:bg-accent/50 transition-colors"
+                title={result.path}
+                onClick={() => toggleCollapsed(result.node.id)}
+              >
+                <span className="shrink-0 text-muted-foreground">
+                  {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                </span>
+                <FileText size={14} className="shrink-0 text-muted-foreground" />
+                <span className="truncate">{result.node.name}</span>
+                <span className="ml-auto shrink-0 text-xs px-1.5 rounded-full bg-muted text-muted-foreground">
+                  {result.matches.length}
+                </span>
+              </div>
+              {!isCollapsed && result.matches.map(match => (
+                <div
+                  key={`${match.line}:${match.start}`}
+                  className="flex items-baseline gap-2 pl-8 pr-2 py-0.5 text-xs cursor-pointer hover:bg-accent/50 transition-colors"
+                  onClick={() => onOpenMatch(result.node, match)}
+                >
+                  <span className="shrink-0 text-muted-foreground tabular-nums">{match.line}</span>
+                  <span className="truncate font-mono">{renderMatch(match)}</span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {preview && (
+        <ReplacePreviewDialog
+          open
+          replacements={preview}
+          onApply={handleApplyReplace}
+          onCancel={() => setPreview(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from "react";
+import { FileText, Plus, X } from "lucide-react";
+import { type EditorTab, isTabDirty } from "@/hooks/use-tabs";
+import { cn } from "@/lib/utils";
+
+interface TabBarProps {
+  tabs: EditorTab[];
+  activeTabId: string;
+  onSelectTab: (id: string) => void;
+  onCloseTab: (id: string) => void;
+  onNewTab: () => void;
+}
+
+export const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, onSelectTab, onCloseTab, onNewTab }) => {
+  return (
+    <div className="flex items-stretch h-9 border-b border-border bg-sidebar shrink-0 overflow-x-auto">
+      {tabs.map(tab => {
+        const isActive = tab.id === activeTabId;
+        const isDirty = isTabDirty(tab);
+
+        return (
+          <div
+            key={tab.id}
+            className={cn(
+              "group flex items-center gap-1.5 pl-3 pr-1.5 text-sm border-r border-border cursor-pointer whitespace-nowrap max-w-[200px] transition-colors duration-150",
+              isActive
+                ? "bg-background text-foreground"
+                : "text-muted-foreground hover:bg-accent/50 hover:text-foreground"
+            )}
+            title={tab.fileNode?.path || tab.title}
+            onClick={() => onSelectTab(tab.id)}
+            onAuxClick={(e) => {
+              // Middle click closes the tab, like in browsers and VS Code
+              if (e.button === 1) {
+                e.preventDefault();
+                onCloseTab(tab.id);
+              }
+            }}
+          >
+            <FileText size={14} className={cn("shrink-0", isActive && "text-primary")} />
+            <span className="truncate">{tab.title}</span>
+            <button
+              type="button"
+              className="relative shrink-0 w-5 h-5 flex items-center justify-center rounded hover:bg-muted"
+              title="关闭"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCloseTab(tab.id);
+              }}
+            >
+              {isDirty && (
+                <span className="absolute w-2 h-2 rounded-full bg-foreground/60 group-hover:hidden" />
+              )}
+              <X size={12} className={cn(isDirty && "invisible group-hover:visible")} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="shrink-0 px-2 flex items-center text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors"
+        title="新建标签页"
+        onClick={onNewTab}
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+  );
+};
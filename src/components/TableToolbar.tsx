@@ -0,0 +1,99 @@
+import React from "react";
+import type { Command, EditorState } from "prosemirror-state";
+import type { EditorView } from "prosemirror-view";
+import {
+  addColumnAfter,
+  addColumnBefore,
+  addRowAfter,
+  addRowBefore,
+  deleteColumn,
+  deleteRow,
+  deleteTable,
+  mergeCells,
+  splitCell,
+} from "prosemirror-tables";
+import { Button } from "@/components/ui/button";
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  BetweenHorizontalEnd,
+  BetweenHorizontalStart,
+  BetweenVerticalEnd,
+  BetweenVerticalStart,
+  Columns3,
+  Rows3,
+  TableCellsMerge,
+  TableCellsSplit,
+  Trash2,
+} from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { columnAlign, setColumnAlign } from "@/lib/table-commands";
+
+interface TableToolbarProps {
+  view: EditorView;
+  // The state the toolbar reflects, passed so it re-renders with the selection
+  state: EditorState;
+}
+
+type Tool =
+  | { separator: true }
+  | { separator?: false; icon: React.ReactNode; label: string; command: Command; active?: boolean };
+
+export const TableToolbar: React.FC<TableToolbarProps> = ({ view, state }) => {
+  const align = columnAlign(state);
+
+  const run = (command: Command) => {
+    command(view.state, view.dispatch, view);
+    view.focus();
+  };
+
+  const tools: Tool[] = [
+    { icon: <BetweenHorizontalStart size={16} />, label: "上方插入行", command: addRowBefore },
+    { icon: <BetweenHorizontalEnd size={16} />, label: "下方插入行", command: addRowAfter },
+    { icon: <BetweenVerticalStart size={16} />, label: "左侧插入列", command: addColumnBefore },
+    { icon: <BetweenVerticalEnd size={16} />, label: "右侧插入列", command: addColumnAfter },
+    { separator: true },
+    { icon: <Rows3 size={16} />, label: "删除行", command: deleteRow },
+    { icon: <Columns3 size={16} />, label: "删除列", command: deleteColumn },
+    { separator: true },
+    { icon: <TableCellsMerge size={16} />, label: "合并单元格", command: mergeCells },
+    { icon: <TableCellsSplit size={16} />, label: "拆分单元格", command: splitCell },
+    { separator: true },
+    { icon: <AlignLeft size={16} />, label: "左对齐", command: setColumnAlign(align === "left" ? null : "left"), active: align === "left" },
+    { icon: <AlignCenter size={16} />, label: "居中", command: setColumnAlign(align === "center" ? null : "center"), active: align === "center" },
+    { icon: <AlignRight size={16} />, label: "右对齐", command: setColumnAlign(align === "right" ? null : "right"), active: align === "right" },
+    { separator: true },
+    { icon: <Trash2 size={16} />, label: "删除表格", command: deleteTable },
+  ];
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 p-1 bg-background border border-border rounded-lg shadow-lg animate-fade-in">
+      {tools.map((tool, index) => {
+        if (tool.separator) {
+          return <div key={index} className="w-px h-6 bg-border mx-1 shrink-0" />;
+        }
+        return (
+          <Tooltip key={tool.label}>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={`h-8 w-8 text-muted-foreground hover:text-foreground hover:bg-muted ${tool.active ? "bg-muted text-foreground" : ""}`}
+                disabled={!tool.command(state)}
+                // Keep the editor's selection while clicking
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => run(tool.command)}
+              >
+                {tool.icon}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{tool.label}</p>
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import { EditorView } from "@codemirror/view";
 import { Button } from "@/components/ui/button";
 import {
@@ -17,11 +17,122 @@ import {
   Table,
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  deleteTableColumn,
+  deleteTableRow,
+  formatTableAtCursor,
+  insertTable,
+  insertTableColumnLeft,
+  insertTableColumnRight,
+  insertTableRowAbove,
+  insertTableRowBelow,
+  isInTable,
+  sortTableByColumn,
+} from "@/lib/markdown-table";
 
 interface ToolbarProps {
   editorView: EditorView | null;
 }
 
+const GRID_ROWS = 8;
+const GRID_COLUMNS = 8;
+
+// Inserts a table of a size picked from a grid, and edits the one at the cursor
+const TableMenu: React.FC<{ editorView: EditorView }> = ({ editorView }) => {
+  const [open, setOpen] = useState(false);
+  const [size, setSize] = useState({ rows: 0, columns: 0 });
+  const inTable = open && isInTable(editorView.state);
+
+  const tableActions = [
+    { label: "上方插入行", command: insertTableRowAbove },
+    { label: "下方插入行", command: insertTableRowBelow },
+    { label: "删除行", command: deleteTableRow },
+    { separator: true },
+    { label: "左侧插入列", command: insertTableColumnLeft },
+    { label: "右侧插入列", command: insertTableColumnRight },
+    { label: "删除列", command: deleteTableColumn },
+    { separator: true },
+    { label: "按此列升序排序", command: sortTableByColumn(false) },
+    { label: "按此列降序排序", command: sortTableByColumn(true) },
+    { label: "格式化表格", command: formatTableAtCursor },
+  ];
+
+  return (
+    <DropdownMenu open={open} onOpenChange={(next) => { setOpen(next); setSize({ rows: 0, columns: 0 }); }}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-foreground hover:bg-muted"
+            >
+              <Table size={16} />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>表格 <span className="text-xs opacity-50 ml-2">(Tab 切换单元格)</span></p>
+        </TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent
+        align="start"
+        className="w-56"
+        // Hand focus back to the editor rather than the button
+        onCloseAutoFocus={(e) => {
+          e.preventDefault();
+          editorView.focus();
+        }}
+      >
+        <DropdownMenuLabel className="text-xs text-muted-foreground">
+          {size.rows > 0 ? `插入 ${size.rows} 行 × ${size.columns} 列表格` : "插入表格"}
+        </DropdownMenuLabel>
+        <div
+          className="grid gap-0.5 px-2 pb-2"
+          style={{ gridTemplateColumns: `repeat(${GRID_COLUMNS}, 1fr)` }}
+          onMouseLeave={() => setSize({ rows: 0, columns: 0 })}
+        >
+          {Array.from({ length: GRID_ROWS * GRID_COLUMNS }, (_, index) => {
+            const rows = Math.floor(index / GRID_COLUMNS) + 1;
+            const columns = (index % GRID_COLUMNS) + 1;
+            const selected = rows <= size.rows && columns <= size.columns;
+            return (
+              <button
+                key={index}
+                type="button"
+                className={`h-5 w-5 rounded-sm border ${selected ? "bg-primary/30 border-primary" : "border-border"}`}
+                onMouseEnter={() => setSize({ rows, columns })}
+                onClick={() => {
+                  insertTable(rows, columns)(editorView);
+                  setOpen(false);
+                }}
+              />
+            );
+          })}
+        </div>
+        <DropdownMenuSeparator />
+        {tableActions.map((action, index) =>
+          action.separator ? (
+            <DropdownMenuSeparator key={index} />
+          ) : (
+            <DropdownMenuItem key={action.label} disabled={!inTable} onClick={() => action.command?.(editorView)}>
+              {action.label}
+            </DropdownMenuItem>
+          )
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
 export const Toolbar: React.FC<ToolbarProps> = ({ editorView }) => {
   if (!editorView) return null;
 
@@ -128,13 +239,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({ editorView }) => {
       label: "插入图片",
       action: () => insertText("![alt text](", ")"),
     },
-    {
-      icon: <Table size={16} />,
-      label: "表格",
-      action: () => insertText(
-        "| Header | Header |\n| :--- | :--- |\n| Cell | Cell |\n"
-      ),
-    },
+    { table: true },
     { separator: true },
     {
       icon: <Minus size={16} />,
@@ -149,6 +254,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({ editorView }) => {
         if (tool.separator) {
           return <div key={index} className="w-px h-6 bg-border mx-1 shrink-0" />;
         }
+        if (tool.table) {
+          return <TableMenu key="table" editorView={editorView} />;
+        }
         return (
           <Tooltip key={tool.label}>
             <TooltipTrigger asChild>
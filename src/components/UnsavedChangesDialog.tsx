@@ -0,0 +1,48 @@
+import React from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+interface UnsavedChangesDialogProps {
+  open: boolean;
+  fileName: string;
+  onSave: () => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+export const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({
+  open,
+  fileName,
+  onSave,
+  onDiscard,
+  onCancel,
+}) => {
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>是否保存对 "{fileName}" 的更改？</AlertDialogTitle>
+          <AlertDialogDescription>
+            如果不保存，您的更改将会丢失。
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>取消</AlertDialogCancel>
+          <Button variant="outline" onClick={onDiscard}>
+            不保存
+          </Button>
+          <AlertDialogAction onClick={onSave}>保存</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import React, { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import type { EditorView } from "prosemirror-view";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ThemeProvider } from "@/contexts/ThemeContext";
+import { SettingsProvider } from "@/contexts/SettingsContext";
+import { WysiwygEditor } from "@/components/WysiwygEditor";
+import { hasPendingEdits } from "@/lib/markdown-prosemirror";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("WysiwygEditor", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let view: EditorView | null;
+  const onChange = vi.fn();
+
+  const render = (content: string) => act(() => {
+    root.render(
+      <ThemeProvider>
+        <SettingsProvider>
+          <WysiwygEditor content={content} onChange={onChange} onEditorReady={editor => { view = editor; }} />
+        </SettingsProvider>
+      </ThemeProvider>
+    );
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    root = createRoot(container);
+    view = null;
+    onChange.mockReset();
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    vi.useRealTimers();
+  });
+
+  it("reports local edits once typing pauses", () => {
+    render("Hello");
+    act(() => view!.dispatch(view!.state.tr.insertText("!", 6)));
+    expect(onChange).not.toHaveBeenCalled();
+    expect(hasPendingEdits(view!)).toBe(true);
+
+    act(() => vi.advanceTimersByTime(500));
+    expect(onChange).toHaveBeenCalledWith("Hello!\n");
+    expect(hasPendingEdits(view!)).toBe(false);
+  });
+
+  it("takes outside changes to the content after a local edit", () => {
+    render("Hello");
+    act(() => view!.dispatch(view!.state.tr.insertText("!", 6)));
+    act(() => vi.advanceTimersByTime(500));
+    render("Hello!\n");
+
+    // E.g. an outline reorder or a front matter edit
+    render("# Changed\n\nFrom outside\n");
+    expect(view!.state.doc.child(0).type.name).toBe("heading");
+    expect(view!.state.doc.textContent).toBe("ChangedFrom outside");
+
+    // The next local edit starts from the outside change
+    act(() => view!.dispatch(view!.state.tr.insertText("?", view!.state.doc.content.size - 1)));
+    act(() => vi.advanceTimersByTime(500));
+    expect(onChange).toHaveBeenLastCalledWith("# Changed\n\nFrom outside?\n");
+  });
+
+  it("hands pending edits over when unmounted", () => {
+    render("Hello");
+    act(() => view!.dispatch(view!.state.tr.insertText("!", 6)));
+    act(() => root.unmount());
+    expect(onChange).toHaveBeenCalledWith("Hello!\n");
+    root = createRoot(container);
+  });
+});
@@ -1,20 +1,24 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { EditorState, TextSelection } from "prosemirror-state";
+import { EditorState, NodeSelection, TextSelection } from "prosemirror-state";
 import { EditorView } from "prosemirror-view";
-import { Schema, DOMParser as ProseMirrorDOMParser, Node as ProseMirrorNode } from "prosemirror-model";
+import type { MarkType, Node as ProseMirrorNode } from "prosemirror-model";
 import { inputRules, wrappingInputRule, textblockTypeInputRule, InputRule } from "prosemirror-inputrules";
 import { keymap } from "prosemirror-keymap";
 import { history, undo, redo } from "prosemirror-history";
 import { baseKeymap, toggleMark, setBlockType, chainCommands, exitCode, joinUp, joinDown, lift, selectParentNode } from "prosemirror-commands";
 import { wrapInList, splitListItem, liftListItem, sinkListItem } from "prosemirror-schema-list";
-import { tableEditing } from "prosemirror-tables";
+import { goToNextCell, isInTable, tableEditing } from "prosemirror-tables";
 import { useTheme } from "@/contexts/ThemeContext";
 import { useSettings } from "@/contexts/SettingsContext";
 import { toast } from "sonner";
 import { uploadImage, uploadVideo } from "@/lib/image-upload";
 import { htmlToMarkdownAsync, getHTMLFromClipboard, downloadImageAsFile } from "@/lib/html-to-markdown";
+import type { TabViewState } from "@/hooks/use-tabs";
+import { renderKatex, schema } from "@/lib/wysiwyg-schema";
+import { docToMarkdown, docToMarkdownWithOffsets, markdownToDoc, posAtSourceOffset, setPendingEdits } from "@/lib/markdown-prosemirror";
+import { convertSelectionToTable, goToNextCellOrAddRow, tableFromDelimitedText } from "@/lib/table-commands";
+import { TableToolbar } from "@/components/TableToolbar";
 import mermaid from "mermaid";
-import katex from "katex";
 
 // Initialize Mermaid
 mermaid.initialize({
@@ -23,232 +27,6 @@ mermaid.initialize({
   securityLevel: 'loose',
 });
 
-// Enhanced schema with fenced code blocks that support language parameter
-const schema = new Schema({
-  nodes: {
-    doc: {
-      content: "block+"
-    },
-    paragraph: {
-      content: "inline*",
-      group: "block",
-      parseDOM: [{ tag: "p" }],
-      toDOM() { return ["p", 0]; }
-    },
-    blockquote: {
-      content: "block+",
-      group: "block",
-      defining: true,
-      parseDOM: [{ tag: "blockquote" }],
-      toDOM() { return ["blockquote", 0]; }
-    },
-    horizontal_rule: {
-      group: "block",
-      parseDOM: [{ tag: "hr" }],
-      toDOM() { return ["hr"]; }
-    },
-    heading: {
-      attrs: { level: { default: 1 } },
-      content: "inline*",
-      group: "block",
-      defining: true,
-      parseDOM: [
-        { tag: "h1", attrs: { level: 1 } },
-        { tag: "h2", attrs: { level: 2 } },
-        { tag: "h3", attrs: { level: 3 } },
-        { tag: "h4", attrs: { level: 4 } },
-        { tag: "h5", attrs: { level: 5 } },
-        { tag: "h6", attrs: { level: 6 } },
-      ],
-      toDOM(node) { return ["h" + node.attrs.level, 0]; }
-    },
-    code_block: {
-      attrs: { language: { default: null } },
-      content: "text*",
-      marks: "",
-      group: "block",
-      code: true,
-      defining: true,
-      parseDOM: [{
-        tag: "pre",
-        getAttrs(dom) {
-          const code = (dom as HTMLElement).querySelector('code');
-          if (code) {
-            const classList = code.className;
-            const langMatch = classList.match(/language-(\w+)/);
-            return {
-              language: langMatch ? langMatch[1] : null
-            };
-          }
-          return {};
-        }
-      }],
-      toDOM(node) {
-        const attrs = node.attrs.language ? { class: `language-${node.attrs.language}`, "data-language": node.attrs.language } : {};
-        return ["pre", ["code", attrs, 0]];
-      }
-    },
-    text: {
-      group: "inline"
-    },
-    image: {
-      inline: true,
-      attrs: {
-        src: {},
-        alt: { default: null },
-        title: { default: null }
-      },
-      group: "inline",
-      draggable: true,
-      parseDOM: [{
-        tag: "img[src]",
-        getAttrs(dom) {
-          return {
-            src: (dom as HTMLElement).getAttribute("src"),
-            title: (dom as HTMLElement).getAttribute("title"),
-            alt: (dom as HTMLElement).getAttribute("alt")
-          };
-        }
-      }],
-      toDOM(node) {
-        const { src, alt, title } = node.attrs;
-        return ["img", { src, alt, title }];
-      }
-    },
-    hard_break: {
-      inline: true,
-      group: "inline",
-      selectable: false,
-      parseDOM: [{ tag: "br" }],
-      toDOM() { return ["br"]; }
-    },
-    ordered_list: {
-      content: "list_item+",
-      group: "block",
-      attrs: { order: { default: 1 } },
-      parseDOM: [{
-        tag: "ol",
-        getAttrs(dom) {
-          return { order: (dom as HTMLElement).hasAttribute("start") ? +(dom as HTMLElement).getAttribute("start")! : 1 };
-        }
-      }],
-      toDOM(node) {
-        return node.attrs.order === 1 ? ["ol", 0] : ["ol", { start: node.attrs.order }, 0];
-      }
-    },
-    bullet_list: {
-      content: "list_item+",
-      group: "block",
-      parseDOM: [{ tag: "ul:not(.task-list)" }],
-      toDOM() { return ["ul", 0]; }
-    },
-    list_item: {
-      content: "paragraph block*",
-      parseDOM: [{ tag: "li:not(.task-item)" }],
-      toDOM() { return ["li", 0]; },
-      defining: true
-    },
-    // Task list support
-    task_list: {
-      content: "task_item+",
-      group: "block",
-      parseDOM: [{
-        tag: "ul.task-list",
-      }],
-      toDOM() { return ["ul", { class: "task-list" }, 0]; }
-    },
-    task_item: {
-      content: "paragraph block*",
-      attrs: {
-        checked: { default: false }
-      },
-      parseDOM: [{
-        tag: "li.task-item",
-        getAttrs(dom) {
-          const input = (dom as HTMLElement).querySelector('input[type="checkbox"]') as HTMLInputElement;
-          return {
-            checked: input ? input.checked : false
-          };
-        }
-      }],
-      toDOM(node) {
-        return ["li", {
-          class: "task-item",
-          "data-checked": node.attrs.checked
-        }, ["input", {
-          type: "checkbox",
-          checked: node.attrs.checked,
-          contentEditable: "false"
-        }], 0];
-      }
-    },
-    // Table nodes
-    table: {
-      content: "table_row+",
-      group: "block",
-      parseDOM: [{ tag: "table" }],
-      toDOM() { return ["table", 0]; }
-    },
-    table_row: {
-      content: "(table_cell | table_header)*",
-      parseDOM: [{ tag: "tr" }],
-      toDOM() { return ["tr", 0]; }
-    },
-    table_header: {
-      content: "paragraph block*",
-      parseDOM: [{ tag: "th" }],
-      toDOM() { return ["th", 0]; }
-    },
-    table_cell: {
-      content: "paragraph block*",
-      parseDOM: [{ tag: "td" }],
-      toDOM() { return ["td", 0]; }
-    }
-  },
-  marks: {
-    link: {
-      attrs: {
-        href: {},
-        title: { default: null }
-      },
-      inclusive: false,
-      parseDOM: [{
-        tag: "a[href]",
-        getAttrs(dom) {
-          return {
-            href: (dom as HTMLElement).getAttribute("href"),
-            title: (dom as HTMLElement).getAttribute("title")
-          };
-        }
-      }],
-      toDOM(node) {
-        const { href, title } = node.attrs;
-        return ["a", { href, title }, 0];
-      }
-    },
-    em: {
-      parseDOM: [
-        { tag: "i" },
-        { tag: "em" },
-        { style: "font-style=italic" }
-      ],
-      toDOM() { return ["em", 0]; }
-    },
-    strong: {
-      parseDOM: [
-        { tag: "strong" },
-        { tag: "b" },
-        { style: "font-weight", getAttrs: (value) => /^(bold(er)?|[5-9]\d{2,})$/.test(value as string) && null }
-      ],
-      toDOM() { return ["strong", 0]; }
-    },
-    code: {
-      parseDOM: [{ tag: "code" }],
-      toDOM() { return ["code", 0]; }
-    }
-  }
-});
-
 // Build input rules
 function headingRule(level: number): InputRule {
   return textblockTypeInputRule(
@@ -283,6 +61,26 @@ function codeBlockRule(): InputRule {
   return textblockTypeInputRule(/^```$/, schema.nodes.code_block);
 }
 
+// `$$ ` on an empty line inserts a display formula, which opens its editor
+function mathBlockRule(): InputRule {
+  return new InputRule(/^\$\$\s$/, (state, match, start, end) => {
+    const $start = state.doc.resolve(start);
+    if ($start.end() !== end || !$start.node(-1).canReplaceWith($start.index(-1), $start.indexAfter(-1), schema.nodes.math_block)) {
+      return null;
+    }
+    const tr = state.tr.replaceRangeWith($start.before(), $start.after(), schema.nodes.math_block.create());
+    return tr.setSelection(NodeSelection.create(tr.doc, $start.before()));
+  });
+}
+
+// `$x^2$` becomes an inline formula once the closing `$` is typed
+function mathInlineRule(): InputRule {
+  return new InputRule(
+    /(?<![$\\])\$([^$\s](?:[^$]*[^$\s])?)\$$/,
+    (state, match, start, end) => state.tr.replaceWith(start, end, schema.nodes.math_inline.create({ value: match[1] }))
+  );
+}
+
 // Input rule for markdown-style links [text](url)
 function linkRule(): InputRule {
   return new InputRule(
@@ -307,6 +105,17 @@ function linkRule(): InputRule {
   );
 }
 
+// Input rule wrapping `<marker>text<marker>` in a mark once the closing marker is typed
+function markRule(pattern: RegExp, markType: MarkType): InputRule {
+  return new InputRule(pattern, (state, match, start, end) => {
+    const text = match[1];
+    return state.tr
+      .insertText(text, start, end)
+      .addMark(start, start + text.length, markType.create())
+      .removeStoredMark(markType);
+  });
+}
+
 // Build input rules array
 const inputRulesPlugin = inputRules({
   rules: [
@@ -321,7 +130,14 @@ const inputRulesPlugin = inputRules({
     headingRule(4),
     headingRule(5),
     headingRule(6),
+    mathBlockRule(),
     linkRule(),
+    mathInlineRule(),
+    markRule(/~~([^~\s](?:[^~]*[^~\s])?)~~$/, schema.marks.strike),
+    markRule(/==([^=\s](?:[^=]*[^=\s])?)==$/, schema.marks.highlight),
+    markRule(/(?<![~\\])~([^~\s]+)~$/, schema.marks.subscript),
+    markRule(/\^([^^\s]+)\^$/, schema.marks.superscript),
+    markRule(/<u>([^<]+)<\/u>$/, schema.marks.underline),
   ]
 });
 
@@ -338,6 +154,11 @@ function buildKeymap() {
   keys["Mod-b"] = toggleMark(schema.marks.strong);
   keys["Mod-i"] = toggleMark(schema.marks.em);
   keys["Mod-`"] = toggleMark(schema.marks.code);
+  keys["Mod-u"] = toggleMark(schema.marks.underline);
+  keys["Mod-Shift-x"] = toggleMark(schema.marks.strike);
+  keys["Mod-Shift-h"] = toggleMark(schema.marks.highlight);
+  keys["Mod-,"] = toggleMark(schema.marks.subscript);
+  keys["Mod-."] = toggleMark(schema.marks.superscript);
   keys["Mod-k"] = chainCommands(
     exitCode,
     (state, dispatch, view) => {
@@ -352,6 +173,9 @@ function buildKeymap() {
     }
   );
 
+  keys["Tab"] = goToNextCellOrAddRow;
+  keys["Shift-Tab"] = goToNextCell(-1);
+
   keys["Alt-ArrowUp"] = joinUp;
   keys["Alt-ArrowDown"] = joinDown;
   keys["Mod-BracketLeft"] = lift;
@@ -641,7 +465,7 @@ class CodeBlockNodeView {
 
         // Create a new node with updated content
         const newNode = this.node.type.create(
-          { language: 'mermaid' },
+          this.node.attrs,
           this.view.state.schema.text(newCode)
         );
 
@@ -745,279 +569,195 @@ class CodeBlockNodeView {
   }
 }
 
-interface WysiwygEditorProps {
-  content: string;
-  onChange: (content: string) => void;
-  onEditorReady?: (view: EditorView) => void;
-}
-
-export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange, onEditorReady }) => {
-  const editorRef = useRef<HTMLDivElement>(null);
-  const viewRef = useRef<EditorView | null>(null);
-  const { theme } = useTheme();
-  const { fontSize, defaultImageUploadProvider } = useSettings();
-  const [isReady, setIsReady] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<{ pos: number; attrs: { src: string; alt: string | null; title: string | null } } | null>(null);
-  const [editingImageMarkdown, setEditingImageMarkdown] = useState("");
-  const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const lastMarkdownRef = useRef<string>(content);
-  const isUpdatingRef = useRef(false);
-  const isExternalUpdateRef = useRef(false);
-
-  // Enhanced Markdown to HTML parser with better support for syntax
-  const markdownToHTML = useCallback((markdown: string): string => {
-    const lines = markdown.split('\n');
-    const result: string[] = [];
-    let inCodeBlock = false;
-    let codeBlockLang: string | null = null;
-    let codeBlockContent: string[] = [];
-    let inList = false;
-    let inTaskList = false;
-    let inTable = false;
-    let tableRows: string[] = [];
-    let tableHeader: boolean = false;
-    let inMathBlock = false;
-    let mathBlockContent: string[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Handle math blocks ($$...$$)
-      if (line.trim().startsWith('$$') && !inCodeBlock) {
-        if (!inMathBlock) {
-          // Start math block
-          inMathBlock = true;
-          mathBlockContent = [];
-          // Check if the closing $$ is on the same line
-          const match = line.match(/^\$\$(.+)\$\$$/);
-          if (match) {
-            // Inline math block on single line
-            try {
-              const html = katex.renderToString(match[1].trim(), { displayMode: true, throwOnError: false, strict: 'ignore' });
-              result.push(`<div class="katex-block">${html}</div>`);
-              inMathBlock = false;
-              mathBlockContent = [];
-            } catch (e) {
-              console.error('[KaTeX] Failed to render inline block:', e);
-              result.push(`<p>${escapeHtml(line)}</p>`);
-              inMathBlock = false;
-              mathBlockContent = [];
-            }
-          }
-          continue;
-        } else {
-          // End math block
-          try {
-            const mathContent = mathBlockContent.join('\n').trim();
-            const html = katex.renderToString(mathContent, { displayMode: true, throwOnError: false, strict: 'ignore' });
-            result.push(`<div class="katex-block">${html}</div>`);
-          } catch (e) {
-            console.error('[KaTeX] Failed to render block:', e);
-            result.push(`<pre>${escapeHtml('$$\n' + mathBlockContent.join('\n') + '\n$$')}</pre>`);
-          }
-          inMathBlock = false;
-          mathBlockContent = [];
-          continue;
-        }
-      }
+// Math nodes show the rendered formula and turn into their TeX source on click,
+// previewing the formula live while it is edited
+class MathNodeView {
+  dom: HTMLElement;
+  node: ProseMirrorNode;
+  private view: EditorView;
+  private getPos: () => number | undefined;
+  private displayMode: boolean;
+  private rendered: HTMLElement;
+  private editContainer: HTMLElement;
+  private editInput: HTMLTextAreaElement;
+  private livePreview: HTMLElement;
+  private isEditing: boolean = false;
 
-      if (inMathBlock) {
-        mathBlockContent.push(line);
-        continue;
-      }
+  constructor(node: ProseMirrorNode, view: EditorView, getPos: () => number | undefined) {
+    this.node = node;
+    this.view = view;
+    this.getPos = getPos;
+    this.displayMode = node.type === schema.nodes.math_block;
 
-      // Handle code blocks
-      if (line.trim().startsWith('```')) {
-        if (!inCodeBlock) {
-          // Start code block
-          const lang = line.trim().substring(3).trim();
-          codeBlockLang = lang || null;
-          inCodeBlock = true;
-          codeBlockContent = [];
-        } else {
-          // End code block
-          const codeClass = codeBlockLang ? ` class="language-${codeBlockLang}"` : '';
-          const dataLang = codeBlockLang ? ` data-language="${codeBlockLang}"` : '';
-          result.push(`<pre><code${codeClass}${dataLang}>${escapeHtml(codeBlockContent.join('\n'))}</code></pre>`);
-          inCodeBlock = false;
-          codeBlockLang = null;
-          codeBlockContent = [];
-        }
-        continue;
-      }
+    const tag = this.displayMode ? 'div' : 'span';
+    this.dom = document.createElement(tag);
+    this.dom.className = this.displayMode ? 'math-node math-block' : 'math-node math-inline';
 
-      if (inCodeBlock) {
-        codeBlockContent.push(line);
-        continue;
+    this.rendered = document.createElement(tag);
+    this.rendered.className = 'math-rendered';
+    this.rendered.title = '点击编辑公式';
+    this.rendered.addEventListener('click', (e) => {
+      e.preventDefault();
+      this.enterEditMode();
+    });
+    this.render();
+
+    this.editContainer = document.createElement(tag);
+    this.editContainer.className = 'math-edit-container';
+    this.editContainer.style.display = 'none';
+
+    this.editInput = document.createElement('textarea');
+    this.editInput.className = 'math-source-editor';
+    this.editInput.spellcheck = false;
+    this.editInput.rows = 1;
+    this.editInput.placeholder = this.displayMode ? 'LaTeX 公式' : 'LaTeX';
+
+    this.livePreview = document.createElement(tag);
+    this.livePreview.className = 'math-live-preview';
+
+    const hint = document.createElement(tag);
+    hint.className = 'math-edit-hint';
+    hint.textContent = this.displayMode ? 'Ctrl+Enter 保存 · Esc 取消' : 'Enter 保存 · Esc 取消';
+
+    this.editContainer.appendChild(this.editInput);
+    this.editContainer.appendChild(this.livePreview);
+    this.editContainer.appendChild(hint);
+    this.dom.appendChild(this.rendered);
+    this.dom.appendChild(this.editContainer);
+
+    this.editInput.addEventListener('keydown', (e) => {
+      const submit = this.displayMode ? (e.ctrlKey || e.metaKey) && e.key === 'Enter' : e.key === 'Enter' && !e.shiftKey;
+      if (submit) {
+        e.preventDefault();
+        this.exitEditMode(true, true);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        this.exitEditMode(false, true);
       }
+    });
 
-      // Handle tables
-      if (line.trim().startsWith('|') && line.trim().endsWith('|')) {
-        if (!inTable) {
-          inTable = true;
-          tableRows = [];
-          tableHeader = false;
-        }
-
-        // Check if it's the separator row
-        if (line.match(/^\|[\s\-:]+\|$/)) {
-          tableHeader = true;
-          continue;
-        }
-
-        const cells = line.split('|').filter((_, idx, arr) => idx !== 0 && idx !== arr.length - 1);
-        const cellTags = cells.map(cell => `<td>${parseInlineMarkdown(cell.trim())}</td>`).join('');
-        tableRows.push(`<tr>${cellTags}</tr>`);
-        continue;
-      } else if (inTable) {
-        // End of table
-        if (tableRows.length > 0) {
-          result.push('<table>');
-          result.push(tableRows.join('\n'));
-          result.push('</table>');
-        }
-        inTable = false;
-        tableRows = [];
-      }
+    this.editInput.addEventListener('input', () => {
+      this.resizeInput();
+      renderKatex(this.livePreview, this.editInput.value, this.displayMode);
+    });
 
-      // Handle task lists
-      const taskMatch = line.match(/^(\s*)-\s*\[([ x])\]\s+(.*)$/);
-      if (taskMatch) {
-        if (!inTaskList) {
-          if (inList) result.push('</ul>');
-          result.push('<ul class="task-list">');
-          inTaskList = true;
-        }
-        const checked = taskMatch[2] === 'x' || taskMatch[2] === 'X';
-        result.push(`<li class="task-item" data-checked="${checked}"><input type="checkbox" ${checked ? 'checked' : ''} contentEditable="false" />${parseInlineMarkdown(taskMatch[3])}</li>`);
-        continue;
-      } else if (inTaskList) {
-        result.push('</ul>');
-        inTaskList = false;
-      }
+    // Clicking elsewhere keeps the edit
+    this.editInput.addEventListener('blur', () => this.exitEditMode(true, false));
+  }
 
-      // Handle regular lists
-      const listMatch = line.match(/^(\s*)([-*])\s+(.*)$/);
-      if (listMatch) {
-        if (!inList) {
-          result.push('<ul>');
-          inList = true;
-        }
-        result.push(`<li>${parseInlineMarkdown(listMatch[3])}</li>`);
-        continue;
-      } else if (inList) {
-        result.push('</ul>');
-        inList = false;
-      }
+  private render() {
+    const { value } = this.node.attrs;
+    this.rendered.classList.toggle('math-empty', !value);
+    if (value) {
+      renderKatex(this.rendered, value, this.displayMode);
+    } else {
+      this.rendered.textContent = this.displayMode ? '空公式' : '$ $';
+    }
+  }
 
-      // Handle ordered lists
-      const orderedMatch = line.match(/^(\s*)\d+\.\s+(.*)$/);
-      if (orderedMatch) {
-        if (!inList) {
-          result.push('<ol>');
-          inList = true;
-        }
-        result.push(`<li>${parseInlineMarkdown(orderedMatch[2])}</li>`);
-        continue;
-      }
+  private resizeInput() {
+    this.editInput.style.height = 'auto';
+    this.editInput.style.height = this.editInput.scrollHeight + 'px';
+  }
 
-      // Handle headings
-      const headingMatch = line.match(/^(#{1,6})\s+(.*)$/);
-      if (headingMatch) {
-        const level = headingMatch[1].length;
-        result.push(`<h${level}>${parseInlineMarkdown(headingMatch[2])}</h${level}>`);
-        continue;
-      }
+  private enterEditMode() {
+    if (this.isEditing) return;
 
-      // Handle blockquote
-      if (line.trim().startsWith('>')) {
-        result.push(`<blockquote>${parseInlineMarkdown(line.trim().substring(1).trim())}</blockquote>`);
-        continue;
-      }
+    this.isEditing = true;
+    this.rendered.style.display = 'none';
+    this.editContainer.style.display = '';
 
-      // Handle horizontal rule
-      if (line.match(/^(-{3,}|_{3,}|\*{3,})$/)) {
-        result.push('<hr>');
-        continue;
-      }
+    this.editInput.value = this.node.attrs.value;
+    renderKatex(this.livePreview, this.editInput.value, this.displayMode);
+    this.resizeInput();
+    this.editInput.focus();
+  }
 
-      // Handle empty lines
-      if (line.trim() === '') {
-        continue;
-      }
+  private exitEditMode(save: boolean, refocus: boolean) {
+    if (!this.isEditing) return;
 
-      // Handle regular paragraphs
-      result.push(`<p>${parseInlineMarkdown(line)}</p>`);
+    this.isEditing = false;
+    this.editContainer.style.display = 'none';
+    this.rendered.style.display = '';
+
+    const pos = this.getPos();
+    if (pos === undefined) return;
+
+    const value = save ? this.editInput.value.trim() : this.node.attrs.value;
+    const tr = this.view.state.tr;
+    if (!value) {
+      // A formula left empty goes away
+      tr.delete(pos, pos + this.node.nodeSize);
+    } else if (value !== this.node.attrs.value) {
+      tr.setNodeMarkup(pos, null, { ...this.node.attrs, value });
     }
 
-    // Close any open tags
-    if (inTable && tableRows.length > 0) {
-      result.push('<table>');
-      result.push(tableRows.join('\n'));
-      result.push('</table>');
+    if (refocus) {
+      const after = tr.mapping.map(pos + this.node.nodeSize);
+      tr.setSelection(TextSelection.near(tr.doc.resolve(after)));
     }
-    if (inTaskList) result.push('</ul>');
-    if (inList) {
-      result.push(inTaskList ? '</ul>' : '</ul>');
-    }
-
-    return result.join('\n');
-  }, [katex]);
-
-  // Helper function to parse inline markdown
-  function parseInlineMarkdown(text: string): string {
-    // First, handle inline math $...$
-    const parts: string[] = [];
-    let lastIndex = 0;
-    let match: RegExpExecArray | null;
-
-    // Match inline math $...$ (but not $$...$$)
-    const inlineMathRegex = /\$([^$\n]+?)\$/g;
+    if (tr.docChanged || refocus) this.view.dispatch(tr);
+    if (refocus) this.view.focus();
+  }
 
-    while ((match = inlineMathRegex.exec(text)) !== null) {
-      // Add text before the math
-      if (match.index > lastIndex) {
-        parts.push(parseInlineMarkdownWithoutMath(text.substring(lastIndex, match.index)));
-      }
+  selectNode() {
+    this.dom.classList.add('ProseMirror-selectednode');
+    // Formulas inserted by typing `$$` start out empty and open right away
+    if (!this.node.attrs.value) requestAnimationFrame(() => this.enterEditMode());
+  }
 
-      // Add the rendered math
-      try {
-        const html = katex.renderToString(match[1].trim(), { displayMode: false, throwOnError: false, strict: 'ignore' });
-        parts.push(`<span class="katex-inline">${html}</span>`);
-      } catch (e) {
-        console.error('[KaTeX] Failed to render inline:', e);
-        parts.push(`$${match[1]}$`);
-      }
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode');
+  }
 
-      lastIndex = match.index + match[0].length;
-    }
+  update(node: ProseMirrorNode): boolean {
+    if (node.type !== this.node.type) return false;
 
-    // Add remaining text
-    if (lastIndex < text.length) {
-      parts.push(parseInlineMarkdownWithoutMath(text.substring(lastIndex)));
-    }
+    const valueChanged = node.attrs.value !== this.node.attrs.value;
+    this.node = node;
+    if (valueChanged && !this.isEditing) this.render();
+    return true;
+  }
 
-    return parts.length > 0 ? parts.join('') : parseInlineMarkdownWithoutMath(text);
+  stopEvent(event: Event): boolean {
+    return this.editContainer.contains(event.target as Node);
   }
 
-  // Helper function to parse inline markdown without math (to avoid conflicts)
-  function parseInlineMarkdownWithoutMath(text: string): string {
-    return text
-      .replace(/\*\*\*(.+?)\*\*\*/g, '<strong><em>$1</em></strong>')
-      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.+?)\*/g, '<em>$1</em>')
-      .replace(/~~(.+?)~~/g, '<del>$1</del>')
-      .replace(/`([^`]+)`/g, '<code>$1</code>')
-      .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '<img src="$2" alt="$1" />')
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
+  ignoreMutation(): boolean {
+    return true;
   }
+}
 
-  // Helper function to escape HTML
-  function escapeHtml(text: string): string {
-    const div = document.createElement('div');
-    div.textContent = text;
-    return div.innerHTML;
+// Center the cursor in the scroller if it isn't in view
+function revealCursor(view: EditorView, scroller: HTMLElement) {
+  const rect = scroller.getBoundingClientRect();
+  const { top, bottom } = view.coordsAtPos(view.state.selection.head);
+  if (top < rect.top || bottom > rect.bottom) {
+    scroller.scrollTop += top - rect.top - rect.height / 2;
   }
+}
+
+interface WysiwygEditorProps {
+  content: string;
+  onChange: (content: string) => void;
+  onEditorReady?: (view: EditorView) => void;
+  initialViewState?: TabViewState;
+  onViewStateChange?: (state: Partial<TabViewState>) => void;
+}
+
+export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange, onEditorReady, initialViewState, onViewStateChange }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const { theme } = useTheme();
+  const { fontSize, defaultImageUploadProvider } = useSettings();
+  const [selectedImage, setSelectedImage] = useState<{ pos: number; attrs: { src: string; alt: string | null; title: string | null } } | null>(null);
+  const [editingImageMarkdown, setEditingImageMarkdown] = useState("");
+  // Set while the selection is in a table, for the table toolbar
+  const [table, setTable] = useState<{ view: EditorView; state: EditorState } | null>(null);
+  const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastMarkdownRef = useRef<string>(content);
+  const isUpdatingRef = useRef(false);
+  const isExternalUpdateRef = useRef(false);
 
   // Parse image markdown to extract src, alt, and title
   function parseImageMarkdown(markdown: string): { src: string; alt: string; title: string | null } | null {
@@ -1070,156 +810,18 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
     }
   }, [handleSaveImageEdit, handleCancelImageEdit]);
 
-  // Enhanced ProseMirror to Markdown converter (optimized for performance)
-  const prosemirrorToMarkdown = useCallback((view: EditorView): string => {
-    const blocks: string[] = [];
-
-    view.state.doc.forEach((node, offset) => {
-      if (!node.isBlock) return;
-
-      const nodePos = offset + 1; // Adjust for document start
-
-      switch (node.type.name) {
-        case "heading": {
-          const level = "#".repeat(node.attrs.level);
-          const text = getNodeTextContent(node);
-          blocks.push(`${level} ${text}\n`);
-          break;
-        }
-
-        case "paragraph": {
-          const text = getNodeTextContent(node);
-          if (text.trim()) {
-            blocks.push(`${text}\n`);
-          }
-          break;
-        }
-
-        case "blockquote": {
-          const text = getNodeTextContent(node);
-          blocks.push(`> ${text}\n`);
-          break;
-        }
-
-        case "code_block": {
-          const lang = node.attrs.language || '';
-          const text = node.textContent;
-          blocks.push(`\`\`\`${lang}\n${text}\n\`\`\`\n`);
-          break;
-        }
-
-        case "ordered_list":
-          node.forEach((li) => {
-            const text = getNodeTextContent(li);
-            blocks.push(`1. ${text}\n`);
-          });
-          blocks.push("\n");
-          break;
-
-        case "bullet_list":
-          node.forEach((li) => {
-            const text = getNodeTextContent(li);
-            blocks.push(`- ${text}\n`);
-          });
-          blocks.push("\n");
-          break;
-
-        case "task_list":
-          node.forEach((taskItem) => {
-            const checked = taskItem.attrs.checked ? "[x]" : "[ ]";
-            const text = getNodeTextContent(taskItem);
-            blocks.push(`- ${checked} ${text}\n`);
-          });
-          blocks.push("\n");
-          break;
-
-        case "horizontal_rule":
-          blocks.push(`---\n\n`);
-          break;
-
-        case "table": {
-          const table: string[][] = [];
-
-          // Extract table rows
-          node.forEach((row) => {
-            if (row.type.name === 'table_row' || row.type.name === 'table_header') {
-              const cells: string[] = [];
-              row.forEach((cell) => {
-                if (cell.type.name === 'table_cell' || cell.type.name === 'table_header') {
-                  cells.push(getNodeTextContent(cell).trim());
-                }
-              });
-              table.push(cells);
-            }
-          });
-
-          // Convert table to markdown
-          if (table.length > 0) {
-            const header = table[0];
-            const separator = header.map(() => '---').join(' | ');
-
-            blocks.push(`| ${header.join(' | ')} |\n`);
-            blocks.push(`| ${separator} |\n`);
-
-            for (let i = 1; i < table.length; i++) {
-              blocks.push(`| ${table[i].join(' | ')} |\n`);
-            }
-
-            blocks.push('\n');
-          }
-          break;
-        }
-      }
-    });
-
-    return blocks.join('');
-  }, []);
-
-  // Helper function to get node text content with inline formatting
-  function getNodeTextContent(node: any): string {
-    let text = '';
-    node.forEach((child: any) => {
-      if (child.isText) {
-        let markedText = child.text;
-        child.marks?.forEach((mark: any) => {
-          switch (mark.type.name) {
-            case "strong":
-              markedText = `**${markedText}**`;
-              break;
-            case "em":
-              markedText = `*${markedText}*`;
-              break;
-            case "code":
-              markedText = `\`${markedText}\``;
-              break;
-            case "link":
-              markedText = `[${markedText}](${mark.attrs.href})`;
-              break;
-          }
-        });
-        text += markedText;
-      } else if (child.type.name === "image") {
-        const alt = child.attrs.alt || '';
-        const src = child.attrs.src;
-        text += `![${alt}](${src})`;
-      } else if (child.isBlock) {
-        // Recursively handle nested blocks
-        text += getNodeTextContent(child);
-      }
-    });
-    return text;
-  }
-
   // Initialize editor
   useEffect(() => {
     if (!editorRef.current) return;
 
-    const doc = ProseMirrorDOMParser.fromSchema(schema).parse(
-      new DOMParser().parseFromString(markdownToHTML(content), "text/html").body
-    );
-
+    // The stored cursor is a source offset, shared with the source editor
+    const doc = markdownToDoc(content);
     const state = EditorState.create({
       doc,
+      selection: initialViewState && TextSelection.between(
+        doc.resolve(posAtSourceOffset(doc, initialViewState.anchor)),
+        doc.resolve(posAtSourceOffset(doc, initialViewState.head))
+      ),
       plugins,
     });
 
@@ -1228,6 +830,7 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
       dispatchTransaction(transaction) {
         const newState = view.state.apply(transaction);
         view.updateState(newState);
+        setTable(isInTable(newState) ? { view, state: newState } : null);
 
         if (transaction.docChanged) {
           // Skip onChange if this is an external update
@@ -1236,13 +839,17 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
           } else {
             // Mark that user is editing
             isUpdatingRef.current = true;
+            setPendingEdits(view, true);
 
             // Debounce markdown updates to avoid excessive recalculations
             if (updateTimeoutRef.current) {
               clearTimeout(updateTimeoutRef.current);
             }
             updateTimeoutRef.current = setTimeout(() => {
-              const markdown = prosemirrorToMarkdown(view);
+              // Nothing is pending any more, so outside changes apply again
+              updateTimeoutRef.current = null;
+              setPendingEdits(view, false);
+              const markdown = docToMarkdown(view.state.doc);
 
               // Only call onChange if content actually changed
               if (markdown !== lastMarkdownRef.current) {
@@ -1260,6 +867,12 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
           // Use custom node view for all code blocks
           return new CodeBlockNodeView(node, view, getPos);
         },
+        math_block(node, view, getPos) {
+          return new MathNodeView(node, view, getPos);
+        },
+        math_inline(node, view, getPos) {
+          return new MathNodeView(node, view, getPos);
+        },
       },
       attributes: {
         class: `prosemirror-editor ${theme === "dark" ? "dark" : "light"}`,
@@ -1322,9 +935,7 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
               });
 
               // Convert Markdown to ProseMirror document
-              const tempDiv = document.createElement('div');
-              tempDiv.innerHTML = markdownToHTML(markdown);
-              const doc = ProseMirrorDOMParser.fromSchema(schema).parse(tempDiv);
+              const doc = markdownToDoc(markdown);
 
               // Replace placeholder with actual content
               const newTr = view.state.tr.replaceWith(from, from + 1, doc.content);
@@ -1342,6 +953,41 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
           return true;
         }
 
+        // Tab separated text, as spreadsheets copy cells, and CSV become a table
+        const csv = event.clipboardData?.getData('text/csv');
+        const text = event.clipboardData?.getData('text/plain');
+        const tableFits = !isInTable(view.state) && !view.state.selection.$from.parent.type.spec.code;
+        const table = !tableFits ? null
+          : csv ? tableFromDelimitedText(csv, ',')
+          : text?.includes('\t') ? tableFromDelimitedText(text, '\t')
+          : null;
+        if (table) {
+          event.preventDefault();
+          view.dispatch(view.state.tr.replaceSelectionWith(table).scrollIntoView());
+          return true;
+        }
+
+        // Lines with commas are as likely prose, so they paste as text with an offer to convert
+        if (text && tableFits && tableFromDelimitedText(text, ',')) {
+          const from = view.state.selection.from;
+          setTimeout(() => {
+            const { doc } = view.state;
+            const to = view.state.selection.to;
+            toast('粘贴的内容可以转换为表格', {
+              action: {
+                label: '转换为表格',
+                onClick: () => {
+                  // Only while the pasted text is still as it was
+                  if (view.isDestroyed || view.state.doc !== doc) return;
+                  view.dispatch(view.state.tr.setSelection(TextSelection.between(doc.resolve(from), doc.resolve(to))));
+                  convertSelectionToTable(view.state, view.dispatch);
+                  view.focus();
+                },
+              },
+            });
+          });
+        }
+
         // Then check for images/videos
         const items = event.clipboardData?.items;
         if (!items) return false;
@@ -1447,15 +1093,38 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
     viewRef.current = view;
 
     // Initialize lastMarkdownRef to prevent duplicate updates on initial load
-    lastMarkdownRef.current = prosemirrorToMarkdown(view);
+    lastMarkdownRef.current = docToMarkdown(view.state.doc);
+
+    const scroller = editorRef.current;
+    if (initialViewState) {
+      requestAnimationFrame(() => {
+        if (initialViewState.scrollMode === 'source') {
+          revealCursor(view, scroller);
+        } else {
+          scroller.scrollTop = initialViewState.scrollTop;
+        }
+      });
+    }
+    const handleScroll = () => onViewStateChange?.({ scrollTop: scroller.scrollTop, scrollMode: 'wysiwyg' });
+    scroller.addEventListener('scroll', handleScroll, { passive: true });
 
-    setIsReady(true);
     onEditorReady?.(view);
 
     return () => {
+      scroller.removeEventListener('scroll', handleScroll);
+
+      // Hand pending edits and the cursor over to whatever shows the tab next
+      const { anchor, head } = view.state.selection;
+      const { markdown, offsets } = docToMarkdownWithOffsets(view.state.doc, [anchor, head]);
       if (updateTimeoutRef.current) {
         clearTimeout(updateTimeoutRef.current);
+        updateTimeoutRef.current = null;
+        isUpdatingRef.current = false;
+        setPendingEdits(view, false);
+        if (markdown !== lastMarkdownRef.current) onChange(markdown);
       }
+      onViewStateChange?.({ anchor: offsets[0], head: offsets[1] });
+
       view.destroy();
       viewRef.current = null;
     };
@@ -1463,26 +1132,25 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
 
   // Update content when it changes externally (optimized to avoid conflicts)
   useEffect(() => {
-    if (!isReady || !viewRef.current) return;
+    // The view is created by the effect above, which runs first
+    if (!viewRef.current) return;
 
     // Don't update if user is actively typing or content is the same
     if (isUpdatingRef.current || updateTimeoutRef.current) return;
 
-    const currentMarkdown = prosemirrorToMarkdown(viewRef.current);
+    const currentMarkdown = docToMarkdown(viewRef.current.state.doc);
     if (currentMarkdown !== content) {
       // Mark this as an external update to prevent triggering onChange
       isExternalUpdateRef.current = true;
 
-      const doc = ProseMirrorDOMParser.fromSchema(schema).parse(
-        new DOMParser().parseFromString(markdownToHTML(content), "text/html").body
-      );
+      const doc = markdownToDoc(content);
       const tr = viewRef.current.state.tr.replaceWith(0, viewRef.current.state.doc.content.size, doc.content);
       viewRef.current.dispatch(tr);
 
       // Update lastMarkdownRef to match the new content
       lastMarkdownRef.current = content;
     }
-  }, [content, isReady, markdownToHTML, prosemirrorToMarkdown]);
+  }, [content]);
 
   return (
     <div className="h-full w-full bg-editor-bg flex flex-col">
@@ -1592,6 +1260,54 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
           color: inherit;
         }
 
+        /* Blocks kept as markdown or HTML source */
+        .prosemirror-editor pre.front-matter,
+        .prosemirror-editor pre.html-block {
+          color: #64748b;
+          background-color: #f8fafc;
+          border: 1px dashed #cbd5e1;
+        }
+
+        .dark .prosemirror-editor pre.front-matter,
+        .dark .prosemirror-editor pre.html-block {
+          color: #94a3b8;
+          background-color: #0f172a;
+          border-color: #334155;
+        }
+
+        .prosemirror-editor pre.front-matter {
+          margin-top: 0;
+        }
+
+        .prosemirror-editor code.html-inline {
+          color: #64748b;
+          font-weight: 400;
+        }
+
+        .prosemirror-editor .link-definition {
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+          font-size: 0.875em;
+          color: #64748b;
+        }
+
+        .prosemirror-editor .footnote-ref {
+          color: #3b82f6;
+        }
+
+        .prosemirror-editor .footnote-definition {
+          position: relative;
+          padding-left: 2.5em;
+          font-size: 0.9em;
+        }
+
+        .prosemirror-editor .footnote-definition::before {
+          content: "[" attr(data-label) "]";
+          position: absolute;
+          left: 0;
+          top: 1.25em;
+          color: #3b82f6;
+        }
+
         .prosemirror-editor ul,
         .prosemirror-editor ol {
           list-style: disc outside;
@@ -1685,6 +1401,17 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
           border-radius: 0.5rem;
         }
 
+        .prosemirror-editor mark {
+          background-color: rgba(254, 240, 138, 0.7);
+          color: inherit;
+          border-radius: 0.125rem;
+          padding: 0 0.125em;
+        }
+
+        .dark .prosemirror-editor mark {
+          background-color: rgba(234, 179, 8, 0.3);
+        }
+
         .prosemirror-editor a {
           color: #2563eb;
           text-decoration: underline;
@@ -1888,20 +1615,86 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
           border-color: #3b82f6;
         }
 
-        /* KaTeX math styles */
-        .prosemirror-editor .katex-inline {
+        /* Math nodes */
+        .prosemirror-editor .math-inline {
           display: inline-block;
           margin: 0 2px;
         }
 
-        .prosemirror-editor .katex-block {
+        .prosemirror-editor .math-block {
           display: block;
           margin: 1.5em 0;
+        }
+
+        .prosemirror-editor .math-rendered {
+          cursor: pointer;
+          border-radius: 0.25rem;
+        }
+
+        .prosemirror-editor .math-block .math-rendered {
+          display: block;
           text-align: center;
           overflow-x: auto;
           overflow-y: hidden;
         }
 
+        .prosemirror-editor .math-rendered:hover,
+        .prosemirror-editor .math-node.ProseMirror-selectednode .math-rendered {
+          background-color: rgba(59, 130, 246, 0.08);
+        }
+
+        .prosemirror-editor .math-rendered.math-empty {
+          color: #94a3b8;
+          font-style: italic;
+        }
+
+        .prosemirror-editor .math-edit-container {
+          display: inline-flex;
+          flex-direction: column;
+          gap: 0.5em;
+          vertical-align: middle;
+          padding: 0.5em;
+          border: 1px solid #3b82f6;
+          border-radius: 0.375rem;
+          background-color: #f8fafc;
+        }
+
+        .dark .prosemirror-editor .math-edit-container {
+          background-color: #0f172a;
+        }
+
+        .prosemirror-editor .math-block .math-edit-container {
+          display: flex;
+        }
+
+        .prosemirror-editor .math-source-editor {
+          min-width: 12em;
+          padding: 0.25em 0.5em;
+          font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+          font-size: 0.875em;
+          line-height: 1.5;
+          color: inherit;
+          background-color: transparent;
+          border: 1px solid #cbd5e1;
+          border-radius: 0.25rem;
+          resize: none;
+          outline: none;
+        }
+
+        .dark .prosemirror-editor .math-source-editor {
+          border-color: #334155;
+        }
+
+        .prosemirror-editor .math-block .math-live-preview {
+          text-align: center;
+          overflow-x: auto;
+        }
+
+        .prosemirror-editor .math-edit-hint {
+          font-size: 0.75rem;
+          color: #94a3b8;
+        }
+
         .prosemirror-editor .katex {
           font-size: 1em;
         }
@@ -1956,6 +1749,7 @@ export const WysiwygEditor: React.FC<WysiwygEditorProps> = ({ content, onChange,
           </div>
         </div>
       )}
+      {table && <TableToolbar view={table.view} state={table.state} />}
       <div
         ref={editorRef}
         className="flex-1 overflow-auto"
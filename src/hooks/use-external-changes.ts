@@ -0,0 +1,68 @@
+import { useEffect, useRef } from "react";
+import { getFileLastModified, readFileSnapshot, type FileSnapshot } from "@/lib/file-system";
+import type { EditorTab } from "@/hooks/use-tabs";
+
+/**
+ * Watch the files behind open tabs for changes made by other programs.
+ * Checks run when the window regains focus and on a fixed interval; each
+ * new version on disk is reported once.
+ */
+export function useExternalChanges(
+  tabs: EditorTab[],
+  onExternalChange: (tab: EditorTab, snapshot: FileSnapshot) => void,
+  interval: number = 5000
+) {
+  const tabsRef = useRef(tabs);
+  const callbackRef = useRef(onExternalChange);
+  const reportedRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    tabsRef.current = tabs;
+    callbackRef.current = onExternalChange;
+  }, [tabs, onExternalChange]);
+
+  useEffect(() => {
+    let checking = false;
+
+    const check = async () => {
+      if (checking) return;
+      checking = true;
+
+      try {
+        for (const tab of tabsRef.current) {
+          if (!tab.fileNode?.handle || tab.lastModified === null) continue;
+
+          try {
+            const lastModified = await getFileLastModified(tab.fileNode);
+            if (lastModified === null || lastModified === tab.lastModified) continue;
+            if (reportedRef.current.get(tab.id) === lastModified) continue;
+
+            const snapshot = await readFileSnapshot(tab.fileNode);
+
+            reportedRef.current.set(tab.id, snapshot.lastModified);
+            callbackRef.current(tab, snapshot);
+          } catch (error) {
+            // The file may have been deleted or moved; nothing to merge
+            console.warn(`Failed to check ${tab.fileNode.name} for changes`, error);
+          }
+        }
+      } finally {
+        checking = false;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") check();
+    };
+
+    window.addEventListener("focus", check);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    const timer = setInterval(check, interval);
+
+    return () => {
+      window.removeEventListener("focus", check);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      clearInterval(timer);
+    };
+  }, [interval]);
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { EditorView } from "@codemirror/view";
+import { EditorView as ProseMirrorEditorView } from "prosemirror-view";
+import { TextSelection } from "prosemirror-state";
+import { headingIndexAtLine, parseHeadings } from "@/lib/outline";
+
+// How far below the top edge a heading may be and still count as current
+const ACTIVE_OFFSET = 8;
+
+function findProseMirrorHeading(view: ProseMirrorEditorView, index: number): number | null {
+  let count = 0;
+  let found: number | null = null;
+  view.state.doc.descendants((node, pos) => {
+    if (found !== null) return false;
+    if (node.type.name === 'heading') {
+      if (count === index) found = pos;
+      count++;
+      return false;
+    }
+    return true;
+  });
+  return found;
+}
+
+// Index of the last heading element scrolled past the top of the scroller
+function activeHeadingInDom(root: HTMLElement, scroller: HTMLElement): number {
+  const top = scroller.getBoundingClientRect().top + ACTIVE_OFFSET;
+  const elements = root.querySelectorAll('h1, h2, h3, h4, h5, h6');
+  let active = elements.length > 0 ? 0 : -1;
+  elements.forEach((element, index) => {
+    if (element.getBoundingClientRect().top <= top) active = index;
+  });
+  return active;
+}
+
+/**
+ * Headings of the active document, which one is at the top of the editor
+ * and a way to jump to one in either editor.
+ */
+export function useOutline(content: string, editorView: EditorView | ProseMirrorEditorView | null) {
+  const headings = useMemo(() => parseHeadings(content), [content]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => {
+    if (!editorView) return;
+
+    let scroller: HTMLElement | null;
+    let update: () => void;
+    if (editorView instanceof EditorView) {
+      // Scrolling the preview moves the editor along, which lands here too
+      const view = editorView;
+      scroller = view.scrollDOM;
+      update = () => {
+        const rect = view.scrollDOM.getBoundingClientRect();
+        const pos = view.posAtCoords({ x: rect.left + rect.width / 2, y: rect.top + ACTIVE_OFFSET }, false);
+        setActiveIndex(headingIndexAtLine(headings, view.state.doc.lineAt(pos).number - 1));
+      };
+    } else {
+      const root = editorView.dom;
+      scroller = root.parentElement;
+      update = () => scroller && setActiveIndex(activeHeadingInDom(root, scroller));
+    }
+    if (!scroller) return;
+
+    scroller.addEventListener('scroll', update, { passive: true });
+    // Pick up the position the document was opened at
+    const frame = requestAnimationFrame(update);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      scroller.removeEventListener('scroll', update);
+    };
+  }, [editorView, headings]);
+
+  const navigate = useCallback((index: number) => {
+    const heading = headings[index];
+    if (!heading || !editorView) return;
+
+    if (editorView instanceof EditorView) {
+      editorView.dispatch({
+        selection: { anchor: Math.min(heading.from, editorView.state.doc.length) },
+        effects: EditorView.scrollIntoView(heading.from, { y: 'start' }),
+      });
+      editorView.focus();
+      return;
+    }
+
+    const pos = findProseMirrorHeading(editorView, index);
+    if (pos === null) return;
+    const { state } = editorView;
+    editorView.dispatch(state.tr.setSelection(TextSelection.create(state.doc, pos + 1)));
+    (editorView.nodeDOM(pos) as HTMLElement | null)?.scrollIntoView({ block: 'start' });
+    editorView.focus();
+  }, [headings, editorView]);
+
+  return { headings, activeIndex, navigate };
+}
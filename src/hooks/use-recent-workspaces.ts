@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react";
+import type { FileSystemDirectoryHandle, FileSystemFileHandle } from "@/lib/file-system";
+import {
+  type RecentEntry,
+  addRecentEntry,
+  getRecentEntries,
+  removeRecentEntry,
+} from "@/lib/recent-workspaces";
+
+export function useRecentWorkspaces() {
+  const [entries, setEntries] = useState<RecentEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await getRecentEntries());
+    } catch (error) {
+      console.error("Failed to load recent workspaces:", error);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const add = useCallback(async (handle: FileSystemDirectoryHandle | FileSystemFileHandle) => {
+    try {
+      await addRecentEntry(handle);
+      await refresh();
+    } catch (error) {
+      console.error("Failed to remember workspace:", error);
+    }
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await removeRecentEntry(id);
+      await refresh();
+    } catch (error) {
+      console.error("Failed to forget workspace:", error);
+    }
+  }, [refresh]);
+
+  return { entries, loaded, add, remove };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useRef } from "react";
+import { type FileNode, getFile, resolveRelativeNode } from "@/lib/file-system";
+
+export interface RelativeResources {
+  // Object URL for a source that was resolved before, so re-renders don't flicker
+  cachedObjectUrl: (src: string) => string | undefined;
+  resolveObjectUrl: (src: string) => Promise<string | null>;
+  resolveLink: (href: string) => Promise<FileNode | null>;
+}
+
+/**
+ * Resolve relative image sources and links of the active document against
+ * the opened folder. Untitled documents resolve from the folder root.
+ */
+export function useRelativeResources(rootNode: FileNode | null, activeFileNode: FileNode | null): RelativeResources | undefined {
+  // Object URLs by file node id, shared by every document of the folder
+  const objectUrlsRef = useRef(new Map<string, Promise<string | null>>());
+  // Resolved URLs by base node and source as written
+  const resolvedRef = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    const objectUrls = objectUrlsRef.current;
+    const resolved = resolvedRef.current;
+    return () => {
+      for (const url of objectUrls.values()) {
+        url.then(value => value && URL.revokeObjectURL(value));
+      }
+      objectUrls.clear();
+      resolved.clear();
+    };
+  }, [rootNode]);
+
+  return useMemo(() => {
+    if (!rootNode) return undefined;
+    const baseNode = activeFileNode ?? rootNode;
+
+    const objectUrlFor = (node: FileNode) => {
+      let url = objectUrlsRef.current.get(node.id);
+      if (!url) {
+        url = getFile(node)
+          .then(file => URL.createObjectURL(file))
+          .catch(error => {
+            console.error(`Failed to read ${node.name}`, error);
+            return null;
+          });
+        objectUrlsRef.current.set(node.id, url);
+      }
+      return url;
+    };
+
+    return {
+      cachedObjectUrl: (src) => resolvedRef.current.get(`${baseNode.id}\n${src}`),
+      resolveObjectUrl: async (src) => {
+        const node = await resolveRelativeNode(rootNode, baseNode, src);
+        if (!node || node.kind !== 'file') return null;
+
+        const url = await objectUrlFor(node);
+        if (url) resolvedRef.current.set(`${baseNode.id}\n${src}`, url);
+        return url;
+      },
+      resolveLink: async (href) => {
+        const node = await resolveRelativeNode(rootNode, baseNode, href);
+        return node?.kind === 'file' ? node : null;
+      },
+    };
+  }, [rootNode, activeFileNode]);
+}
@@ -0,0 +1,80 @@
+import { type RefObject, useEffect } from "react";
+import { EditorView } from "@codemirror/view";
+import { collectLineAnchors, lineForOffset, offsetForLine } from "@/lib/source-lines";
+
+// How long programmatic scrolling of one side keeps the other from syncing back
+const SYNC_LOCK_MS = 80;
+
+// Fractional 1-based line at the top edge of the editor
+function topVisibleLine(view: EditorView): number {
+  const height = view.scrollDOM.getBoundingClientRect().top - view.documentTop;
+  const block = view.lineBlockAtHeight(Math.max(0, height));
+  const fraction = block.height > 0 ? (height - block.top) / block.height : 0;
+  return view.state.doc.lineAt(block.from).number + Math.min(1, Math.max(0, fraction));
+}
+
+function scrollEditorToLine(view: EditorView, line: number) {
+  const { doc } = view.state;
+  const number = Math.min(Math.max(1, Math.floor(line)), doc.lines);
+  const block = view.lineBlockAt(doc.line(number).from);
+  // documentTop also accounts for the content's top padding
+  const padding = view.documentTop - view.scrollDOM.getBoundingClientRect().top + view.scrollDOM.scrollTop;
+  view.scrollDOM.scrollTop = block.top + (line - number) * block.height + padding;
+}
+
+function isAtBottom(element: HTMLElement): boolean {
+  return element.scrollHeight > element.clientHeight && element.scrollTop >= element.scrollHeight - element.clientHeight - 1;
+}
+
+/**
+ * Keep the source editor and the preview showing the same part of the
+ * document, by matching the editor's top line with the preview block
+ * rendered from it.
+ */
+export function useScrollSync(editorView: EditorView | null, previewRef: RefObject<HTMLElement | null>, enabled: boolean) {
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!enabled || !editorView || !preview) return;
+
+    const editorScroller = editorView.scrollDOM;
+    let lockedBy: 'editor' | 'preview' | null = null;
+    let unlockTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const lock = (side: 'editor' | 'preview') => {
+      lockedBy = side;
+      clearTimeout(unlockTimer);
+      unlockTimer = setTimeout(() => { lockedBy = null; }, SYNC_LOCK_MS);
+    };
+
+    const handleEditorScroll = () => {
+      if (lockedBy === 'preview') return;
+      lock('editor');
+      if (isAtBottom(editorScroller)) {
+        preview.scrollTop = preview.scrollHeight;
+        return;
+      }
+      const anchors = collectLineAnchors(preview, editorView.state.doc.lines);
+      preview.scrollTop = offsetForLine(anchors, topVisibleLine(editorView));
+    };
+
+    const handlePreviewScroll = () => {
+      if (lockedBy === 'editor') return;
+      lock('preview');
+      if (isAtBottom(preview)) {
+        editorScroller.scrollTop = editorScroller.scrollHeight;
+        return;
+      }
+      const anchors = collectLineAnchors(preview, editorView.state.doc.lines);
+      scrollEditorToLine(editorView, lineForOffset(anchors, preview.scrollTop));
+    };
+
+    editorScroller.addEventListener('scroll', handleEditorScroll, { passive: true });
+    preview.addEventListener('scroll', handlePreviewScroll, { passive: true });
+
+    return () => {
+      clearTimeout(unlockTimer);
+      editorScroller.removeEventListener('scroll', handleEditorScroll);
+      preview.removeEventListener('scroll', handlePreviewScroll);
+    };
+  }, [editorView, previewRef, enabled]);
+}
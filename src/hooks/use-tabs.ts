@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+import { type FileNode, getNodeChain, resolveRelativeNode } from "@/lib/file-system";
+import { findRecentEntry } from "@/lib/recent-workspaces";
+
+export type EditorMode = 'source' | 'wysiwyg';
+
+// Cursor and scroll position of a tab's editor, kept outside React state
+// so that moving the caret or scrolling doesn't re-render the whole page.
+export interface TabViewState {
+  // Source offsets, whichever editor shows the tab
+  anchor: number;
+  head: number;
+  scrollTop: number;
+  // Editor the scroll position was taken in; the other one reveals the cursor instead
+  scrollMode?: EditorMode;
+}
+
+export interface EditorTab {
+  id: string;
+  title: string;
+  content: string;
+  // Content as it was last read from or written to disk; the tab is dirty
+  // whenever the buffer differs from it.
+  baseline: string;
+  // Modification time of the file when the baseline was taken
+  lastModified: number | null;
+  fileNode: FileNode | null;
+  editorMode: EditorMode;
+}
+
+// File handles and File objects can't go into localStorage, so a file is
+// remembered by its path inside the opened folder and found again once
+// that folder is restored. The folder is the recent workspace entry whose
+// handle IndexedDB keeps, as other folders may have the same name.
+interface PersistedTab extends Omit<EditorTab, 'fileNode'> {
+  fileName: string | null;
+  filePath?: { workspaceId: string; path: string } | null;
+  viewState?: TabViewState;
+  dirty?: boolean; // Written before baselines were tracked
+}
+
+interface PersistedTabs {
+  activeTabId: string;
+  tabs: PersistedTab[];
+}
+
+const DEFAULT_VIEW_STATE: TabViewState = { anchor: 0, head: 0, scrollTop: 0 };
+export const UNTITLED_TAB_TITLE = "未命名";
+
+export function createTab(partial: Partial<EditorTab> = {}): EditorTab {
+  const content = partial.content ?? "";
+  return {
+    id: nanoid(),
+    title: partial.fileNode?.name || UNTITLED_TAB_TITLE,
+    content,
+    baseline: content,
+    lastModified: null,
+    fileNode: null,
+    editorMode: 'source',
+    ...partial,
+  };
+}
+
+export function isTabDirty(tab: EditorTab): boolean {
+  return tab.content !== tab.baseline;
+}
+
+function loadTabs(key: string): PersistedTabs | null {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved) as PersistedTabs;
+    if (!Array.isArray(parsed.tabs) || parsed.tabs.length === 0) return null;
+    return parsed;
+  } catch (error) {
+    console.error("Failed to restore tabs:", error);
+    return null;
+  }
+}
+
+interface Workspace {
+  root: FileNode;
+  // Id of the folder's recent workspace entry
+  id: string;
+}
+
+// Path of a file inside the opened folder, for finding it again after a reload
+function workspacePath(workspace: Workspace | null, node: FileNode): PersistedTab['filePath'] {
+  const chain = workspace ? getNodeChain(workspace.root, node) : null;
+  return workspace && chain ? { workspaceId: workspace.id, path: chain.slice(1).map(node => node.name).join('/') } : null;
+}
+
+export function useTabs(key: string, initialContent: string, rootNode: FileNode | null = null, delay: number = 1000) {
+  const [initial] = useState(() => {
+    const persisted = loadTabs(key);
+    const viewStates = new Map<string, TabViewState>();
+    const filePaths = new Map<string, NonNullable<PersistedTab['filePath']>>();
+
+    if (!persisted) {
+      const tab = createTab({ content: initialContent });
+      return { tabs: [tab], activeTabId: tab.id, viewStates, filePaths };
+    }
+
+    const tabs = persisted.tabs.map(({ fileName, filePath, viewState, dirty, ...tab }) => {
+      if (viewState) viewStates.set(tab.id, viewState);
+      // Paths written before workspaces had ids only knew the folder's name
+      if (filePath?.workspaceId) filePaths.set(tab.id, filePath);
+      const baseline = tab.baseline ?? (dirty ? "" : tab.content);
+      return { ...tab, baseline, title: fileName || tab.title, fileNode: null };
+    });
+    const activeTabId = tabs.some(tab => tab.id === persisted.activeTabId)
+      ? persisted.activeTabId
+      : tabs[0].id;
+    return { tabs, activeTabId, viewStates, filePaths };
+  });
+
+  const [tabs, setTabs] = useState<EditorTab[]>(initial.tabs);
+  const [activeTabId, setActiveTabId] = useState(initial.activeTabId);
+  const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const viewStatesRef = useRef(initial.viewStates);
+  // Files of restored tabs that haven't been found in a folder yet
+  const unlinkedPathsRef = useRef(initial.filePaths);
+  // The open folder, once its recent workspace entry is known
+  const workspaceRef = useRef<Workspace | null>(null);
+  const latestRef = useRef({ tabs, activeTabId });
+
+  useEffect(() => {
+    latestRef.current = { tabs, activeTabId };
+  }, [tabs, activeTabId]);
+
+  const persist = useCallback(() => {
+    const { tabs, activeTabId } = latestRef.current;
+    const data: PersistedTabs = {
+      activeTabId,
+      tabs: tabs.map(({ fileNode, ...tab }) => ({
+        ...tab,
+        fileName: fileNode?.name ?? null,
+        filePath: fileNode ? workspacePath(workspaceRef.current, fileNode) : unlinkedPathsRef.current.get(tab.id) ?? null,
+        viewState: viewStatesRef.current.get(tab.id),
+      })),
+    };
+    try {
+      localStorage.setItem(key, JSON.stringify(data));
+      setLastSaved(new Date());
+    } catch (error) {
+      console.error("Failed to persist tabs:", error);
+    }
+  }, [key]);
+
+  useEffect(() => {
+    const handler = setTimeout(persist, delay);
+    return () => clearTimeout(handler);
+  }, [tabs, activeTabId, delay, persist]);
+
+  // View state changes don't go through React state, so flush them when
+  // the page is being hidden or reloaded.
+  useEffect(() => {
+    window.addEventListener("pagehide", persist);
+    return () => window.removeEventListener("pagehide", persist);
+  }, [persist]);
+
+  // Link restored tabs to their files once the folder they came from is open again
+  useEffect(() => {
+    workspaceRef.current = null;
+    const handle = rootNode?.kind === 'directory' ? rootNode.handle : undefined;
+    if (!rootNode || !handle) return;
+    let cancelled = false;
+
+    const relink = async () => {
+      const entry = await findRecentEntry(handle);
+      if (cancelled || !entry) return;
+      workspaceRef.current = { root: rootNode, id: entry.id };
+
+      for (const [tabId, { workspaceId, path }] of unlinkedPathsRef.current) {
+        if (workspaceId !== entry.id) continue;
+        const url = '/' + path.split('/').map(encodeURIComponent).join('/');
+        resolveRelativeNode(rootNode, rootNode, url)
+          .then(node => {
+            if (cancelled || node?.kind !== 'file' || !unlinkedPathsRef.current.has(tabId)) return;
+            unlinkedPathsRef.current.delete(tabId);
+            setTabs(prev => prev.map(tab => (tab.id === tabId && !tab.fileNode ? { ...tab, fileNode: node, title: node.name } : tab)));
+          })
+          .catch(error => console.error(`Failed to find ${path}:`, error));
+      }
+    };
+    relink().catch(error => console.error("Failed to look up the workspace:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rootNode]);
+
+  const activeTab = tabs.find(tab => tab.id === activeTabId) || tabs[0];
+
+  const openTab = useCallback((partial: Partial<EditorTab> = {}) => {
+    const tab = createTab(partial);
+    setTabs(prev => [...prev, tab]);
+    setActiveTabId(tab.id);
+    return tab;
+  }, []);
+
+  const updateTab = useCallback((id: string, patch: Partial<EditorTab>) => {
+    // A tab given another file, or none, no longer waits for its old one
+    if ('fileNode' in patch) unlinkedPathsRef.current.delete(id);
+    setTabs(prev => prev.map(tab => (tab.id === id ? { ...tab, ...patch } : tab)));
+  }, []);
+
+  const closeTab = useCallback((id: string) => {
+    const { tabs, activeTabId } = latestRef.current;
+    const index = tabs.findIndex(tab => tab.id === id);
+    if (index === -1) return;
+
+    // Always keep one tab around so the editor is never empty
+    const remaining = tabs.filter(tab => tab.id !== id);
+    const replacement = remaining.length === 0 ? createTab() : null;
+
+    viewStatesRef.current.delete(id);
+    unlinkedPathsRef.current.delete(id);
+    setTabs(prev => {
+      const next = prev.filter(tab => tab.id !== id);
+      return next.length === 0 && replacement ? [replacement] : next;
+    });
+
+    if (replacement) {
+      setActiveTabId(replacement.id);
+    } else if (activeTabId === id) {
+      setActiveTabId(remaining[Math.min(index, remaining.length - 1)].id);
+    }
+  }, []);
+
+  const getViewState = useCallback((id: string): TabViewState => {
+    return viewStatesRef.current.get(id) || DEFAULT_VIEW_STATE;
+  }, []);
+
+  const setViewState = useCallback((id: string, patch: Partial<TabViewState>) => {
+    const current = viewStatesRef.current.get(id) || DEFAULT_VIEW_STATE;
+    viewStatesRef.current.set(id, { ...current, ...patch });
+  }, []);
+
+  return {
+    tabs,
+    activeTab,
+    activeTabId: activeTab.id,
+    setActiveTabId,
+    openTab,
+    updateTab,
+    closeTab,
+    getViewState,
+    setViewState,
+    lastSaved,
+  };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { FileNode } from "@/lib/file-system";
+import { collectSearchableFiles } from "@/lib/search";
+import { type WikiLink, type WikiPage, pageNameOf, parseWikiLinks, resolveWikiPage } from "@/lib/wiki-links";
+
+export interface Backlink {
+  source: WikiPage;
+  link: WikiLink;
+  line: number;
+  lineText: string;
+}
+
+interface PageIndex {
+  root: FileNode;
+  pages: WikiPage[];
+}
+
+interface BacklinkScan {
+  pages: WikiPage[];
+  target: WikiPage;
+  version: number;
+  backlinks: Backlink[];
+}
+
+const NO_PAGES: WikiPage[] = [];
+const NO_BACKLINKS: Backlink[] = [];
+
+async function findBacklinks(
+  pages: WikiPage[],
+  target: WikiPage,
+  readContent: (node: FileNode) => Promise<string>
+): Promise<Backlink[]> {
+  const found: Backlink[] = [];
+
+  for (const source of pages) {
+    if (source === target) continue;
+
+    let content: string;
+    try {
+      content = await readContent(source.node);
+    } catch (error) {
+      console.error(`Failed to read ${source.path}`, error);
+      continue;
+    }
+
+    for (const link of parseWikiLinks(content)) {
+      if (!link.page || resolveWikiPage(pages, link.page) !== target) continue;
+      const lineStart = content.lastIndexOf('\n', link.from - 1) + 1;
+      const lineEnd = content.indexOf('\n', link.to);
+      found.push({
+        source,
+        link,
+        line: content.slice(0, lineStart).split('\n').length,
+        lineText: content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+      });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Pages of the opened folder for resolving and completing wiki-links,
+ * and the links pointing at the active file.
+ */
+export function useWorkspaceLinks(
+  rootNode: FileNode | null,
+  activeFileNode: FileNode | null,
+  readContent: (node: FileNode) => Promise<string>
+) {
+  const [index, setIndex] = useState<PageIndex | null>(null);
+  const [scan, setScan] = useState<BacklinkScan | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  useEffect(() => {
+    if (!rootNode) return;
+
+    let cancelled = false;
+    collectSearchableFiles(rootNode)
+      .then(files => {
+        if (cancelled) return;
+        setIndex({
+          root: rootNode,
+          pages: files.map(({ node, path }) => ({ node, path, name: pageNameOf(node.name) })),
+        });
+      })
+      .catch(error => console.error("Failed to index workspace:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [rootNode, version]);
+
+  // Keep showing the previous index while a refresh of the same folder runs
+  const pages = rootNode && index?.root === rootNode ? index.pages : NO_PAGES;
+  const activeFileId = activeFileNode?.id;
+  const target = useMemo(() => pages.find(page => page.node.id === activeFileId), [pages, activeFileId]);
+
+  useEffect(() => {
+    if (!target) return;
+
+    let cancelled = false;
+    findBacklinks(pages, target, readContent).then(backlinks => {
+      if (!cancelled) setScan({ pages, target, version, backlinks });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pages, target, readContent, version]);
+
+  const backlinks = target && scan?.target === target ? scan.backlinks : NO_BACKLINKS;
+  const isScanning = !!target && !(scan?.target === target && scan.pages === pages && scan.version === version);
+
+  return { pages, backlinks, isScanning, refresh };
+}
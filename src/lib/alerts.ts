@@ -0,0 +1,63 @@
+import type { MdastNode } from '@/lib/markdown-pipeline';
+
+/**
+ * GitHub style alerts: a block quote opening with `[!NOTE]`, `[!TIP]`,
+ * `[!IMPORTANT]`, `[!WARNING]` or `[!CAUTION]` on a line of its own,
+ * rendered as a `.markdown-alert.markdown-alert-<type>` block with a title
+ * line.
+ */
+
+export type AlertType = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+export const ALERT_TITLES: Record<AlertType, string> = {
+  note: '说明',
+  tip: '提示',
+  important: '重要',
+  warning: '警告',
+  caution: '注意',
+};
+
+// Accent of each type in exports, as hex without `#`
+export const ALERT_COLORS: Record<AlertType, string> = {
+  note: '0969DA',
+  tip: '1A7F37',
+  important: '8250DF',
+  warning: '9A6700',
+  caution: 'CF222E',
+};
+
+export const ALERT_MARKER = /^\[!(note|tip|important|warning|caution)\][ \t]*(?:\r?\n|$)/i;
+
+export function alertClassNames(type: AlertType): string[] {
+  return ['markdown-alert', `markdown-alert-${type}`];
+}
+
+function toAlert(blockquote: MdastNode) {
+  const paragraph = blockquote.children?.[0];
+  const text = paragraph?.type === 'paragraph' ? paragraph.children?.[0] : undefined;
+  const match = text?.type === 'text' ? text.value?.match(ALERT_MARKER) : null;
+  if (!paragraph || !text || !match) return;
+
+  const type = match[1].toLowerCase() as AlertType;
+  text.value = text.value!.slice(match[0].length);
+  if (!text.value) paragraph.children!.shift();
+  if (paragraph.children!.length === 0) blockquote.children!.shift();
+
+  blockquote.data = { hName: 'div', hProperties: { className: alertClassNames(type) } };
+  blockquote.children!.unshift({
+    type: 'paragraph',
+    data: { hProperties: { className: ['markdown-alert-title'] } },
+    children: [{ type: 'text', value: ALERT_TITLES[type] }],
+  });
+}
+
+/** Remark plugin turning alert block quotes into alert blocks. */
+export function remarkAlerts() {
+  return (tree: MdastNode) => {
+    const visit = (node: MdastNode) => {
+      node.children?.forEach(visit);
+      if (node.type === 'blockquote') toAlert(node);
+    };
+    visit(tree);
+  };
+}
@@ -0,0 +1,105 @@
+import type { MdastNode } from '@/lib/markdown-pipeline';
+
+/**
+ * Definition lists as in PHP Markdown Extra and Pandoc: one or more term
+ * lines followed by definitions starting with `: `.
+ *
+ *     Term
+ *     : Definition
+ *     lazily continued
+ *
+ *     : Another definition, separated by a blank line
+ *
+ * The transform works on paragraphs remark has already parsed.
+ */
+
+const DEFINITION_MARKER = /^:[ \t]+/;
+
+const BLOCK_PARENTS = new Set(['root', 'blockquote', 'listItem', 'footnoteDefinition']);
+
+const element = (type: string, hName: string, children: MdastNode[]): MdastNode => ({ type, children, data: { hName } });
+
+// Phrasing content split at the line breaks of its text nodes
+function splitLines(children: MdastNode[]): MdastNode[][] {
+  const lines: MdastNode[][] = [[]];
+  for (const child of children) {
+    if (child.type !== 'text' || !child.value?.includes('\n')) {
+      lines[lines.length - 1].push(child);
+      continue;
+    }
+    child.value.split('\n').forEach((value, index) => {
+      if (index > 0) lines.push([]);
+      if (value) lines[lines.length - 1].push({ type: 'text', value });
+    });
+  }
+  return lines;
+}
+
+function isDefinitionLine(line: MdastNode[]): boolean {
+  return line[0]?.type === 'text' && DEFINITION_MARKER.test(line[0].value ?? '');
+}
+
+function stripMarker(line: MdastNode[]): MdastNode[] {
+  const [first, ...rest] = line;
+  const value = first.value!.replace(DEFINITION_MARKER, '');
+  return value ? [{ type: 'text', value }, ...rest] : rest;
+}
+
+// Definitions and their lazy continuation lines
+function definitions(lines: MdastNode[][]): MdastNode[] {
+  const items: MdastNode[][] = [];
+  for (const line of lines) {
+    if (isDefinitionLine(line)) items.push(stripMarker(line));
+    else items[items.length - 1].push({ type: 'text', value: '\n' }, ...line);
+  }
+  return items.map(children => element('definitionDescription', 'dd', children));
+}
+
+function transformChildren(parent: MdastNode) {
+  const children: MdastNode[] = [];
+
+  for (const child of parent.children ?? []) {
+    const previous = children[children.length - 1];
+    const lines = child.type === 'paragraph' ? splitLines(child.children ?? []) : [];
+    const firstDefinition = lines.findIndex(isDefinitionLine);
+
+    if (firstDefinition > 0) {
+      // Term lines, then definitions
+      const list = element('definitionList', 'dl', [
+        ...lines.slice(0, firstDefinition).map(line => element('definitionTerm', 'dt', line)),
+        ...definitions(lines.slice(firstDefinition)),
+      ]);
+      list.position = child.position;
+      if (previous?.type === 'definitionList') previous.children!.push(...list.children!);
+      else children.push(list);
+    } else if (firstDefinition === 0 && (previous?.type === 'definitionList' || previous?.type === 'paragraph')) {
+      // A definition after a blank line holds paragraphs
+      const [first, ...rest] = lines;
+      const paragraph: MdastNode = { ...child, children: stripMarker(first).concat(...rest.flatMap(line => [{ type: 'text', value: '\n' }, ...line])) };
+      const description = element('definitionDescription', 'dd', [paragraph]);
+      if (previous.type === 'definitionList') {
+        previous.children!.push(description);
+      } else {
+        const terms = splitLines(previous.children ?? []).map(line => element('definitionTerm', 'dt', line));
+        children.pop();
+        const before = children[children.length - 1];
+        if (before?.type === 'definitionList') before.children!.push(...terms, description);
+        else children.push({ ...element('definitionList', 'dl', [...terms, description]), position: previous.position });
+      }
+    } else {
+      children.push(child);
+    }
+  }
+  parent.children = children;
+}
+
+/** Remark plugin turning definition list paragraphs into `<dl>`. */
+export function remarkDefinitionLists() {
+  return (tree: MdastNode) => {
+    const visit = (node: MdastNode) => {
+      node.children?.forEach(visit);
+      if (BLOCK_PARENTS.has(node.type)) transformChildren(node);
+    };
+    visit(tree);
+  };
+}
@@ -0,0 +1,706 @@
+import {
+  AlignmentType,
+  Bookmark,
+  BorderStyle,
+  CheckBox,
+  Document,
+  ExternalHyperlink,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  ImageRun,
+  InternalHyperlink,
+  LevelFormat,
+  Math as OfficeMath,
+  Paragraph,
+  type ParagraphChild,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import hljs from 'highlight.js/lib/common';
+import mermaid from 'mermaid';
+import { ALERT_COLORS, ALERT_TITLES, type AlertType } from '@/lib/alerts';
+import { isRelativeUrl } from '@/lib/file-system';
+import { latexToOmml } from '@/lib/latex-omml';
+import type { MdastNode } from '@/lib/markdown-pipeline';
+import { createSlugger, isTocMarkerLine, isTocMarkerText } from '@/lib/toc';
+
+/**
+ * Word documents from the preview's mdast tree: headings with bookmarks for in-page
+ * links, real tables, nested numbered and bulleted lists with checkboxes
+ * for task items, hyperlinks, embedded images and Mermaid diagrams,
+ * syntax-colored code and equations as Office Math.
+ */
+
+export interface DocxOptions {
+  title?: string;
+  creator?: string;
+  description?: string;
+  keywords?: string;
+  // Resolves relative image sources, such as paths inside the opened folder
+  resolveImage?: (src: string) => Promise<string | null>;
+}
+
+type Block = Paragraph | Table | TableOfContents;
+
+// Where blocks sit: inside quotes, alerts, list items and footnotes
+interface BlockContext {
+  indent: number;
+  listLevel: number;
+  border?: { color: string; size: number };
+  color?: string;
+}
+
+interface RunFormat {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  underline?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  highlight?: boolean;
+  code?: boolean;
+  color?: string;
+  link?: boolean;
+}
+
+interface EmbeddedImage {
+  run: (width: number, height: number) => ImageRun;
+  width: number;
+  height: number;
+}
+
+// A4 with Word's default margins, in twips and in pixels
+const CONTENT_WIDTH_TWIPS = 9026;
+const MAX_IMAGE_WIDTH = 600;
+const LIST_INDENT = 360;
+const CODE_FONT = 'Consolas';
+
+// highlight.js scopes in GitHub's light colors
+const CODE_COLORS: Record<string, string> = {
+  keyword: 'D73A49', doctag: 'D73A49', 'template-tag': 'D73A49', 'template-variable': 'D73A49', type: 'D73A49',
+  'variable.language': 'D73A49', title: '6F42C1', 'title.class': '6F42C1', 'title.function': '6F42C1',
+  attr: '005CC5', attribute: '005CC5', literal: '005CC5', meta: '005CC5', number: '005CC5', operator: '005CC5',
+  variable: '005CC5', 'selector-attr': '005CC5', 'selector-class': '005CC5', 'selector-id': '005CC5',
+  regexp: '032F62', string: '032F62', built_in: 'E36209', symbol: 'E36209', comment: '6A737D', code: '6A737D',
+  formula: '6A737D', name: '22863A', quote: '22863A', 'selector-tag': '22863A', 'selector-pseudo': '22863A',
+  section: '005CC5', bullet: '735C0F', addition: '22863A', deletion: 'B31D28',
+};
+
+const ORDERED_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+const BULLETS = ['●', '○', '■'];
+
+const INLINE_TAGS: Record<string, keyof RunFormat> = {
+  b: 'bold', strong: 'bold', i: 'italics', em: 'italics', s: 'strike', del: 'strike', strike: 'strike',
+  u: 'underline', ins: 'underline', sup: 'superScript', sub: 'subScript', mark: 'highlight', code: 'code',
+};
+
+// Text as the preview's heading anchors see it, with inline HTML tags dropped
+function plainText(nodes: MdastNode[] = []): string {
+  return nodes.map(node => {
+    if (node.children) return plainText(node.children);
+    return node.type === 'html' ? (node.value ?? '').replace(/<[^>]*>/g, '') : node.value ?? '';
+  }).join('');
+}
+
+const classNames = (node: MdastNode) => {
+  const className = node.data?.hProperties?.className;
+  return Array.isArray(className) ? className.map(String) : [];
+};
+
+// GitHub style alerts are block quotes carrying the alert's classes
+function alertType(node: MdastNode): AlertType | null {
+  const name = classNames(node).find(name => name.startsWith('markdown-alert-'));
+  return name ? name.slice('markdown-alert-'.length) as AlertType : null;
+}
+
+function loadHtmlImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`无法加载图片 ${url}`));
+    image.src = url;
+  });
+}
+
+// PNG of an image the browser can draw, at `scale` times its size
+async function rasterize(url: string, width: number, height: number, scale = 1): Promise<Uint8Array> {
+  const image = await loadHtmlImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('图片转换失败');
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function fitWidth(width: number, height: number): [number, number] {
+  if (width <= MAX_IMAGE_WIDTH) return [width, height];
+  return [MAX_IMAGE_WIDTH, Math.round((height * MAX_IMAGE_WIDTH) / width)];
+}
+
+const RASTER_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/bmp': 'bmp',
+};
+
+// SVG with a PNG for Word versions that can't draw it
+async function embedSvg(svg: string, width: number, height: number): Promise<EmbeddedImage> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const fallback = await rasterize(url, width, height, 2);
+    const data = new TextEncoder().encode(svg);
+    return {
+      width,
+      height,
+      run: (w, h) => new ImageRun({ type: 'svg', data, fallback: { type: 'png', data: fallback }, transformation: { width: w, height: h } }),
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Give an SVG the size of its view box, which Mermaid leaves to CSS
+function sizeSvg(svg: string): { svg: string; width: number; height: number } {
+  const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+  const viewBox = (element.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  const width = viewBox[2] || parseFloat(element.getAttribute('width') ?? '') || 300;
+  const height = viewBox[3] || parseFloat(element.getAttribute('height') ?? '') || 150;
+  element.setAttribute('width', String(width));
+  element.setAttribute('height', String(height));
+  element.removeAttribute('style');
+  return { svg: new XMLSerializer().serializeToString(element), width, height };
+}
+
+// Code as lines of colored runs
+function highlightedLines(code: string, language: string | undefined): TextRun[][] {
+  const lines: TextRun[][] = [[]];
+  const push = (text: string, scopes: string[]) => {
+    const scope = [...scopes].reverse().find(name => CODE_COLORS[name]);
+    text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) {
+        lines[lines.length - 1].push(new TextRun({
+          text: part,
+          font: CODE_FONT,
+          size: 20,
+          color: scope ? CODE_COLORS[scope] : '24292E',
+          bold: scopes.includes('strong') || scopes.includes('section'),
+          italics: scopes.includes('emphasis'),
+        }));
+      }
+    });
+  };
+
+  if (!language || !hljs.getLanguage(language)) {
+    push(code, []);
+    return lines;
+  }
+  const template = document.createElement('template');
+  template.innerHTML = hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  const walk = (node: Node, scopes: string[]) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      push(node.textContent ?? '', scopes);
+      return;
+    }
+    const names = Array.from((node as Element).classList ?? [])
+      .map(name => name.replace(/^hljs-/, '').replace(/_$/, ''))
+      // `title class_` is the `title.class` scope
+      .join('.');
+    const inner = names ? [...scopes, ...names.split('.').map((_, index, parts) => parts.slice(0, index + 1).join('.'))] : scopes;
+    node.childNodes.forEach(child => walk(child, inner));
+  };
+  template.content.childNodes.forEach(node => walk(node, []));
+  return lines;
+}
+
+const numberingLevels = (ordered: boolean, start: number, startLevel: number) =>
+  Array.from({ length: 9 }, (_, level) => ({
+    level,
+    format: ordered ? ORDERED_FORMATS[level % ORDERED_FORMATS.length] : LevelFormat.BULLET,
+    text: ordered ? `%${level + 1}.` : BULLETS[level % BULLETS.length],
+    alignment: AlignmentType.LEFT,
+    start: level === startLevel ? start : 1,
+    style: { paragraph: { indent: { left: 720 * (level + 1), hanging: LIST_INDENT } } },
+  }));
+
+/** Turns mdast nodes into the parts of a Word document. */
+class DocxBuilder {
+  private readonly options: DocxOptions;
+  private readonly numbering: { reference: string; levels: ReturnType<typeof numberingLevels> }[] = [];
+  private readonly images = new Map<string, Promise<EmbeddedImage | null>>();
+  // Bookmark names of heading anchors, by slug
+  private readonly anchors = new Map<string, string>();
+  private readonly headingSlug = createSlugger();
+  // Targets of reference-style links and images
+  private readonly definitions = new Map<string, string>();
+  // Word footnote ids, numbered by first reference like in the preview
+  readonly footnoteIds = new Map<string, number>();
+  private diagrams = 0;
+
+  constructor(options: DocxOptions) {
+    this.options = options;
+  }
+
+  get numberingConfig() {
+    return this.numbering;
+  }
+
+  /** Name the headings and read link definitions first so links can point forward. */
+  collectTargets(root: MdastNode) {
+    const slug = createSlugger();
+    const visit = (node: MdastNode) => node.children?.forEach(child => {
+      if (child.type === 'footnoteDefinition') return;
+      if (child.type === 'heading') this.anchors.set(slug(plainText(child.children)), `_heading_${this.anchors.size + 1}`);
+      if (child.type === 'definition' && child.identifier && !this.definitions.has(child.identifier)) this.definitions.set(child.identifier, child.url ?? '');
+      visit(child);
+    });
+    visit(root);
+  }
+
+  private paragraphOptions(context: BlockContext) {
+    return {
+      ...(context.indent ? { indent: { left: context.indent } } : {}),
+      ...(context.border ? { border: { left: { style: BorderStyle.SINGLE, size: context.border.size, color: context.border.color, space: 8 } } } : {}),
+    };
+  }
+
+  async blocks(nodes: MdastNode[], context: BlockContext, tocEntries: { title: string; level: number }[] = []): Promise<Block[]> {
+    const output: Block[] = [];
+    for (const node of nodes) output.push(...await this.block(node, context, tocEntries));
+    return output;
+  }
+
+  private async block(node: MdastNode, context: BlockContext, tocEntries: { title: string; level: number }[]): Promise<Block[]> {
+    const format: RunFormat = context.color ? { color: context.color } : {};
+
+    const isTocMarker = node.type === 'html'
+      ? isTocMarkerLine(node.value ?? '')
+      : node.type === 'paragraph' && !!node.children?.every(child => child.type === 'text') && isTocMarkerText(plainText(node.children));
+    if (isTocMarker) {
+      return [new TableOfContents('目录', { hyperlink: true, headingStyleRange: '1-6', cachedEntries: tocEntries })];
+    }
+
+    switch (node.type) {
+      case 'definition':
+      case 'footnoteDefinition':
+        return [];
+
+      case 'heading': {
+        const level = node.depth as 1 | 2 | 3 | 4 | 5 | 6;
+        const children = await this.inline(node.children ?? [], format);
+        const anchor = this.anchors.get(this.headingSlug(plainText(node.children)));
+        return [new Paragraph({
+          ...this.paragraphOptions(context),
+          heading: HeadingLevel[`HEADING_${level}`],
+          spacing: { before: 240, after: 120 },
+          children: anchor ? [new Bookmark({ id: anchor, children })] : children,
+        })];
+      }
+
+      case 'paragraph':
+        return [new Paragraph({
+          ...this.paragraphOptions(context),
+          spacing: { after: 120 },
+          children: await this.inline(node.children ?? [], format),
+        })];
+
+      case 'code':
+        if (node.lang === 'mermaid') return this.diagram(node.value ?? '', context);
+        if (node.lang === 'math') return this.equation(node.value ?? '', context);
+        return this.codeBlock(node.value ?? '', node.lang ?? undefined, context);
+
+      case 'math':
+        return this.equation(node.value ?? '', context);
+
+      case 'blockquote': {
+        const type = alertType(node);
+        if (!type) {
+          return this.blocks(node.children ?? [], {
+            ...context,
+            indent: context.indent + 240,
+            border: { color: 'D0D7DE', size: 18 },
+            color: '57606A',
+          });
+        }
+        const color = ALERT_COLORS[type];
+        const inner: BlockContext = { ...context, indent: context.indent + 240, border: { color, size: 24 } };
+        // The first paragraph is the title remarkAlerts added
+        const [, ...rest] = node.children ?? [];
+        return [
+          new Paragraph({
+            ...this.paragraphOptions(inner),
+            spacing: { after: 60 },
+            children: [new TextRun({ text: ALERT_TITLES[type], bold: true, color })],
+          }),
+          ...await this.blocks(rest, inner),
+        ];
+      }
+
+      case 'list':
+        return this.list(node, context);
+
+      case 'table':
+        return [await this.table(node, context)];
+
+      case 'definitionList': {
+        const output: Block[] = [];
+        const inner = { ...context, indent: context.indent + 720 };
+        for (const child of node.children ?? []) {
+          if (child.type === 'definitionTerm') {
+            output.push(new Paragraph({
+              ...this.paragraphOptions(context),
+              spacing: { before: 120, after: 60 },
+              children: await this.inline(child.children ?? [], { ...format, bold: true }),
+            }));
+          } else if (child.children?.[0]?.type === 'paragraph') {
+            // Definitions after a blank line hold paragraphs
+            output.push(...await this.blocks(child.children, inner));
+          } else {
+            output.push(new Paragraph({ ...this.paragraphOptions(inner), spacing: { after: 60 }, children: await this.inline(child.children ?? [], format) }));
+          }
+        }
+        return output;
+      }
+
+      case 'thematicBreak':
+        return [new Paragraph({
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D0D7DE', space: 1 } },
+          spacing: { before: 120, after: 120 },
+        })];
+
+      case 'html': {
+        // Images written as HTML; other markup keeps only its text
+        const template = document.createElement('template');
+        template.innerHTML = node.value ?? '';
+        const images = Array.from(template.content.querySelectorAll('img'));
+        const children: ParagraphChild[] = [];
+        for (const image of images) children.push(...await this.image(image.getAttribute('src') ?? '', image.getAttribute('alt') ?? ''));
+        const text = template.content.textContent?.trim();
+        if (text) children.push(new TextRun({ text }));
+        return children.length ? [new Paragraph({ ...this.paragraphOptions(context), spacing: { after: 120 }, children })] : [];
+      }
+
+      default: {
+        const text = plainText([node]).trim();
+        return text
+          ? [new Paragraph({ ...this.paragraphOptions(context), spacing: { after: 120 }, children: [new TextRun({ text })] })]
+          : [];
+      }
+    }
+  }
+
+  private codeBlock(code: string, language: string | undefined, context: BlockContext): Paragraph[] {
+    const lines = highlightedLines(code, language);
+    return lines.map((runs, index) => new Paragraph({
+      ...this.paragraphOptions(context),
+      children: runs,
+      shading: { fill: 'F6F8FA' },
+      spacing: { before: index === 0 ? 120 : 0, after: index === lines.length - 1 ? 120 : 0, line: 276 },
+    }));
+  }
+
+  // Display math, one centered paragraph per line
+  private equation(latex: string, context: BlockContext): Paragraph[] {
+    return latexToOmml(latex).map(line => new Paragraph({
+      ...this.paragraphOptions(context),
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 120, after: 120 },
+      children: [new OfficeMath({ children: line })],
+    }));
+  }
+
+  private async diagram(code: string, context: BlockContext): Promise<Paragraph[]> {
+    try {
+      // Light theme and SVG text labels, which can be drawn onto a canvas
+      const { svg } = await mermaid.render(
+        `docx-mermaid-${++this.diagrams}`,
+        `%%{init: {"theme": "default", "htmlLabels": false, "flowchart": {"htmlLabels": false}}}%%\n${code}`
+      );
+      const sized = sizeSvg(svg);
+      const image = await embedSvg(sized.svg, sized.width, sized.height);
+      const [width, height] = fitWidth(image.width, image.height);
+      return [new Paragraph({
+        ...this.paragraphOptions(context),
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 120, after: 120 },
+        children: [image.run(width, height)],
+      })];
+    } catch (error) {
+      console.warn('Mermaid diagram kept as code in DOCX export:', error);
+      return this.codeBlock(code, undefined, context);
+    }
+  }
+
+  private async list(node: MdastNode, context: BlockContext): Promise<Block[]> {
+    const level = Math.min(context.listLevel, 8);
+    const reference = node.ordered ? `ordered-${this.numbering.length}` : 'bullet';
+    // Every ordered list counts from its own start
+    if (node.ordered) this.numbering.push({ reference, levels: numberingLevels(true, node.start ?? 1, level) });
+    else if (!this.numbering.some(config => config.reference === 'bullet')) this.numbering.push({ reference, levels: numberingLevels(false, 1, 0) });
+
+    const output: Block[] = [];
+    const itemIndent = context.indent + 720 * (level + 1);
+    for (const item of node.children ?? []) {
+      const [first, ...rest] = item.children ?? [];
+      const lead = first?.type === 'paragraph' ? first : null;
+      const task = typeof item.checked === 'boolean';
+      const children: ParagraphChild[] = task ? [new CheckBox({ checked: !!item.checked }), new TextRun(' ')] : [];
+      if (lead) children.push(...await this.inline(lead.children ?? [], context.color ? { color: context.color } : {}));
+
+      output.push(new Paragraph({
+        ...this.paragraphOptions(context),
+        numbering: { reference, level },
+        ...(context.indent ? { indent: { left: itemIndent, hanging: LIST_INDENT } } : {}),
+        spacing: { after: 60 },
+        children,
+      }));
+
+      // Nested lists go a level deeper, other blocks line up with the text
+      for (const child of lead ? rest : item.children ?? []) {
+        output.push(...await (child.type === 'list'
+          ? this.list(child, { ...context, listLevel: level + 1 })
+          : this.block(child, { ...context, indent: itemIndent }, [])));
+      }
+    }
+    return output;
+  }
+
+  private async table(node: MdastNode, context: BlockContext): Promise<Table> {
+    const rows = node.children ?? [];
+    const columns = Math.max(1, ...rows.map(row => row.children?.length ?? 0));
+    const width = Math.floor((CONTENT_WIDTH_TWIPS - context.indent) / columns);
+    const alignment = (index: number) =>
+      node.align?.[index] === 'center' ? AlignmentType.CENTER : node.align?.[index] === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT;
+
+    // Rows one after another so footnotes are numbered in reading order
+    const tableRows: TableRow[] = [];
+    for (const [rowIndex, row] of rows.entries()) {
+      const header = rowIndex === 0;
+      const cells: TableCell[] = [];
+      for (const [index, cell] of (row.children ?? []).entries()) {
+        cells.push(new TableCell({
+          width: { size: width, type: WidthType.DXA },
+          margins: { top: 60, bottom: 60, left: 100, right: 100 },
+          ...(header ? { shading: { fill: 'F6F8FA' } } : {}),
+          children: [new Paragraph({ alignment: alignment(index), children: await this.inline(cell.children ?? [], header ? { bold: true } : {}) })],
+        }));
+      }
+      tableRows.push(new TableRow({ tableHeader: header, children: cells }));
+    }
+
+    return new Table({
+      width: { size: width * columns, type: WidthType.DXA },
+      columnWidths: Array(columns).fill(width),
+      ...(context.indent ? { indent: { size: context.indent, type: WidthType.DXA } } : {}),
+      rows: tableRows,
+    });
+  }
+
+  async inline(nodes: MdastNode[], format: RunFormat): Promise<ParagraphChild[]> {
+    const output: ParagraphChild[] = [];
+    // Formatting opened by inline HTML tags
+    let current = { ...format };
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output.push(this.run(node.value ?? '', current));
+          break;
+        case 'strong':
+          output.push(...await this.inline(node.children ?? [], { ...current, bold: true }));
+          break;
+        case 'emphasis':
+          output.push(...await this.inline(node.children ?? [], { ...current, italics: true }));
+          break;
+        case 'delete':
+          output.push(...await this.inline(node.children ?? [], { ...current, strike: true }));
+          break;
+        case 'highlight':
+          output.push(...await this.inline(node.children ?? [], { ...current, highlight: true }));
+          break;
+        case 'subscript':
+          output.push(...await this.inline(node.children ?? [], { ...current, subScript: true }));
+          break;
+        case 'superscript':
+          output.push(...await this.inline(node.children ?? [], { ...current, superScript: true }));
+          break;
+        case 'underline':
+          output.push(...await this.inline(node.children ?? [], { ...current, underline: true }));
+          break;
+        case 'inlineCode':
+          output.push(this.run(node.value ?? '', { ...current, code: true }));
+          break;
+        case 'break':
+          output.push(new TextRun({ text: '', break: 1 }));
+          break;
+        case 'link':
+          output.push(...await this.link(node, node.url ?? '', current));
+          break;
+        case 'linkReference':
+          output.push(...await this.link(node, this.definitions.get(node.identifier ?? '') ?? '', current));
+          break;
+        case 'image':
+          output.push(...await this.image(node.url ?? '', node.alt ?? ''));
+          break;
+        case 'imageReference':
+          output.push(...await this.image(this.definitions.get(node.identifier ?? '') ?? '', node.alt ?? ''));
+          break;
+        case 'footnoteReference': {
+          const identifier = node.identifier ?? '';
+          if (!this.footnoteIds.has(identifier)) this.footnoteIds.set(identifier, this.footnoteIds.size + 1);
+          output.push(new FootnoteReferenceRun(this.footnoteIds.get(identifier)!));
+          break;
+        }
+        case 'inlineMath':
+          output.push(new OfficeMath({ children: latexToOmml(node.value ?? '').flat() }));
+          break;
+        case 'html': {
+          const tag = (node.value ?? '').match(/^<(\/?)([a-z]+)\b[^>]*?(\/?)>$/i);
+          const name = tag?.[2].toLowerCase();
+          if (name === 'br') output.push(new TextRun({ text: '', break: 1 }));
+          else if (name === 'img') {
+            const image = new DOMParser().parseFromString(node.value ?? '', 'text/html').querySelector('img');
+            if (image) output.push(...await this.image(image.getAttribute('src') ?? '', image.getAttribute('alt') ?? ''));
+          } else if (name && INLINE_TAGS[name]) {
+            const key = INLINE_TAGS[name];
+            current = { ...current, [key]: tag![1] !== '/' || format[key] };
+          }
+          break;
+        }
+        default:
+          if (node.children) output.push(...await this.inline(node.children, current));
+          else if (node.value) output.push(this.run(node.value, current));
+      }
+    }
+    return output;
+  }
+
+  private run(text: string, format: RunFormat): TextRun {
+    return new TextRun({
+      text,
+      bold: format.bold,
+      italics: format.italics,
+      strike: format.strike,
+      underline: format.underline ? {} : undefined,
+      superScript: format.superScript,
+      subScript: format.subScript,
+      highlight: format.highlight ? 'yellow' : undefined,
+      color: format.color,
+      style: format.link ? 'Hyperlink' : undefined,
+      ...(format.code ? { font: CODE_FONT, shading: { fill: 'EFF1F3' } } : {}),
+    });
+  }
+
+  private async link(node: MdastNode, href: string, format: RunFormat): Promise<ParagraphChild[]> {
+    const wikiHeading = node.data?.hProperties?.dataWikiHeading;
+    if (node.data?.hProperties?.dataWikiPage !== undefined) {
+      // Wiki-links into this document become internal links, others plain text
+      const anchor = !node.data.hProperties.dataWikiPage && typeof wikiHeading === 'string'
+        ? this.anchors.get(createSlugger()(wikiHeading))
+        : undefined;
+      const children = await this.inline(node.children ?? [], anchor ? { ...format, link: true, color: undefined } : format);
+      return anchor ? [new InternalHyperlink({ anchor, children })] : children;
+    }
+
+    const children = await this.inline(node.children ?? [], { ...format, link: true, color: undefined });
+    if (href.startsWith('#')) {
+      const anchor = this.anchors.get(decodeURIComponent(href.slice(1)));
+      return anchor ? [new InternalHyperlink({ anchor, children })] : children;
+    }
+    // Paths inside the opened folder mean nothing in a Word file
+    return !href || isRelativeUrl(href) ? children : [new ExternalHyperlink({ link: href, children })];
+  }
+
+  private async image(src: string, alt: string): Promise<ParagraphChild[]> {
+    if (!src) return [];
+    let image = this.images.get(src);
+    if (!image) {
+      image = this.loadImage(src).catch(error => {
+        console.warn(`Image ${src} left out of DOCX export:`, error);
+        return null;
+      });
+      this.images.set(src, image);
+    }
+    const loaded = await image;
+    if (!loaded) return alt ? [new TextRun({ text: `[${alt}]`, italics: true, color: '6A737D' })] : [];
+    const [width, height] = fitWidth(loaded.width, loaded.height);
+    return [loaded.run(width, height)];
+  }
+
+  private async loadImage(src: string): Promise<EmbeddedImage> {
+    const url = isRelativeUrl(src) ? (await this.options.resolveImage?.(src)) ?? src : src;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+    const type = blob.type || (/\.svg(?:[?#]|$)/i.test(src) ? 'image/svg+xml' : '');
+
+    if (type === 'image/svg+xml') {
+      const sized = sizeSvg(await blob.text());
+      return embedSvg(sized.svg, sized.width, sized.height);
+    }
+
+    const objectUrl = URL.createObjectURL(blob);
+    try {
+      const element = await loadHtmlImage(objectUrl);
+      const width = element.naturalWidth || 300;
+      const height = element.naturalHeight || 150;
+      const raster = RASTER_TYPES[type];
+      // Formats Word doesn't take, such as WebP, go in as PNG
+      const data = raster ? new Uint8Array(await blob.arrayBuffer()) : await rasterize(objectUrl, width, height);
+      return { width, height, run: (w, h) => new ImageRun({ type: raster ?? 'png', data, transformation: { width: w, height: h } }) };
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  }
+}
+
+/** Build a Word document from the mdast tree of `parseMarkdown`. */
+export async function createDocxDocument(root: MdastNode, options: DocxOptions = {}): Promise<Document> {
+  const builder = new DocxBuilder(options);
+  builder.collectTargets(root);
+
+  // Word builds the real TOC from heading styles when fields are updated;
+  // the cached entries are what shows until then
+  const nodes = root.children ?? [];
+  const tocEntries = nodes
+    .filter(node => node.type === 'heading')
+    .map(node => ({ title: plainText(node.children), level: node.depth ?? 1 }));
+  const children = await builder.blocks(nodes, { indent: 0, listLevel: 0 }, tocEntries);
+
+  // Notes become Word footnotes; notes can reference further notes, which
+  // join the queue as they are met
+  const notes = new Map<string, MdastNode>();
+  const visit = (node: MdastNode) => node.children?.forEach(child => {
+    if (child.type === 'footnoteDefinition' && child.identifier && !notes.has(child.identifier)) notes.set(child.identifier, child);
+    visit(child);
+  });
+  visit(root);
+
+  const footnotes: Record<number, { children: Paragraph[] }> = {};
+  for (const [identifier, id] of builder.footnoteIds) {
+    const blocks = await builder.blocks(notes.get(identifier)?.children ?? [], { indent: 0, listLevel: 0 });
+    footnotes[id] = { children: blocks.filter((block): block is Paragraph => block instanceof Paragraph) };
+  }
+
+  return new Document({
+    footnotes,
+    title: options.title,
+    creator: options.creator,
+    description: options.description,
+    keywords: options.keywords,
+    numbering: { config: builder.numberingConfig },
+    features: {
+      updateFields: true,
+    },
+    sections: [
+      {
+        properties: {},
+        children,
+      },
+    ],
+  });
+}
@@ -0,0 +1,688 @@
+/**
+ * Word (.docx) import. The package is unzipped in the browser and the
+ * document body rebuilt as plain HTML (headings, lists, tables, inline
+ * formatting, links, images and footnotes), which then goes through the same
+ * converter as pasted rich text.
+ */
+import { htmlToMarkdownAsync } from './html-to-markdown';
+import { createSlugger } from './toc';
+import { updateFrontMatter } from './front-matter';
+
+export interface DocxImportOptions {
+  /** Turns an embedded image into the URL the markdown points at */
+  onImage: (file: File) => Promise<string>;
+}
+
+interface ZipEntry {
+  method: number;
+  offset: number;
+  size: number;
+}
+
+/** Just enough of a ZIP reader for the parts of a .docx package. */
+class ZipPackage {
+  private bytes: Uint8Array<ArrayBuffer>;
+  private entries: Map<string, ZipEntry>;
+
+  private constructor(bytes: Uint8Array<ArrayBuffer>, entries: Map<string, ZipEntry>) {
+    this.bytes = bytes;
+    this.entries = entries;
+  }
+
+  static async open(file: Blob): Promise<ZipPackage> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    // The end of central directory record sits behind an optional comment
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+      if (view.getUint32(i, true) === 0x06054b50) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) throw new Error('不是有效的 .docx 文件');
+
+    const entries = new Map<string, ZipEntry>();
+    const decoder = new TextDecoder();
+    let offset = view.getUint32(end + 16, true);
+    for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+      if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('.docx 文件已损坏');
+      const nameLength = view.getUint16(offset + 28, true);
+      const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+      entries.set(name, {
+        method: view.getUint16(offset + 10, true),
+        size: view.getUint32(offset + 20, true),
+        offset: view.getUint32(offset + 42, true),
+      });
+      offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    }
+    return new ZipPackage(bytes, entries);
+  }
+
+  async read(path: string): Promise<Uint8Array<ArrayBuffer> | null> {
+    const entry = this.entries.get(path);
+    if (!entry) return null;
+
+    const view = new DataView(this.bytes.buffer);
+    const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+    const data = this.bytes.slice(start, start + entry.size);
+    if (entry.method === 0) return data;
+    if (entry.method !== 8) throw new Error(`不支持的压缩方式: ${entry.method}`);
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  async xml(path: string): Promise<Document | null> {
+    const data = await this.read(path);
+    if (!data) return null;
+    const doc = new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+    return doc.getElementsByTagName('parsererror').length ? null : doc;
+  }
+}
+
+// Elements and attributes are matched by local name so prefixes don't matter
+const childElements = (element: Element | null, name?: string) =>
+  element ? Array.from(element.children).filter(child => !name || child.localName === name) : [];
+const childElement = (element: Element | null, name: string) => childElements(element, name)[0] ?? null;
+const descendant = (element: Element, name: string) => element.getElementsByTagNameNS('*', name)[0] ?? null;
+const attr = (element: Element | null, name: string) =>
+  element ? Array.from(element.attributes).find(attribute => attribute.localName === name)?.value ?? null : null;
+const relationshipId = (element: Element, name: string) =>
+  Array.from(element.attributes).find(
+    attribute => attribute.localName === name && attribute.namespaceURI?.endsWith('/relationships')
+  )?.value ?? null;
+// On/off properties like <w:b/> are on unless their value says otherwise
+const isOn = (element: Element | null) => !!element && !/^(0|false|off|none)$/i.test(attr(element, 'val') ?? '');
+
+/** Resolve a relationship target against the part that refers to it. */
+function resolvePart(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = base.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+interface Relationship {
+  target: string;
+  external: boolean;
+}
+
+async function readRelationships(zip: ZipPackage, part: string): Promise<Map<string, Relationship>> {
+  const slash = part.lastIndexOf('/');
+  const doc = await zip.xml(`${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`);
+  const relationships = new Map<string, Relationship>();
+  for (const element of Array.from(doc?.getElementsByTagNameNS('*', 'Relationship') ?? [])) {
+    const external = element.getAttribute('TargetMode') === 'External';
+    const target = element.getAttribute('Target') ?? '';
+    relationships.set(element.getAttribute('Id') ?? '', { external, target: external ? target : resolvePart(part, target) });
+  }
+  return relationships;
+}
+
+interface Style {
+  name: string;
+  basedOn: string | null;
+  pPr: Element | null;
+}
+
+type BlockKind = 'paragraph' | 'quote' | 'code' | 'toc' | 'title';
+
+interface ListLevel {
+  ordered: boolean;
+  start: number;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  emf: 'image/emf',
+  wmf: 'image/wmf',
+};
+
+// Outermost first, so runs with the same formatting nest the same way and
+// neighbouring runs can be merged
+const RUN_FORMATS: [tag: string, test: (rPr: Element | null, style: Style | undefined) => boolean][] = [
+  ['mark', rPr => isOn(childElement(rPr, 'highlight'))],
+  ['b', (rPr, style) => rPr && childElement(rPr, 'b') ? isOn(childElement(rPr, 'b')) : /^(strong|bold)$/i.test(style?.name ?? '')],
+  ['i', (rPr, style) => rPr && childElement(rPr, 'i') ? isOn(childElement(rPr, 'i')) : /^(emphasis|italic)$/i.test(style?.name ?? '')],
+  ['u', (rPr, style) => isOn(childElement(rPr, 'u')) && !/hyperlink/i.test(style?.name ?? '')],
+  ['s', rPr => isOn(childElement(rPr, 'strike')) || isOn(childElement(rPr, 'dstrike'))],
+  ['sup', rPr => attr(childElement(rPr, 'vertAlign'), 'val') === 'superscript'],
+  ['sub', rPr => attr(childElement(rPr, 'vertAlign'), 'val') === 'subscript'],
+  ['code', (rPr, style) => /code|verbatim/i.test(style?.name ?? '') || /^(consolas|courier( new)?|menlo|monaco|source code pro|jetbrains mono|fira code)$/i.test(attr(childElement(rPr, 'rFonts'), 'ascii') ?? '')],
+];
+const MERGEABLE_TAGS = new Set(RUN_FORMATS.map(([tag]) => tag.toUpperCase()));
+
+interface Field {
+  instruction: string;
+  inResult: boolean;
+  link: HTMLElement | null;
+}
+
+class DocxConverter {
+  private styles = new Map<string, Style>();
+  private numbering = new Map<string, Map<string, ListLevel>>();
+  private relationships = new Map<string, Relationship>();
+  private bookmarks = new Map<string, string>();
+  private counters = new Map<string, number[]>();
+  private fields: Field[] = [];
+  private images: { element: HTMLImageElement; part: string }[] = [];
+  private footnotes = new Map<string, Element>();
+  private footnoteNumbers = new Map<string, number>();
+  private tocEmitted = false;
+
+  private zip: ZipPackage;
+  private part: string;
+
+  constructor(zip: ZipPackage, part: string) {
+    this.zip = zip;
+    this.part = part;
+  }
+
+  async load(): Promise<Document> {
+    const body = await this.zip.xml(this.part);
+    if (!body) throw new Error('找不到文档正文');
+    this.relationships = await readRelationships(this.zip, this.part);
+    const related = (type: string) => {
+      const relationship = [...this.relationships.entries()].find(([, value]) => value.target.endsWith(type));
+      return relationship ? relationship[1].target : resolvePart(this.part, type);
+    };
+
+    const styles = await this.zip.xml(related('styles.xml'));
+    for (const style of Array.from(styles?.getElementsByTagNameNS('*', 'style') ?? [])) {
+      this.styles.set(attr(style, 'styleId') ?? '', {
+        name: attr(childElement(style, 'name'), 'val') ?? '',
+        basedOn: attr(childElement(style, 'basedOn'), 'val'),
+        pPr: childElement(style, 'pPr'),
+      });
+    }
+
+    const numbering = await this.zip.xml(related('numbering.xml'));
+    const abstracts = new Map<string, Map<string, ListLevel>>();
+    for (const abstract of Array.from(numbering?.getElementsByTagNameNS('*', 'abstractNum') ?? [])) {
+      const levels = new Map<string, ListLevel>();
+      for (const level of childElements(abstract, 'lvl')) {
+        levels.set(attr(level, 'ilvl') ?? '0', {
+          ordered: !/^(bullet|none)$/.test(attr(childElement(level, 'numFmt'), 'val') ?? 'bullet'),
+          start: parseInt(attr(childElement(level, 'start'), 'val') ?? '1', 10) || 1,
+        });
+      }
+      abstracts.set(attr(abstract, 'abstractNumId') ?? '', levels);
+    }
+    for (const num of Array.from(numbering?.getElementsByTagNameNS('*', 'num') ?? [])) {
+      const levels = new Map(abstracts.get(attr(childElement(num, 'abstractNumId'), 'val') ?? ''));
+      for (const override of childElements(num, 'lvlOverride')) {
+        const ilvl = attr(override, 'ilvl') ?? '0';
+        const start = attr(childElement(override, 'startOverride'), 'val');
+        const level = levels.get(ilvl);
+        if (level && start) levels.set(ilvl, { ...level, start: parseInt(start, 10) || 1 });
+      }
+      this.numbering.set(attr(num, 'numId') ?? '', levels);
+    }
+
+    const footnotes = await this.zip.xml(related('footnotes.xml'));
+    for (const footnote of Array.from(footnotes?.getElementsByTagNameNS('*', 'footnote') ?? [])) {
+      if (!attr(footnote, 'type')) this.footnotes.set(attr(footnote, 'id') ?? '', footnote);
+    }
+
+    return body;
+  }
+
+  /** Walk up the style chain until `read` finds something. */
+  private styleValue<T>(styleId: string | null, read: (style: Style) => T | null): T | null {
+    for (let depth = 0; styleId && depth < 16; depth++) {
+      const style = this.styles.get(styleId);
+      if (!style) break;
+      const value = read(style);
+      if (value !== null) return value;
+      styleId = style.basedOn;
+    }
+    return null;
+  }
+
+  private headingLevel(p: Element): number {
+    const pPr = childElement(p, 'pPr');
+    const styleId = attr(childElement(pPr, 'pStyle'), 'val');
+    const outline = (props: Element | null) => {
+      const level = attr(childElement(props, 'outlineLvl'), 'val');
+      return level !== null && +level < 6 ? +level + 1 : null;
+    };
+    return outline(pPr) ?? this.styleValue(styleId, style => {
+      const match = style.name.match(/^heading\s*([1-6])$/i);
+      return match ? +match[1] : outline(style.pPr);
+    }) ?? 0;
+  }
+
+  private blockKind(p: Element): BlockKind {
+    const styleId = attr(childElement(childElement(p, 'pPr'), 'pStyle'), 'val');
+    return this.styleValue<BlockKind>(styleId, ({ name }) => {
+      if (/^(toc \d|toc heading)$/i.test(name)) return 'toc';
+      if (/^title$/i.test(name)) return 'title';
+      if (/quote/i.test(name)) return 'quote';
+      if (/^(html preformatted|source code|code|code block|plain text)$/i.test(name)) return 'code';
+      return null;
+    }) ?? 'paragraph';
+  }
+
+  private listLevel(p: Element): { numId: string; level: number; format: ListLevel } | null {
+    const pPr = childElement(p, 'pPr');
+    const numPr = childElement(pPr, 'numPr')
+      ?? this.styleValue(attr(childElement(pPr, 'pStyle'), 'val'), style => childElement(style.pPr, 'numPr'));
+    const numId = attr(childElement(numPr, 'numId'), 'val');
+    if (!numId || numId === '0') return null;
+    const ilvl = attr(childElement(numPr, 'ilvl'), 'val') ?? '0';
+    const format = this.numbering.get(numId)?.get(ilvl);
+    return format ? { numId, level: +ilvl, format } : null;
+  }
+
+  /** Map Word bookmarks in headings to the anchors the preview gives them. */
+  private collectHeadingAnchors(body: Element) {
+    const slug = createSlugger();
+    for (const p of Array.from(body.getElementsByTagNameNS('*', 'p'))) {
+      if (!this.headingLevel(p) || this.blockKind(p) === 'toc') continue;
+      const text = Array.from(p.getElementsByTagNameNS('*', 't')).map(t => t.textContent).join('');
+      if (!text.trim()) continue;
+      const anchor = slug(text);
+      for (const bookmark of Array.from(p.getElementsByTagNameNS('*', 'bookmarkStart'))) {
+        this.bookmarks.set(attr(bookmark, 'name') ?? '', anchor);
+      }
+    }
+  }
+
+  async convert(onImage: DocxImportOptions['onImage']): Promise<string> {
+    const doc = await this.load();
+    const body = descendant(doc.documentElement, 'body');
+    if (!body) throw new Error('找不到文档正文');
+    this.collectHeadingAnchors(body);
+
+    const container = document.createElement('div');
+    this.blocks(childElements(body), container);
+
+    // Upload each embedded image once, however often it is placed
+    const urls = new Map<string, Promise<string | null>>();
+    for (const { element, part } of this.images) {
+      if (!urls.has(part)) urls.set(part, this.imageUrl(part, onImage));
+      const url = await urls.get(part)!;
+      if (url) element.setAttribute('src', url);
+      else element.remove();
+    }
+
+    let markdown = await htmlToMarkdownAsync(container.innerHTML);
+
+    const definitions: string[] = [];
+    for (const [id, number] of this.footnoteNumbers) {
+      const note = document.createElement('p');
+      for (const p of childElements(this.footnotes.get(id)!, 'p')) {
+        if (note.childNodes.length) note.append(' ');
+        this.inline(p, note);
+      }
+      definitions.push(`[^${number}]: ${await htmlToMarkdownAsync(note.innerHTML)}`);
+    }
+    if (definitions.length) markdown += `\n\n${definitions.join('\n')}`;
+
+    return markdown + '\n';
+  }
+
+  private async imageUrl(part: string, onImage: DocxImportOptions['onImage']): Promise<string | null> {
+    const data = await this.zip.read(part);
+    if (!data) return null;
+    const name = part.split('/').pop()!;
+    const extension = name.split('.').pop()!.toLowerCase();
+    return onImage(new File([data], name, { type: IMAGE_TYPES[extension] ?? 'application/octet-stream' }));
+  }
+
+  private blocks(elements: Element[], container: HTMLElement) {
+    // Open lists, innermost last, with the item new nested lists go into
+    let lists: { element: HTMLElement; level: number; item: HTMLElement | null }[] = [];
+    let group: HTMLElement | null = null;
+
+    for (const element of elements) {
+      if (element.localName === 'sdt' || element.localName === 'customXml' || element.localName === 'ins') {
+        this.blocks(childElements(element.localName === 'sdt' ? childElement(element, 'sdtContent') : element), container);
+        lists = [];
+        group = null;
+        continue;
+      }
+      if (element.localName === 'tbl') {
+        container.append(this.table(element));
+        lists = [];
+        group = null;
+        continue;
+      }
+      if (element.localName !== 'p') continue;
+
+      const p = element;
+      const kind = this.blockKind(p);
+      if (kind === 'toc') {
+        if (!this.tocEmitted) {
+          const marker = document.createElement('p');
+          marker.textContent = '[TOC]';
+          container.append(marker);
+          this.tocEmitted = true;
+        }
+        lists = [];
+        group = null;
+        continue;
+      }
+
+      const content = document.createDocumentFragment();
+      this.inline(p, content);
+      if (!content.textContent?.trim() && !content.querySelector('img')) continue;
+
+      const heading = kind === 'title' ? 1 : this.headingLevel(p);
+      const list = heading ? null : this.listLevel(p);
+
+      if (list) {
+        const { numId, level, format } = list;
+        const tag = format.ordered ? 'OL' : 'UL';
+        while (lists.length && lists[lists.length - 1].level > level) lists.pop();
+        if (lists.length && lists[lists.length - 1].level === level && lists[lists.length - 1].element.tagName !== tag) lists.pop();
+
+        const counts = this.counters.get(numId) ?? [];
+        counts[level] = (counts[level] ?? format.start - 1) + 1;
+        counts.length = level + 1;
+        this.counters.set(numId, counts);
+
+        if (!lists.length || lists[lists.length - 1].level < level) {
+          const listElement = document.createElement(tag);
+          if (format.ordered && counts[level] !== 1) listElement.setAttribute('start', String(counts[level]));
+          const parent = lists[lists.length - 1];
+          if (parent && !parent.item) parent.element.append(parent.item = document.createElement('li'));
+          (parent?.item ?? container).append(listElement);
+          lists.push({ element: listElement, level, item: null });
+        }
+        const current = lists[lists.length - 1];
+        current.item = document.createElement('li');
+        current.item.append(content);
+        current.element.append(current.item);
+        group = null;
+        continue;
+      }
+      lists = [];
+
+      if (heading) {
+        const element = document.createElement(`h${heading}`);
+        element.append(content);
+        container.append(element);
+        group = null;
+      } else if (kind === 'code') {
+        if (group?.tagName !== 'PRE') {
+          group = document.createElement('pre');
+          group.append(document.createElement('code'));
+          container.append(group);
+        } else {
+          group.firstChild!.appendChild(document.createTextNode('\n'));
+        }
+        group.firstChild!.appendChild(document.createTextNode(content.textContent ?? ''));
+      } else {
+        const paragraph = document.createElement('p');
+        paragraph.append(content);
+        if (kind === 'quote') {
+          if (group?.tagName !== 'BLOCKQUOTE') container.append(group = document.createElement('blockquote'));
+          group.append(paragraph);
+        } else {
+          container.append(paragraph);
+          group = null;
+        }
+      }
+    }
+  }
+
+  private table(tbl: Element): HTMLElement {
+    const table = document.createElement('table');
+    const head = table.appendChild(document.createElement('thead'));
+    const body = table.appendChild(document.createElement('tbody'));
+
+    childElements(tbl, 'tr').forEach((tr, rowIndex) => {
+      const row = (rowIndex === 0 ? head : body).appendChild(document.createElement('tr'));
+      for (const tc of childElements(tr, 'tc')) {
+        const tcPr = childElement(tc, 'tcPr');
+        const cell = row.appendChild(document.createElement(rowIndex === 0 ? 'th' : 'td'));
+        // Vertically merged cells only keep their content in the first row
+        const vMerge = childElement(tcPr, 'vMerge');
+        if (!vMerge || attr(vMerge, 'val') === 'restart') this.cellContent(tc, cell);
+
+        const align = attr(childElement(childElement(descendant(tc, 'p') ?? tc, 'pPr'), 'jc'), 'val');
+        if (rowIndex === 0 && align && align !== 'both') cell.setAttribute('align', align === 'end' ? 'right' : align === 'start' ? 'left' : align);
+
+        // Spanned columns still need a cell each in markdown
+        const span = parseInt(attr(childElement(tcPr, 'gridSpan'), 'val') ?? '1', 10) || 1;
+        for (let i = 1; i < span; i++) row.appendChild(document.createElement(rowIndex === 0 ? 'th' : 'td'));
+      }
+    });
+    return table;
+  }
+
+  /** Markdown cells are a single line, so paragraphs and nested tables are flattened. */
+  private cellContent(tc: Element, cell: HTMLElement) {
+    for (const p of Array.from(tc.getElementsByTagNameNS('*', 'p'))) {
+      const content = document.createDocumentFragment();
+      this.inline(p, content);
+      if (!content.textContent?.trim() && !content.querySelector('img')) continue;
+      if (cell.childNodes.length) cell.append(document.createElement('br'));
+      cell.append(content);
+    }
+  }
+
+  /** Append a paragraph's runs, links and images to `target`. */
+  private inline(parent: Element, target: Node) {
+    for (const element of childElements(parent)) {
+      switch (element.localName) {
+        case 'r':
+          this.run(element, target);
+          break;
+        case 'hyperlink': {
+          const id = relationshipId(element, 'id');
+          const anchor = attr(element, 'anchor');
+          const href = id ? this.relationships.get(id)?.target : anchor ? `#${this.bookmarks.get(anchor) ?? anchor}` : null;
+          const link = href ? document.createElement('a') : null;
+          if (link) link.setAttribute('href', href!);
+          this.inline(element, link ?? target);
+          if (link && link.childNodes.length) this.fieldTarget(target).appendChild(link);
+          break;
+        }
+        case 'fldSimple': {
+          const link = this.fieldLink(attr(element, 'instr') ?? '');
+          this.inline(element, link ?? target);
+          if (link && link.childNodes.length) this.fieldTarget(target).appendChild(link);
+          break;
+        }
+        case 'sdt':
+          this.inline(childElement(element, 'sdtContent') ?? element, target);
+          break;
+        case 'ins':
+        case 'smartTag':
+        case 'customXml':
+        case 'moveTo':
+          this.inline(element, target);
+          break;
+        case 'oMath':
+        case 'oMathPara': {
+          const text = Array.from(element.getElementsByTagNameNS('*', 't')).map(t => t.textContent).join('');
+          if (text) this.fieldTarget(target).appendChild(document.createTextNode(text));
+          break;
+        }
+      }
+    }
+  }
+
+  /** Hyperlink fields put their result into a link until the field ends. */
+  private fieldTarget(target: Node): Node {
+    for (let i = this.fields.length - 1; i >= 0; i--) {
+      const link = this.fields[i].link;
+      if (link && (target === link || target.contains(link))) return link;
+    }
+    return target;
+  }
+
+  private fieldLink(instruction: string): HTMLElement | null {
+    const match = instruction.match(/^\s*HYPERLINK\s+(?:\\l\s+)?"([^"]*)"(?:\s+\\l\s+"([^"]*)")?/i);
+    if (!match) return null;
+    const local = /\\l/.test(instruction);
+    const href = local ? `#${this.bookmarks.get(match[2] ?? match[1]) ?? match[2] ?? match[1]}` : match[1] + (match[2] ? `#${match[2]}` : '');
+    const link = document.createElement('a');
+    link.setAttribute('href', href);
+    return link;
+  }
+
+  private run(r: Element, target: Node) {
+    const rPr = childElement(r, 'rPr');
+    const style = this.styles.get(attr(childElement(rPr, 'rStyle'), 'val') ?? '');
+
+    let text = '';
+    const flush = () => {
+      if (text) this.appendText(this.fieldTarget(target), text, rPr, style);
+      text = '';
+    };
+
+    for (const element of childElements(r)) {
+      const field = this.fields[this.fields.length - 1];
+      switch (element.localName) {
+        case 'fldChar': {
+          flush();
+          const type = attr(element, 'fldCharType');
+          if (type === 'begin') this.fields.push({ instruction: '', inResult: false, link: null });
+          else if (type === 'separate' && field) {
+            field.inResult = true;
+            field.link = this.fieldLink(field.instruction);
+            if (field.link) this.fieldTarget(target).appendChild(field.link);
+          } else if (type === 'end') this.fields.pop();
+          continue;
+        }
+        case 'instrText':
+          if (field && !field.inResult) field.instruction += element.textContent ?? '';
+          continue;
+      }
+      // Field instructions are not document text
+      if (this.fields.some(open => !open.inResult)) continue;
+
+      switch (element.localName) {
+        case 't':
+          text += element.textContent ?? '';
+          break;
+        case 'tab':
+        case 'ptab':
+          text += ' ';
+          break;
+        case 'noBreakHyphen':
+          text += '-';
+          break;
+        case 'sym': {
+          const code = parseInt(attr(element, 'char') ?? '', 16);
+          // Symbol font glyphs live in the private use area and mean nothing elsewhere
+          if (code && (code < 0xe000 || code > 0xf8ff)) text += String.fromCodePoint(code);
+          break;
+        }
+        case 'br':
+        case 'cr':
+          if (attr(element, 'type') === 'page' || attr(element, 'type') === 'column') break;
+          flush();
+          this.fieldTarget(target).appendChild(document.createElement('br'));
+          break;
+        case 'drawing':
+        case 'pict':
+        case 'object':
+          flush();
+          this.image(element, this.fieldTarget(target));
+          break;
+        case 'footnoteReference': {
+          const id = attr(element, 'id') ?? '';
+          if (!this.footnotes.has(id)) break;
+          if (!this.footnoteNumbers.has(id)) this.footnoteNumbers.set(id, this.footnoteNumbers.size + 1);
+          flush();
+          this.fieldTarget(target).appendChild(document.createTextNode(`[^${this.footnoteNumbers.get(id)}]`));
+          break;
+        }
+      }
+    }
+    flush();
+  }
+
+  private appendText(target: Node, text: string, rPr: Element | null, style: Style | undefined) {
+    if (isOn(childElement(rPr, 'vanish'))) return;
+    if (isOn(childElement(rPr, 'caps'))) text = text.toUpperCase();
+
+    // Markdown emphasis can't start or end with a space, so keep it outside
+    const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (leading) target.appendChild(document.createTextNode(leading));
+    if (core) {
+      let node: Node = document.createTextNode(core);
+      for (const [tag, test] of [...RUN_FORMATS].reverse()) {
+        if (!test(rPr, style)) continue;
+        const wrapper = document.createElement(tag);
+        wrapper.appendChild(node);
+        node = wrapper;
+      }
+      this.appendMerged(target, node);
+    }
+    if (trailing) target.appendChild(document.createTextNode(trailing));
+  }
+
+  /** Word splits text into many runs; merge neighbours with the same formatting. */
+  private appendMerged(target: Node, node: Node) {
+    let previous = target.lastChild;
+    let gap: Node | null = null;
+    if (previous?.nodeType === Node.TEXT_NODE && !previous.textContent?.trim() && previous.previousSibling) {
+      gap = previous;
+      previous = previous.previousSibling;
+    }
+    if (
+      previous instanceof HTMLElement && node instanceof HTMLElement &&
+      previous.tagName === node.tagName && MERGEABLE_TAGS.has(node.tagName)
+    ) {
+      if (gap) previous.appendChild(gap);
+      for (const child of Array.from(node.childNodes)) this.appendMerged(previous, child);
+      return;
+    }
+    target.appendChild(node);
+  }
+
+  private image(element: Element, target: Node) {
+    const blip = descendant(element, 'blip') ?? descendant(element, 'imagedata');
+    const id = blip && (relationshipId(blip, 'embed') ?? relationshipId(blip, 'id'));
+    const relationship = id ? this.relationships.get(id) : null;
+    if (!relationship || relationship.external) return;
+
+    const properties = descendant(element, 'docPr');
+    const img = document.createElement('img');
+    img.setAttribute('alt', attr(properties, 'descr') || attr(properties, 'title') || attr(blip, 'title') || '');
+    target.appendChild(img);
+    this.images.push({ element: img, part: relationship.target });
+  }
+}
+
+async function documentPart(zip: ZipPackage): Promise<string> {
+  const relationships = await readRelationships(zip, '');
+  const main = [...relationships.values()].find(({ target }) => /document\d*\.xml$/.test(target));
+  return main?.target ?? 'word/document.xml';
+}
+
+/**
+ * Convert a .docx file to markdown. Title and author from the document
+ * properties go into front matter, like the exports read them back.
+ */
+export async function importDocx(file: Blob, options: DocxImportOptions): Promise<string> {
+  const zip = await ZipPackage.open(file);
+  const markdown = await new DocxConverter(zip, await documentPart(zip)).convert(options.onImage);
+
+  const core = await zip.xml('docProps/core.xml');
+  const property = (name: string) => core?.getElementsByTagNameNS('*', name)[0]?.textContent?.trim() || null;
+  const title = property('title');
+  const author = property('creator');
+  const updates: Record<string, string> = {};
+  if (title) updates.title = title;
+  if (author) updates.author = author;
+  return Object.keys(updates).length ? updateFrontMatter(markdown, updates) : markdown;
+}
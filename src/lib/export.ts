@@ -1,16 +1,43 @@
 import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
-import { marked } from 'marked';
+import { Packer } from 'docx';
+import { ALERT_COLORS, type AlertType } from '@/lib/alerts';
+import { createDocxDocument, type DocxOptions } from '@/lib/docx-export';
+import { createVectorPdf, type VectorPdfOptions } from '@/lib/vector-pdf';
+import { createStandaloneHtml, renderedContentCss, type HtmlExportOptions } from '@/lib/html-export';
+import { parseMarkdown, renderMarkdown, type RenderOptions } from '@/lib/markdown-pipeline';
+import { documentAuthor, documentMetadata, fieldText, parseFrontMatter, stripFrontMatter } from '@/lib/front-matter';
+
+// Alert colors for exported HTML, which must survive the exports' color resets
+const ALERT_STYLES = (Object.entries(ALERT_COLORS) as [AlertType, string][])
+  .map(([type, color]) => `.markdown-alert-${type} { border-left-color: #${color} !important; } .markdown-alert-${type} .markdown-alert-title { color: #${color} !important; }`)
+  .join('\n');
+
+/**
+ * The element to export: the mounted preview, or markdown rendered through
+ * the preview's pipeline with its typography when none is mounted
+ */
+async function exportSource(source: HTMLElement | string, options: RenderOptions): Promise<HTMLElement> {
+  if (typeof source !== 'string') return source;
+  const element = await renderMarkdown(source, options);
+  element.className = 'prose prose-slate max-w-none mx-auto';
+  return element;
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
 
 /**
  * Export content as PNG image
  */
 export async function exportToPNG(
-  element: HTMLElement,
-  filename: string = 'document.png'
+  source: HTMLElement | string,
+  filename: string = 'document.png',
+  options: Pick<RenderOptions, 'resolveImage'> = {}
 ): Promise<void> {
   try {
+    const element = await exportSource(source, options);
+
     // Create a wrapper with fixed width for consistent export
     const wrapper = document.createElement('div');
     wrapper.style.position = 'absolute';
@@ -23,6 +50,8 @@ export async function exportToPNG(
     wrapper.style.overflow = 'visible';
     wrapper.className = element.className;
     wrapper.innerHTML = element.innerHTML;
+    // Leave out the preview's own chrome: the front matter card and the stylesheet it keeps inline
+    wrapper.querySelectorAll('.front-matter-card, script, style:not(svg style)').forEach(node => node.remove());
 
     document.body.appendChild(wrapper);
 
@@ -69,6 +98,7 @@ export async function exportToPNG(
             border-color: #e5e7eb !important;
             color: #000000 !important;
           }
+          ${ALERT_STYLES}
         `;
         clonedDoc.head.appendChild(style);
       }
@@ -98,10 +128,14 @@ export async function exportToPNG(
  * Export content as PDF using browser print (Typora-quality)
  * This provides the best pagination and formatting
  */
-export function exportToPDFWithPrint(markdown: string, documentFilename?: string): void {
+export async function exportToPDFWithPrint(
+  markdown: string,
+  documentFilename?: string,
+  options: Pick<RenderOptions, 'resolveImage'> = {}
+): Promise<void> {
   try {
     // Extract title from markdown or use filename
-    const titleMatch = markdown.match(/^#\s+(.+)$/m);
+    const titleMatch = stripFrontMatter(markdown).match(/^#\s+(.+)$/m);
     let title = titleMatch ? titleMatch[1].trim() : '文档';
 
     // If filename is provided and different from default, use it
@@ -109,17 +143,29 @@ export function exportToPDFWithPrint(markdown: string, documentFilename?: string
       title = documentFilename.replace(/\.md$/i, '');
     }
 
+    // The front matter title wins over both
+    title = fieldText(parseFrontMatter(markdown)?.fields.title).trim() || title;
+    const author = documentAuthor(markdown);
+
     // Clean title - remove invalid characters
-    title = title.replace(/[<>:"/\\|?*\x00-\x1f]/g, '').trim();
+    title = title.replace(/[<>:"/\\|?*\p{Cc}]/gu, '').trim();
 
-    // Create a new window for printing
+    // Create a new window for printing, before rendering gives up the user gesture
     const printWindow = window.open('', '_blank');
     if (!printWindow) {
       throw new Error('无法打开打印窗口，请检查浏览器弹窗设置');
     }
 
-    // Convert markdown to HTML
-    const htmlContent = marked(markdown);
+    // Convert markdown to HTML the way the preview does
+    let container: HTMLElement;
+    try {
+      container = await renderMarkdown(markdown, options);
+    } catch (error) {
+      printWindow.close();
+      throw error;
+    }
+    const htmlContent = container.innerHTML;
+    const contentCss = await renderedContentCss(container);
 
     // Write the print document with proper styling
     printWindow.document.write(`
@@ -128,6 +174,8 @@ export function exportToPDFWithPrint(markdown: string, documentFilename?: string
       <head>
         <meta charset="UTF-8">
         <title>${title}</title>
+        ${author ? `<meta name="author" content="${escapeAttribute(author)}">` : ''}
+        <style>${contentCss}</style>
         <style>
           * {
             margin: 0;
@@ -222,13 +270,25 @@ export function exportToPDFWithPrint(markdown: string, documentFilename?: string
             overflow-y: auto;
           }
 
-          pre code {
+          pre code, pre code.hljs {
             background-color: transparent;
             padding: 0;
             border: none;
             font-size: 0.9em;
           }
 
+          .mermaid {
+            display: flex;
+            justify-content: center;
+            margin-bottom: 0.8em;
+            page-break-inside: avoid;
+          }
+
+          .mermaid svg {
+            max-width: 100%;
+            height: auto;
+          }
+
           blockquote {
             border-left: 4px solid #2563eb;
             padding-left: 1em;
@@ -281,6 +341,70 @@ export function exportToPDFWithPrint(markdown: string, documentFilename?: string
             page-break-inside: avoid;
           }
 
+          /* 目录 */
+          .toc {
+            margin: 1em 0 1.5em;
+            padding: 0.5em 1em;
+            border-left: 3px solid #2563eb;
+            page-break-inside: avoid;
+          }
+
+          .toc ul {
+            list-style: none;
+            margin-left: 1.25em;
+            margin-bottom: 0;
+          }
+
+          .toc > ul {
+            margin-left: 0;
+          }
+
+          /* 提示块 */
+          .markdown-alert {
+            border-left: 4px solid;
+            padding: 0.5em 1em;
+            margin-bottom: 0.8em;
+            page-break-inside: avoid;
+          }
+
+          .markdown-alert-title {
+            font-weight: 600;
+            margin-bottom: 0.3em;
+          }
+
+          ${ALERT_STYLES}
+
+          /* 定义列表 */
+          dl {
+            margin-bottom: 0.8em;
+          }
+
+          dt {
+            font-weight: 600;
+            margin-top: 0.5em;
+          }
+
+          dd {
+            margin-left: 2em;
+            margin-bottom: 0.3em;
+          }
+
+          /* 脚注 */
+          .footnotes {
+            margin-top: 2em;
+            padding-top: 0.5em;
+            border-top: 1px solid #e5e7eb;
+            font-size: 0.9em;
+          }
+
+          .footnotes .sr-only {
+            display: none;
+          }
+
+          [data-footnote-ref], .data-footnote-backref {
+            text-decoration: none;
+          }
+
           /* 只有代码块、表格、图片避免分页切断 */
           pre, table, img {
             break-inside: avoid;
@@ -342,122 +466,21 @@ export function exportToPDFWithPrint(markdown: string, documentFilename?: string
 }
 
 /**
- * Export content as PDF
+ * Export the rendered preview as a vector PDF with selectable text and
+ * heading bookmarks
  */
 export async function exportToPDF(
-  element: HTMLElement,
-  filename: string = 'document.pdf'
+  source: HTMLElement | string,
+  filename: string = 'document.pdf',
+  metadata: VectorPdfOptions = {},
+  options: Pick<RenderOptions, 'resolveImage'> = {}
 ): Promise<void> {
   try {
-    // Create a wrapper with fixed width for consistent exports
-    const A4_WIDTH_MM = 210;
-    const MM_TO_PX = 3.7795;
-    const A4_WIDTH_PX = Math.round(A4_WIDTH_MM * MM_TO_PX);
-
-    const wrapper = document.createElement('div');
-    wrapper.style.position = 'absolute';
-    wrapper.style.left = '-9999px';
-    wrapper.style.width = `${A4_WIDTH_PX}px`;
-    wrapper.style.minHeight = 'auto';
-    wrapper.style.height = 'auto';
-    wrapper.style.background = '#ffffff';
-    wrapper.style.padding = '40px';
-    wrapper.style.fontSize = '16px';
-    wrapper.style.lineHeight = '1.6';
-    wrapper.style.overflow = 'visible';
-    wrapper.className = element.className;
-    wrapper.innerHTML = element.innerHTML;
-
-    document.body.appendChild(wrapper);
-    wrapper.style.height = wrapper.scrollHeight + 'px';
-
-    const canvas = await html2canvas(wrapper, {
-      backgroundColor: '#ffffff',
-      scale: 1,
-      logging: false,
-      useCORS: true,
-      ignoreElements: (element) => false,
-      windowWidth: A4_WIDTH_PX,
-      windowHeight: wrapper.scrollHeight,
-      onclone: (clonedDoc) => {
-        const root = clonedDoc.documentElement;
-        root.style.setProperty('color-scheme', 'light');
-
-        const style = clonedDoc.createElement('style');
-        style.textContent = `
-          * {
-            color: #000000 !important;
-            background-color: transparent !important;
-            border-color: #e5e7eb !important;
-          }
-          body, div, span, p, h1, h2, h3, h4, h5, h6, ul, ol, li, blockquote, pre, code {
-            color: #000000 !important;
-          }
-          a {
-            color: #2563eb !important;
-          }
-          code, pre {
-            background-color: #f3f4f6 !important;
-            border: 1px solid #e5e7eb !important;
-          }
-          blockquote {
-            border-color: #2563eb !important;
-            color: #6b7280 !important;
-          }
-          table {
-            border-color: #e5e7eb !important;
-          }
-          th, td {
-            border-color: #e5e7eb !important;
-            color: #000000 !important;
-          }
-          /* Avoid breaking inside these elements */
-          h1, h2, h3, h4, h5, h6, p, ul, ol, blockquote, pre, table, li {
-            break-inside: avoid !important;
-          }
-          pre, code {
-            white-space: pre-wrap !important;
-            word-break: break-word !important;
-          }
-        `;
-        clonedDoc.head.appendChild(style);
-      }
-    });
-
-    document.body.removeChild(wrapper);
-
-    // Convert canvas to image data
-    const imgData = canvas.toDataURL('image/png');
-
-    const pdf = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4',
-    });
-
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const pageHeight = pdf.internal.pageSize.getHeight();
-
-    const imgWidth = pageWidth;
-    const imgHeight = (canvas.height * pageWidth) / canvas.width;
-
-    // Calculate total pages needed
-    const totalPages = Math.ceil(imgHeight / pageHeight);
-
-    for (let i = 0; i < totalPages; i++) {
-      if (i > 0) {
-        pdf.addPage();
-      }
-
-      // Calculate Y position to show the correct portion of the image
-      const yPosition = -(i * pageHeight);
-      pdf.addImage(imgData, 'PNG', 0, yPosition, imgWidth, imgHeight);
-    }
-
+    const pdf = await createVectorPdf(await exportSource(source, options), metadata);
     pdf.save(filename);
   } catch (error) {
     console.error('PDF export failed:', error);
-    throw new Error('PDF 导出失败');
+    throw new Error(error instanceof Error && error.message ? error.message : 'PDF 导出失败');
   }
 }
 
@@ -466,147 +489,12 @@ export async function exportToPDF(
  */
 export async function exportToDOCX(
   markdown: string,
-  filename: string = 'document.docx'
+  filename: string = 'document.docx',
+  options: Pick<DocxOptions, 'resolveImage'> = {}
 ): Promise<void> {
   try {
-    const tokens = marked.lexer(markdown);
-    const docChildren: any[] = [];
-
-    tokens.forEach((token) => {
-      switch (token.type) {
-        case 'heading':
-          const level = token.depth as 1 | 2 | 3 | 4 | 5 | 6;
-          const headingLevel = `HEADING_${level}` as keyof typeof HeadingLevel;
-          docChildren.push(
-            new Paragraph({
-              text: token.text,
-              heading: HeadingLevel[headingLevel.replace('HEADING_', '') as unknown as 1 | 2 | 3 | 4 | 5 | 6],
-              spacing: {
-                before: 240,
-                after: 120,
-              },
-            })
-          );
-          break;
-
-        case 'paragraph':
-          // Handle bold, italic, and other inline formatting
-          const textRuns = extractTextRuns(token.text);
-          docChildren.push(
-            new Paragraph({
-              children: textRuns,
-              spacing: {
-                after: 120,
-              },
-            })
-          );
-          break;
-
-        case 'code':
-          docChildren.push(
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: token.text,
-                  font: 'Courier New',
-                  size: 20,
-                }),
-              ],
-              shading: {
-                fill: 'F5F5F5',
-              },
-              spacing: {
-                before: 120,
-                after: 120,
-              },
-            })
-          );
-          break;
-
-        case 'blockquote':
-          docChildren.push(
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: token.text,
-                  italics: true,
-                  color: '666666',
-                }),
-              ],
-              indent: {
-                left: 720,
-              },
-              spacing: {
-                before: 120,
-                after: 120,
-              },
-            })
-          );
-          break;
-
-        case 'list':
-          token.items.forEach((item: string) => {
-            docChildren.push(
-              new Paragraph({
-                text: item,
-                bullet: {
-                  level: 0,
-                },
-                spacing: {
-                  after: 60,
-                },
-              })
-            );
-          });
-          break;
-
-        case 'hr':
-          docChildren.push(
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: '',
-                  border: {
-                    bottom: {
-                      color: '000000',
-                      space: 1,
-                      value: 'single',
-                      size: 6,
-                    },
-                  } as any,
-                }),
-              ],
-              spacing: {
-                before: 120,
-                after: 120,
-              },
-            })
-          );
-          break;
-
-        default:
-          if (token.raw) {
-            docChildren.push(
-              new Paragraph({
-                text: token.raw,
-                spacing: {
-                  after: 120,
-                },
-              })
-            );
-          }
-          break;
-      }
-    });
-
-    const doc = new Document({
-      sections: [
-        {
-          properties: {},
-          children: docChildren,
-        },
-      ],
-    });
+    const { author, ...metadata } = documentMetadata(markdown);
+    const doc = await createDocxDocument(parseMarkdown(markdown), { ...options, ...metadata, creator: author });
 
     const blob = await Packer.toBlob(doc);
     const url = URL.createObjectURL(blob);
@@ -624,37 +512,27 @@ export async function exportToDOCX(
 }
 
 /**
- * Extract text runs with formatting (bold, italic, code)
+ * Export the rendered document as a single self-contained HTML file
  */
-function extractTextRuns(text: string): TextRun[] {
-  const runs: TextRun[] = [];
-  let remainingText = text;
-
-  // Pattern for inline code
-  const codePattern = /`([^`]+)`/g;
-  // Pattern for bold
-  const boldPattern = /\*\*([^*]+)\*\*/g;
-  // Pattern for italic
-  const italicPattern = /\*([^*]+)\*/g;
-  // Pattern for links
-  const linkPattern = /\[([^\]]+)\]\(([^)]+)\)/g;
-
-  // Simple implementation - split by formatting patterns
-  let lastIndex = 0;
-  const patterns = [
-    { regex: codePattern, format: 'code' },
-    { regex: boldPattern, format: 'bold' },
-    { regex: italicPattern, format: 'italic' },
-    { regex: linkPattern, format: 'link' },
-  ];
-
-  // For now, just return the text as a single run
-  // TODO: Implement proper parsing for nested formatting
-  runs.push(
-    new TextRun({
-      text: text,
-    })
-  );
-
-  return runs;
+export async function exportToHTML(
+  markdown: string,
+  filename: string = 'document.html',
+  options: Pick<HtmlExportOptions, 'theme' | 'toc' | 'inlineImages' | 'resolveImage'> = {}
+): Promise<void> {
+  try {
+    const html = await createStandaloneHtml(markdown, { ...options, ...documentMetadata(markdown) });
+
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('HTML export failed:', error);
+    throw new Error('HTML 导出失败');
+  }
 }
@@ -24,6 +24,7 @@ export interface FileSystemDirectoryHandle extends FileSystemHandle {
   entries: () => AsyncIterableIterator<[string, FileSystemHandle]>;
   getDirectoryHandle: (name: string, options?: { create?: boolean }) => Promise<FileSystemDirectoryHandle>;
   getFileHandle: (name: string, options?: { create?: boolean }) => Promise<FileSystemFileHandle>;
+  removeEntry: (name: string, options?: { recursive?: boolean }) => Promise<void>;
 }
 
 export interface FileNode {
@@ -45,6 +46,17 @@ declare global {
   }
 }
 
+export function createRootNode(handle: FileSystemFileHandle | FileSystemDirectoryHandle): FileNode {
+  return {
+    id: nanoid(),
+    name: handle.name,
+    kind: handle.kind,
+    handle: handle,
+    children: handle.kind === 'directory' ? [] : undefined,
+    level: 0
+  };
+}
+
 export async function openDirectory(): Promise<FileNode | null> {
   if (!window.showDirectoryPicker) {
     throw new Error("NOT_SUPPORTED");
@@ -52,15 +64,7 @@ export async function openDirectory(): Promise<FileNode | null> {
 
   try {
     const handle = await window.showDirectoryPicker();
-    const root: FileNode = {
-      id: nanoid(),
-      name: handle.name,
-      kind: 'directory',
-      handle: handle,
-      children: [],
-      level: 0
-    };
-    return root;
+    return createRootNode(handle);
   } catch (err) {
     if ((err as Error).name === 'AbortError') {
       return null; // User cancelled
@@ -174,29 +178,265 @@ export function sortFileNodes(nodes: FileNode[]) {
   });
 }
 
-export async function readFileContent(fileNode: FileNode): Promise<string> {
+export interface FileSnapshot {
+  content: string;
+  lastModified: number;
+}
+
+export async function getFile(fileNode: FileNode): Promise<File> {
   if (fileNode.kind !== 'file') throw new Error("Not a file");
-  
-  let file: File;
+
   if (fileNode.handle) {
     const handle = fileNode.handle as FileSystemFileHandle;
-    file = await handle.getFile();
+    return await handle.getFile();
   } else if (fileNode.file) {
-    file = fileNode.file;
-  } else {
-    throw new Error("No file source found");
+    return fileNode.file;
   }
-  
+  throw new Error("No file source found");
+}
+
+export async function readFileContent(fileNode: FileNode): Promise<string> {
+  const file = await getFile(fileNode);
   return await file.text();
 }
 
-async function verifyPermission(fileHandle: FileSystemFileHandle | FileSystemDirectoryHandle, withWrite: boolean) {
+// Content together with the modification time it was read at, so later
+// changes made by other programs can be detected.
+export async function readFileSnapshot(fileNode: FileNode): Promise<FileSnapshot> {
+  const file = await getFile(fileNode);
+  return { content: await file.text(), lastModified: file.lastModified };
+}
+
+// Legacy File objects are frozen copies, so only handle-backed files can
+// report changes made after they were opened.
+export async function getFileLastModified(fileNode: FileNode): Promise<number | null> {
+  if (!fileNode.handle || fileNode.kind !== 'file') return null;
+  const file = await (fileNode.handle as FileSystemFileHandle).getFile();
+  return file.lastModified;
+}
+
+export function findParentNode(root: FileNode, target: FileNode): FileNode | null {
+  for (const child of root.children || []) {
+    if (child.id === target.id) return root;
+    if (child.kind === 'directory') {
+      const found = findParentNode(child, target);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// Nodes from the root down to `target`, or null when it isn't in the tree
+export function getNodeChain(root: FileNode, target: FileNode): FileNode[] | null {
+  if (root.id === target.id) return [root];
+  for (const child of root.children || []) {
+    const chain = getNodeChain(child, target);
+    if (chain) return [root, ...chain];
+  }
+  return null;
+}
+
+export function isRelativeUrl(url: string): boolean {
+  return !!url && !url.startsWith('#') && !url.startsWith('//') && !/^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+/**
+ * Resolve a relative URL as written in `baseNode` (a file, or a directory
+ * for documents without one) to a node of the tree. A leading `/` starts
+ * from the root. Directories on the way are loaded if needed.
+ */
+export async function resolveRelativeNode(root: FileNode, baseNode: FileNode, url: string): Promise<FileNode | null> {
+  const chain = getNodeChain(root, baseNode);
+  if (!chain) return null;
+
+  let path: string;
+  try {
+    path = decodeURIComponent(url.replace(/[?#].*$/, ''));
+  } catch {
+    return null;
+  }
+
+  const stack = path.startsWith('/')
+    ? [root]
+    : baseNode.kind === 'file' ? chain.slice(0, -1) : chain;
+
+  for (const segment of path.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (stack.length <= 1) return null;
+      stack.pop();
+      continue;
+    }
+
+    const directory = stack[stack.length - 1];
+    if (directory.kind !== 'directory') return null;
+    if (directory.handle && (!directory.children || directory.children.length === 0)) {
+      directory.children = await readDirectoryEntries(directory);
+    }
+    const next = directory.children?.find(child => child.name === segment);
+    if (!next) return null;
+    stack.push(next);
+  }
+
+  return stack[stack.length - 1];
+}
+
+export function isDescendantNode(ancestor: FileNode, node: FileNode): boolean {
+  return (ancestor.children || []).some(child => child.id === node.id || isDescendantNode(child, node));
+}
+
+// Re-read a directory, keeping the existing nodes (and their ids, which
+// open tabs refer to) for entries that are still there.
+export async function refreshDirectory(directoryNode: FileNode): Promise<FileNode[]> {
+  const existing = new Map((directoryNode.children || []).map(child => [`${child.kind}:${child.name}`, child]));
+  const entries = await readDirectoryEntries(directoryNode);
+
+  const children = entries.map(entry => {
+    const previous = existing.get(`${entry.kind}:${entry.name}`);
+    if (!previous) return entry;
+    previous.handle = entry.handle;
+    previous.level = entry.level;
+    return previous;
+  });
+
+  directoryNode.children = children;
+  return children;
+}
+
+async function getWritableDirectory(directoryNode: FileNode): Promise<FileSystemDirectoryHandle> {
+  if (directoryNode.kind !== 'directory') throw new Error("Not a directory");
+  if (!directoryNode.handle) throw new Error("LEGACY_MODE");
+
+  const handle = directoryNode.handle as FileSystemDirectoryHandle;
+  if (!(await verifyPermission(handle, true))) {
+    throw new Error("PERMISSION_DENIED");
+  }
+  return handle;
+}
+
+async function entryExists(directory: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  for await (const [entryName] of directory.entries()) {
+    if (entryName === name) return true;
+  }
+  return false;
+}
+
+export async function createFileEntry(directoryNode: FileNode, name: string): Promise<FileNode> {
+  const directory = await getWritableDirectory(directoryNode);
+  if (await entryExists(directory, name)) throw new Error("ALREADY_EXISTS");
+
+  await directory.getFileHandle(name, { create: true });
+  const children = await refreshDirectory(directoryNode);
+  return children.find(child => child.kind === 'file' && child.name === name)!;
+}
+
+export async function createDirectoryEntry(directoryNode: FileNode, name: string): Promise<FileNode> {
+  const directory = await getWritableDirectory(directoryNode);
+  if (await entryExists(directory, name)) throw new Error("ALREADY_EXISTS");
+
+  await directory.getDirectoryHandle(name, { create: true });
+  const children = await refreshDirectory(directoryNode);
+  return children.find(child => child.kind === 'directory' && child.name === name)!;
+}
+
+export async function deleteEntry(parentNode: FileNode, node: FileNode): Promise<void> {
+  const directory = await getWritableDirectory(parentNode);
+  await directory.removeEntry(node.name, { recursive: true });
+  await refreshDirectory(parentNode);
+}
+
+async function copyHandle(
+  source: FileSystemFileHandle | FileSystemDirectoryHandle,
+  target: FileSystemDirectoryHandle,
+  name: string
+): Promise<FileSystemFileHandle | FileSystemDirectoryHandle> {
+  if (source.kind === 'file') {
+    const file = await (source as FileSystemFileHandle).getFile();
+    const copy = await target.getFileHandle(name, { create: true });
+    const writable = await copy.createWritable();
+    await writable.write(file);
+    await writable.close();
+    return copy;
+  }
+
+  const copy = await target.getDirectoryHandle(name, { create: true });
+  for await (const [childName, child] of (source as FileSystemDirectoryHandle).entries()) {
+    await copyHandle(child as FileSystemFileHandle | FileSystemDirectoryHandle, copy, childName);
+  }
+  return copy;
+}
+
+// Point already loaded nodes at the copies so open tabs keep working
+async function rebindNode(
+  node: FileNode,
+  handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+  level: number
+): Promise<void> {
+  node.handle = handle;
+  node.level = level;
+  if (node.kind !== 'directory' || !node.children) return;
+
+  const directory = handle as FileSystemDirectoryHandle;
+  for (const child of node.children) {
+    const childHandle = child.kind === 'directory'
+      ? await directory.getDirectoryHandle(child.name)
+      : await directory.getFileHandle(child.name);
+    await rebindNode(child, childHandle, level + 1);
+  }
+}
+
+/**
+ * Move (or rename) an entry by copying it to the destination and deleting
+ * the original, since handles can't be moved portably.
+ */
+export async function moveEntry(
+  parentNode: FileNode,
+  node: FileNode,
+  targetNode: FileNode,
+  newName: string = node.name
+): Promise<void> {
+  if (!node.handle) throw new Error("LEGACY_MODE");
+  if (node.id === targetNode.id || isDescendantNode(node, targetNode)) {
+    throw new Error("INVALID_TARGET");
+  }
+
+  // On case-insensitive file systems the copy would overwrite the original,
+  // so case-only renames go through a temporary name
+  if (parentNode.id === targetNode.id && newName !== node.name && newName.toLowerCase() === node.name.toLowerCase()) {
+    await moveEntry(parentNode, node, targetNode, `${newName}.${nanoid(6)}.tmp`);
+    return moveEntry(parentNode, node, targetNode, newName);
+  }
+
+  const source = await getWritableDirectory(parentNode);
+  const target = await getWritableDirectory(targetNode);
+  if (await entryExists(target, newName)) throw new Error("ALREADY_EXISTS");
+
+  const copy = await copyHandle(node.handle, target, newName);
+  await source.removeEntry(node.name, { recursive: true });
+
+  await rebindNode(node, copy, targetNode.level + 1);
+  node.name = newName;
+
+  // Move the node object itself so its id survives, then pick up the rest
+  // of the destination in case it was never expanded
+  parentNode.children = (parentNode.children || []).filter(child => child.id !== node.id);
+  targetNode.children = [...(targetNode.children || []), node];
+  await refreshDirectory(targetNode);
+}
+
+// Asking (`prompt`) needs a user gesture, so pass false when checking
+// permission on startup.
+export async function verifyPermission(fileHandle: FileSystemFileHandle | FileSystemDirectoryHandle, withWrite: boolean, prompt: boolean = true) {
   const opts = { mode: withWrite ? 'readwrite' : 'read' };
   
   // @ts-ignore
   if ((await fileHandle.queryPermission(opts)) === 'granted') {
     return true;
   }
+
+  if (!prompt) {
+    return false;
+  }
   
   // @ts-ignore
   if ((await fileHandle.requestPermission(opts)) === 'granted') {
@@ -0,0 +1,11 @@
+/**
+ * Footnotes (`text[^1]` with `[^1]: note` anywhere in the document), parsed
+ * by remark-gfm: numbered references and a `section.footnotes` at the end
+ * whose notes link back to every reference, labelled as below.
+ */
+
+export const FOOTNOTE_LABEL = '脚注';
+
+export function footnoteBackLabel(referenceIndex: number, rereferenceIndex: number): string {
+  return `返回引用 ${referenceIndex + 1}${rereferenceIndex > 1 ? `-${rereferenceIndex}` : ''}`;
+}
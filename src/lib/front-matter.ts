@@ -0,0 +1,278 @@
+/**
+ * Front matter at the top of a document: YAML between `---` fences or TOML
+ * between `+++` fences. Only the flat fields documents use for metadata
+ * are read - strings, lists and block scalars - and edits rewrite just the
+ * lines of the fields they touch, so everything else stays as written.
+ */
+
+export const FRONT_MATTER_PATTERN = /^(---|\+\+\+)[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?\1[ \t]*(?=\r?\n|$)/;
+
+export type FrontMatterValue = string | string[];
+
+export interface FrontMatter {
+  format: 'yaml' | 'toml';
+  // The block with its fences, which starts the document
+  raw: string;
+  // Text between the fences
+  body: string;
+  fields: Record<string, FrontMatterValue>;
+}
+
+// A field and the lines of the body it takes up
+interface FieldLines {
+  key: string;
+  value: FrontMatterValue;
+  from: number;
+  to: number;
+}
+
+const YAML_KEY = /^([^\s#:'"-][^:#]*?|'[^']*'|"[^"]*")[ \t]*:(?:[ \t]+(.*))?$/;
+const TOML_KEY = /^([\w-]+|"[^"]*")[ \t]*=[ \t]*(.*)$/;
+const TOML_TABLE = /^\s*\[/;
+
+function unquote(text: string): string {
+  if (/^'.*'$/s.test(text)) return text.slice(1, -1).replace(/''/g, "'");
+  if (/^".*"$/s.test(text)) {
+    try {
+      return JSON.parse(text.replace(/\n/g, '\\n'));
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  return text;
+}
+
+// Drop a trailing `# comment` outside of quotes
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trim();
+}
+
+// Items of `[a, "b, c"]`
+function splitList(text: string): string[] {
+  const inner = text.trim().slice(1, -1);
+  const items: string[] = [];
+  let item = '';
+  let quote: string | null = null;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') item += char + (inner[++i] ?? '');
+      else {
+        if (char === quote) quote = null;
+        item += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      item += char;
+    } else if (char === ',') {
+      items.push(item);
+      item = '';
+    } else {
+      item += char;
+    }
+  }
+  items.push(item);
+  return items.map(value => unquote(value.trim())).filter(value => value !== '');
+}
+
+function dedent(lines: string[]): string[] {
+  const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length));
+  return lines.map(line => line.slice(Number.isFinite(indent) ? indent : 0));
+}
+
+function yamlValue(inline: string, block: string[]): FrontMatterValue {
+  const value = stripComment(inline);
+  if (/^[|>][+-]?\d*$/.test(value)) {
+    const lines = dedent(block);
+    const text = value.startsWith('|') ? lines.join('\n') : lines.map(line => line.trim()).join(' ');
+    return value.includes('+') ? text : text.replace(/\s+$/, '');
+  }
+  if (value.startsWith('[') && value.endsWith(']')) return splitList(value);
+  if (!value && block.some(line => /^\s*-(\s|$)/.test(line))) {
+    return block
+      .filter(line => /^\s*-(\s|$)/.test(line))
+      .map(line => unquote(stripComment(line.replace(/^\s*-\s*/, ''))));
+  }
+  // Nested maps stay as their text; plain scalars may continue on indented lines
+  if (!value) return dedent(block).join('\n').trim();
+  return unquote([value, ...block.map(line => stripComment(line))].join(' ').trim());
+}
+
+function parseYaml(body: string): FieldLines[] {
+  const lines = body.split(/\r?\n/);
+  const fields: FieldLines[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(YAML_KEY);
+    if (!match) continue;
+    const from = i;
+    // Everything indented below a key, and `- item` lines right under it, belong to it
+    while (i + 1 < lines.length && (/^(\s+|-(\s|$))/.test(lines[i + 1]) || lines[i + 1].trim() === '')) i++;
+    while (i > from && lines[i].trim() === '') i--;
+    const block = lines.slice(from + 1, i + 1).filter(line => !/^\s*#/.test(line));
+    fields.push({ key: unquote(match[1].trim()), value: yamlValue(match[2] ?? '', block), from, to: i + 1 });
+  }
+  return fields;
+}
+
+function tomlValue(text: string): FrontMatterValue {
+  const value = stripComment(text);
+  if (value.startsWith('[')) return splitList(value.replace(/\s*\n\s*/g, ' '));
+  if (/^("""|''')/.test(value)) return value.slice(3, -3).replace(/^\r?\n/, '');
+  return unquote(value);
+}
+
+// Only the top-level keys, before the first `[table]`
+function parseToml(body: string): FieldLines[] {
+  const lines = body.split(/\r?\n/);
+  const fields: FieldLines[] = [];
+
+  for (let i = 0; i < lines.length && !TOML_TABLE.test(lines[i]); i++) {
+    const match = lines[i].match(TOML_KEY);
+    if (!match) continue;
+    const from = i;
+    let text = match[2];
+    // Arrays and multi-line strings continue until they close
+    const multiline = text.match(/^("""|''')/)?.[1];
+    if (multiline) {
+      while (text.indexOf(multiline, 3) === -1 && i + 1 < lines.length) text += '\n' + lines[++i];
+    } else if (text.startsWith('[')) {
+      while (!stripComment(text).endsWith(']') && i + 1 < lines.length) text += '\n' + lines[++i];
+    }
+    fields.push({ key: unquote(match[1]), value: tomlValue(text), from, to: i + 1 });
+  }
+  return fields;
+}
+
+function fieldLines(frontMatter: FrontMatter): FieldLines[] {
+  return frontMatter.format === 'yaml' ? parseYaml(frontMatter.body) : parseToml(frontMatter.body);
+}
+
+export function parseFrontMatter(markdown: string): FrontMatter | null {
+  const match = markdown.match(FRONT_MATTER_PATTERN);
+  if (!match) return null;
+  const frontMatter: FrontMatter = {
+    format: match[1] === '---' ? 'yaml' : 'toml',
+    raw: match[0],
+    body: match[2] ?? '',
+    fields: {},
+  };
+  for (const { key, value } of fieldLines(frontMatter)) frontMatter.fields[key] = value;
+  return frontMatter;
+}
+
+/** The document without its front matter and the line break after it. */
+export function stripFrontMatter(markdown: string): string {
+  const match = markdown.match(FRONT_MATTER_PATTERN);
+  return match ? markdown.slice(match[0].length).replace(/^\r?\n/, '') : markdown;
+}
+
+/** The document with its front matter blanked out, so later lines keep their numbers. */
+export function blankFrontMatter(markdown: string): string {
+  const match = markdown.match(FRONT_MATTER_PATTERN);
+  return match ? match[0].replace(/[^\n]/g, '') + markdown.slice(match[0].length) : markdown;
+}
+
+/** A field as text, lists joined with commas. */
+export function fieldText(value: FrontMatterValue | undefined): string {
+  return Array.isArray(value) ? value.join(', ') : value ?? '';
+}
+
+/** Title of a document: its front matter `title`, else its first `# ` heading. */
+export function documentTitle(markdown: string): string | null {
+  const title = fieldText(parseFrontMatter(markdown)?.fields.title).trim();
+  if (title) return title;
+  const heading = stripFrontMatter(markdown).match(/^#\s+(.+?)\s*#*\s*$/m);
+  return heading ? heading[1].trim() : null;
+}
+
+export function documentAuthor(markdown: string): string | null {
+  const fields = parseFrontMatter(markdown)?.fields;
+  return fieldText(fields?.author ?? fields?.authors).trim() || null;
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  description?: string;
+  keywords?: string;
+}
+
+/** Properties written into exported files: front matter fields, with the title falling back to the first heading. */
+export function documentMetadata(markdown: string): DocumentMetadata {
+  const fields = parseFrontMatter(markdown)?.fields ?? {};
+  return {
+    title: documentTitle(markdown) ?? undefined,
+    author: documentAuthor(markdown) ?? undefined,
+    description: fieldText(fields.description).trim() || undefined,
+    keywords: fieldText(fields.tags ?? fields.keywords).trim() || undefined,
+  };
+}
+
+const PLAIN_YAML = /^(?![-?:,[\]{}#&*!|>'"%@`\s])(?!(?:true|false|yes|no|on|off|null|~|[-+]?[\d.]+(?:e[-+]?\d+)?)$)[^\n]*?(?<![\s:])$/i;
+
+function yamlScalar(value: string, inList = false): string {
+  const plain = PLAIN_YAML.test(value) && !/: | #/.test(value) && !(inList && /[,[\]{}]/.test(value));
+  return plain ? value : JSON.stringify(value);
+}
+
+function serialize(format: FrontMatter['format'], key: string, value: FrontMatterValue): string {
+  if (format === 'toml') {
+    const text = Array.isArray(value) ? `[${value.map(item => JSON.stringify(item)).join(', ')}]` : JSON.stringify(value);
+    return `${/^[\w-]+$/.test(key) ? key : JSON.stringify(key)} = ${text}`;
+  }
+  const text = Array.isArray(value) ? `[${value.map(item => yamlScalar(item, true)).join(', ')}]` : yamlScalar(value);
+  return `${yamlScalar(key)}: ${text}`;
+}
+
+/**
+ * Set or, with `null`, remove front matter fields. Fields that are already
+ * there are rewritten where they are and new ones are added at the end; a
+ * document without front matter gets a YAML block.
+ */
+export function updateFrontMatter(markdown: string, updates: Record<string, FrontMatterValue | null>): string {
+  const frontMatter = parseFrontMatter(markdown);
+  const format = frontMatter?.format ?? 'yaml';
+  const newline = frontMatter?.raw.includes('\r\n') ? '\r\n' : '\n';
+  const lines = frontMatter?.body ? frontMatter.body.split(/\r?\n/) : [];
+  const fields = frontMatter ? fieldLines(frontMatter) : [];
+
+  const added: string[] = [];
+  // Replace from the bottom up so earlier line numbers stay valid
+  const replacements: { from: number; to: number; lines: string[] }[] = [];
+  for (const [key, value] of Object.entries(updates)) {
+    const existing = fields.filter(field => field.key === key);
+    const text = value === null ? [] : [serialize(format, key, value)];
+    if (existing.length === 0) added.push(...text);
+    existing.forEach((field, index) => replacements.push({ from: field.from, to: field.to, lines: index === 0 ? text : [] }));
+  }
+  replacements.sort((a, b) => b.from - a.from).forEach(({ from, to, lines: text }) => lines.splice(from, to - from, ...text));
+
+  // TOML keys after a `[table]` would belong to it
+  const tableAt = format === 'toml' ? lines.findIndex(line => TOML_TABLE.test(line)) : -1;
+  if (tableAt >= 0) lines.splice(tableAt, 0, ...added);
+  else {
+    while (lines.length && lines[lines.length - 1].trim() === '') lines.pop();
+    lines.push(...added);
+  }
+
+  if (!frontMatter) {
+    return lines.length ? `---\n${lines.join('\n')}\n---\n\n${markdown}` : markdown;
+  }
+  const rest = markdown.slice(frontMatter.raw.length);
+  if (!lines.some(line => line.trim())) return rest.replace(/^\r?\n(\r?\n)?/, '');
+  const fence = format === 'yaml' ? '---' : '+++';
+  return `${fence}${newline}${lines.join(newline)}${newline}${fence}${rest}`;
+}
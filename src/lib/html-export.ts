@@ -0,0 +1,247 @@
+/**
+ * Standalone HTML export. The document is rendered through the preview's
+ * pipeline, Mermaid diagrams become inline SVG and all CSS (and optionally
+ * images and math fonts) is embedded, so the file opens anywhere without
+ * the app.
+ */
+import katexCss from 'katex/dist/katex.min.css?inline';
+import highlightLightCss from 'highlight.js/styles/github.css?inline';
+import highlightDarkCss from 'highlight.js/styles/github-dark.css?inline';
+import { renderMarkdown } from '@/lib/markdown-pipeline';
+import { ALERT_COLORS } from '@/lib/alerts';
+import { renderTocHtml, type TocEntry } from '@/lib/toc';
+import { isRelativeUrl } from '@/lib/file-system';
+
+export type HtmlTheme = 'light' | 'dark';
+
+export interface HtmlExportOptions {
+  theme?: HtmlTheme;
+  title?: string;
+  author?: string;
+  description?: string;
+  keywords?: string;
+  // Add a table of contents next to the document
+  toc?: boolean;
+  // Embed images as data URIs instead of linking them
+  inlineImages?: boolean;
+  // Object URL for an image path relative to the document
+  resolveImage?: (src: string) => Promise<string | null>;
+}
+
+// The app's own palettes, so the export looks like the preview
+const THEME_COLORS: Record<HtmlTheme, Record<string, string>> = {
+  light: {
+    background: 'oklch(0.98 0.005 240)',
+    foreground: 'oklch(0.20 0.02 240)',
+    primary: 'oklch(0.55 0.20 250)',
+    muted: 'oklch(0.95 0.01 240)',
+    'muted-foreground': 'oklch(0.50 0.02 240)',
+    border: 'oklch(0.88 0.01 240)',
+    mark: 'rgb(254 240 138 / 0.7)',
+  },
+  dark: {
+    background: 'oklch(0.12 0.01 240)',
+    foreground: 'oklch(0.92 0.01 240)',
+    primary: 'oklch(0.60 0.20 250)',
+    muted: 'oklch(0.20 0.01 240)',
+    'muted-foreground': 'oklch(0.60 0.01 240)',
+    border: 'oklch(0.25 0.01 240)',
+    mark: 'rgb(234 179 8 / 0.3)',
+  },
+};
+
+const BASE_CSS = `
+* { box-sizing: border-box; }
+html { scroll-behavior: smooth; }
+body {
+  margin: 0;
+  background: var(--background);
+  color: var(--foreground);
+  font-family: ui-sans-serif, system-ui, -apple-system, 'Segoe UI', 'PingFang SC', 'Microsoft YaHei', sans-serif;
+  font-size: 16px;
+  line-height: 1.75;
+  -webkit-font-smoothing: antialiased;
+}
+.layout { display: flex; justify-content: center; gap: 3rem; padding: 3rem 2rem 5rem; }
+.content { min-width: 0; width: 100%; max-width: 52rem; }
+.sidebar { position: sticky; top: 3rem; align-self: flex-start; width: 16rem; max-height: calc(100vh - 6rem); overflow-y: auto; font-size: 0.875rem; }
+.sidebar-title { font-weight: 600; margin-bottom: 0.5rem; }
+.sidebar ul { list-style: none; margin: 0; padding-left: 1rem; }
+.sidebar > nav > ul { padding-left: 0; }
+.sidebar li { margin: 0.25rem 0; }
+.sidebar a { color: var(--muted-foreground); text-decoration: none; }
+.sidebar a:hover { color: var(--primary); }
+@media (max-width: 64rem) {
+  .layout { flex-direction: column-reverse; align-items: center; }
+  .sidebar { position: static; width: 100%; max-width: 52rem; max-height: none; }
+}
+@media print {
+  .sidebar { display: none; }
+  .layout { padding: 0; }
+}
+
+h1, h2, h3, h4, h5, h6 { font-weight: 700; letter-spacing: -0.025em; line-height: 1.3; scroll-margin-top: 1rem; }
+h1 { font-size: 2.5rem; margin: 0 0 2rem; padding-bottom: 1rem; border-bottom: 1px solid var(--border); }
+h2 { font-size: 1.875rem; margin: 2.5rem 0 1.5rem; }
+h3 { font-size: 1.5rem; margin: 2rem 0 1rem; }
+h4, h5, h6 { margin: 1.5rem 0 0.75rem; }
+p { margin: 1.5rem 0 0; }
+p:first-child { margin-top: 0; }
+a { color: var(--primary); font-weight: 500; text-decoration: none; }
+a:hover { text-decoration: underline; }
+mark { background: var(--mark); color: inherit; border-radius: 0.125rem; padding: 0 0.125rem; }
+
+code { background: var(--muted); padding: 0.2rem 0.3rem; border-radius: 0.25rem; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875rem; }
+pre { background: var(--muted); border: 1px solid var(--border); border-radius: 0.5rem; padding: 1rem; overflow-x: auto; margin: 1.5rem 0; }
+pre code { background: transparent; padding: 0; display: block; }
+pre code.hljs { background: transparent; padding: 0; }
+
+ul, ol { margin: 1.5rem 0; padding-left: 1.5rem; }
+li { margin: 0.5rem 0; }
+li::marker { color: var(--muted-foreground); }
+blockquote { margin: 1.5rem 0; padding-left: 1.5rem; border-left: 4px solid color-mix(in oklch, var(--primary) 50%, transparent); color: var(--muted-foreground); font-style: italic; }
+
+table { width: 100%; margin: 1.5rem 0; border-collapse: collapse; font-size: 0.875rem; display: block; overflow-x: auto; }
+th { border-bottom: 1px solid var(--border); padding: 0 0.75rem 0.5rem 0; text-align: left; font-weight: 700; }
+td { border-bottom: 1px solid var(--border); padding: 0.5rem 0.75rem 0.5rem 0; }
+
+img { max-width: 100%; height: auto; display: block; margin: 2rem auto; border: 1px solid var(--border); border-radius: 0.5rem; }
+video { max-width: 100%; display: block; margin: 1.5rem auto; border-radius: 0.5rem; }
+hr { margin: 2.5rem 0; border: none; border-top: 1px solid var(--border); }
+.mermaid { margin: 1.5rem 0; display: flex; justify-content: center; overflow-x: auto; }
+.mermaid svg { max-width: 100%; height: auto; }
+.katex-display { overflow-x: auto; overflow-y: hidden; }
+
+.toc { margin: 1em 0 1.5em; padding: 0.75em 1em; border-left: 3px solid #3b82f6; background: rgba(148, 163, 184, 0.08); }
+.toc ul { margin: 0; padding-left: 1.25em; list-style: none; }
+.toc > ul { padding-left: 0; }
+.toc li { margin: 0.2em 0; }
+
+.task-list-item { list-style-type: none; margin-left: -1.5em; }
+.task-list-item-checkbox { margin-right: 0.5em; }
+.task-list-item-checkbox:checked + .task-list-item-text { text-decoration: line-through; color: var(--muted-foreground); }
+.wiki-link { text-decoration: underline dotted; }
+
+dl { margin: 1.5rem 0; }
+dt { font-weight: 600; margin-top: 1rem; }
+dt:first-child { margin-top: 0; }
+dd { margin: 0.25rem 0 0 1.5rem; }
+dd p { margin-top: 0; }
+
+.markdown-alert { border-left: 4px solid; border-radius: 0 0.375rem 0.375rem 0; padding: 0.75rem 0.75rem 0.75rem 1rem; margin: 1.5rem 0; }
+.markdown-alert p { margin-top: 0.5rem; }
+.markdown-alert .markdown-alert-title { margin-top: 0; font-weight: 600; }
+${Object.entries(ALERT_COLORS)
+  .map(([type, color]) => `.markdown-alert-${type} { border-left-color: #${color}; background: #${color}0d; } .markdown-alert-${type} .markdown-alert-title { color: #${color}; }`)
+  .join('\n')}
+
+.footnotes { margin-top: 3rem; padding-top: 1rem; border-top: 1px solid var(--border); font-size: 0.875rem; color: var(--muted-foreground); }
+.footnotes ol { margin: 0.5rem 0; }
+.footnotes p { margin-top: 0; }
+.footnotes .sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0, 0, 0, 0); }
+[data-footnote-ref] { font-size: 0.75rem; }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+async function toDataUrl(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+async function embedImages(container: HTMLElement, options: HtmlExportOptions) {
+  await Promise.all(Array.from(container.querySelectorAll('img')).map(async img => {
+    const src = img.getAttribute('src');
+    if (!src || src.startsWith('data:')) return;
+    const url = isRelativeUrl(src) ? await options.resolveImage?.(src) : src;
+    const data = url ? await toDataUrl(url) : null;
+    // Images that can't be fetched (e.g. no CORS) keep their link
+    if (data) img.setAttribute('src', data);
+  }));
+}
+
+/** KaTeX only needs its woff2 fonts in current browsers, so only those are embedded. */
+async function embedFonts(css: string): Promise<string> {
+  const fontUrl = /url\(["']?([^"')]+\.woff2)["']?\)/;
+  const urls = [...new Set(Array.from(css.matchAll(new RegExp(fontUrl, 'g')), match => match[1]))];
+  const fonts = new Map(await Promise.all(urls.map(async url => [url, await toDataUrl(new URL(url, location.href).href)] as const)));
+
+  return css.replace(/src:([^;}]*)/g, (declaration, sources: string) => {
+    const woff2 = sources.match(fontUrl);
+    const data = woff2 && fonts.get(woff2[1]);
+    return data ? `src:url(${data}) format("woff2")` : declaration;
+  });
+}
+
+/**
+ * Syntax highlighting and math styles for rendered markdown, with the math
+ * fonts embedded so the CSS works in documents of any origin.
+ */
+export async function renderedContentCss(container: HTMLElement, theme: HtmlTheme = 'light'): Promise<string> {
+  return [
+    theme === 'dark' ? highlightDarkCss : highlightLightCss,
+    container.querySelector('.katex') ? await embedFonts(katexCss) : '',
+  ].join('\n');
+}
+
+/** Render markdown to a complete, self-contained HTML page. */
+export async function createStandaloneHtml(markdown: string, options: HtmlExportOptions = {}): Promise<string> {
+  const theme = options.theme ?? 'light';
+  const container = await renderMarkdown(markdown, { diagramTheme: theme === 'dark' ? 'dark' : 'default' });
+  if (options.inlineImages) await embedImages(container, options);
+
+  const headings: TocEntry[] = Array.from(container.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6'))
+    .filter(heading => heading.id)
+    .map(heading => ({ level: Number(heading.tagName[1]), text: heading.textContent?.trim() ?? '', id: heading.id }));
+  const sidebar = options.toc && headings.length
+    ? `<aside class="sidebar"><div class="sidebar-title">目录</div>${renderTocHtml(headings)}</aside>`
+    : '';
+
+  const colors = Object.entries(THEME_COLORS[theme]).map(([name, value]) => `--${name}: ${value};`).join(' ');
+  const styles = [
+    `:root { color-scheme: ${theme}; ${colors} }`,
+    BASE_CSS,
+    await renderedContentCss(container, theme),
+  ].join('\n');
+
+  const title = options.title || headings.find(heading => heading.level === 1)?.text || '文档';
+  const meta = [
+    options.author && `<meta name="author" content="${escapeHtml(options.author)}">`,
+    options.description && `<meta name="description" content="${escapeHtml(options.description)}">`,
+    options.keywords && `<meta name="keywords" content="${escapeHtml(options.keywords)}">`,
+  ].filter(Boolean).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${meta}
+<style>
+${styles}
+</style>
+</head>
+<body>
+<div class="layout">
+<main class="content">
+${container.innerHTML}
+</main>
+${sidebar}
+</div>
+</body>
+</html>
+`;
+}
@@ -173,6 +173,15 @@ function processNode(
     case 'del':
       return `~~${processChildren(element, options)}~~`;
 
+    case 'mark':
+      return `==${processChildren(element, options)}==`;
+
+    case 'sub':
+      return `~${processChildren(element, options)}~`;
+
+    case 'sup':
+      return `^${processChildren(element, options)}^`;
+
     case 'code':
       return `\`${element.textContent}\``;
 
@@ -263,43 +272,54 @@ function convertList(element: Element, options: ConversionOptions): string {
   const tagName = element.tagName.toLowerCase();
   const isOrdered = tagName === 'ol';
   const items = Array.from(element.querySelectorAll(':scope > li'));
+  const start = parseInt(element.getAttribute('start') || '1', 10) || 1;
 
   let markdown = '\n';
 
   items.forEach((item, index) => {
-    const itemText = processChildren(item, {
-      ...options,
-      convertLists: false, // Don't convert nested lists here
-    }).trim();
-
-    if (isOrdered) {
-      markdown += `${index + 1}. ${itemText}\n`;
+    // Nested lists go below the item's own text rather than into it
+    const nestedLists = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+    const itemText = Array.from(item.childNodes)
+      .filter(child => !nestedLists.includes(child as Element))
+      .map(child => processNode(child, options))
+      .join('')
+      .trim();
+
+    const marker = isOrdered ? `${start + index}. ` : '- ';
+    // Continuation lines and nested lists line up with the item's text
+    const indent = ' '.repeat(marker.length);
+    const indented = (text: string) => text.split('\n').map(line => (line ? indent + line : line)).join('\n');
+
+    // Check if it's a task list
+    const isFirstCheckbox = isOrdered ? null : item.querySelector('input[type="checkbox"]');
+    if (isFirstCheckbox) {
+      const checked = isFirstCheckbox instanceof HTMLInputElement && isFirstCheckbox.checked;
+      // Remove the checkbox from text
+      const textWithoutCheckbox = itemText.replace(/\[([ x])\]/, '').trim();
+      markdown += `- [${checked ? 'x' : ' '}] ${indented(textWithoutCheckbox).trimStart()}\n`;
     } else {
-      // Check if it's a task list
-      const isFirstCheckbox = item.querySelector('input[type="checkbox"]');
-      if (isFirstCheckbox) {
-        const checked = isFirstCheckbox instanceof HTMLInputElement && isFirstCheckbox.checked;
-        // Remove the checkbox from text
-        const textWithoutCheckbox = itemText.replace(/\[([ x])\]/, '').trim();
-        markdown += `- [${checked ? 'x' : ' '}] ${textWithoutCheckbox}\n`;
-      } else {
-        markdown += `- ${itemText}\n`;
-      }
+      markdown += `${marker}${indented(itemText).trimStart()}\n`;
     }
 
-    // Handle nested lists
-    const nestedList = item.querySelector('ul, ol');
-    if (nestedList) {
-      // Remove nested list from itemText and add it separately
-      const nestedMarkdown = convertList(nestedList, options);
-      markdown += nestedMarkdown.split('\n').map(line => '  ' + line).join('\n') + '\n';
-    }
+    nestedLists.forEach(nestedList => {
+      markdown += indented(convertList(nestedList, options).trim()) + '\n';
+    });
   });
 
   markdown += '\n';
   return markdown;
 }
 
+const TABLE_ALIGN_SEPARATORS: Record<string, string> = {
+  left: ':---',
+  center: ':---:',
+  right: '---:',
+};
+
+function cellAlignment(cell: Element): string {
+  return (cell.getAttribute('align') || (cell as HTMLElement).style?.textAlign || '').toLowerCase();
+}
+
 /**
  * Convert table to markdown
  */
@@ -311,15 +331,16 @@ function convertTable(element: Element, options: ConversionOptions): string {
 
   rows.forEach((row, rowIndex) => {
     const cells = Array.from(row.querySelectorAll('td, th'));
+    // A row has to stay on one line, so line breaks inside cells become <br>
     const cellTexts = cells.map(cell =>
-      processChildren(cell, options).trim().replace(/\|/g, '\\|')
+      processChildren(cell, options).trim().replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>')
     );
 
     markdown += `| ${cellTexts.join(' | ')} |\n`;
 
-    // Add separator after header row
-    if (rowIndex === 0 && row.parentElement?.tagName === 'THEAD') {
-      const separator = cells.map(() => '---').join(' | ');
+    // The first row is the header; a table without the separator isn't one
+    if (rowIndex === 0) {
+      const separator = cells.map(cell => TABLE_ALIGN_SEPARATORS[cellAlignment(cell)] ?? '---').join(' | ');
       markdown += `| ${separator} |\n`;
     }
   });
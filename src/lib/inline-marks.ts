@@ -0,0 +1,261 @@
+import type { Processor } from "unified";
+import type { MdastNode, MdastPoint as Point } from "@/lib/markdown-pipeline";
+
+/**
+ * Inline formatting beyond GFM: `==highlight==`, `H~2~O` subscripts,
+ * `x^2^` superscripts and `<u>underline</u>`. Parsed after remark so the
+ * markers pair up across emphasis, links and the like; `~~strike~~` stays
+ * with remark-gfm, which must be used with `singleTilde: false`.
+ */
+
+type MarkType = 'highlight' | 'subscript' | 'superscript' | 'underline';
+
+const ELEMENTS: Record<MarkType, string> = {
+  highlight: 'mark',
+  subscript: 'sub',
+  superscript: 'sup',
+  underline: 'u',
+};
+
+const MARKERS: Record<string, MarkType> = {
+  '==': 'highlight',
+  '~': 'subscript',
+  '^': 'superscript',
+};
+
+const MARKER_PATTERN = /=+|~+|\^+/g;
+const UNDERLINE_OPEN = /^<(u|ins)>$/i;
+const UNDERLINE_CLOSE = /^<\/(u|ins)>$/i;
+const ENTITY_PATTERN = /^&(?:#\d+|#x[\da-f]+|\w+);/i;
+
+// Children of these are blocks, where `<u>` lines are HTML blocks of their own
+const BLOCK_PARENTS = new Set(['root', 'blockquote', 'list', 'listItem', 'footnoteDefinition', 'table', 'tableRow']);
+
+// Text that must stay as written
+const SKIPPED_PARENTS = new Set(['inlineCode', 'code', 'math', 'inlineMath', 'html']);
+
+interface Delimiter {
+  type: MarkType;
+  open: boolean;
+  close: boolean;
+  // What the delimiter is when left unpaired
+  node: MdastNode;
+}
+
+const isDelimiter = (item: MdastNode | Delimiter): item is Delimiter => 'node' in item;
+
+function advance(point: Point, text: string): Point {
+  const lines = text.split('\n');
+  return {
+    line: point.line + lines.length - 1,
+    column: lines.length > 1 ? lines[lines.length - 1].length + 1 : point.column + text.length,
+    offset: point.offset === undefined ? undefined : point.offset + text.length,
+  };
+}
+
+/**
+ * Source offset of every character of a text node's value, relative to its
+ * start, and which of them were escaped or came from character references.
+ */
+function alignWithSource(value: string, source: string) {
+  const offsets: number[] = [];
+  const literal = new Set<number>();
+  let index = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    while (index < source.length && source[index] !== value[i] && source[index] !== '\\' && source[index] !== '&') index++;
+    offsets.push(index);
+
+    const entity = source[index] === '&' ? source.slice(index).match(ENTITY_PATTERN) : null;
+    if (source[index] === '\\' && source[index + 1] === value[i]) {
+      literal.add(i);
+      index += 2;
+    } else if (entity && value[i] !== '&') {
+      literal.add(i);
+      index += entity[0].length;
+    } else {
+      index++;
+    }
+  }
+  offsets.push(source.length);
+  return { offsets, literal };
+}
+
+// Split a text node at its markers, keeping positions on every piece
+function splitText(node: MdastNode, source: string | null): (MdastNode | Delimiter)[] {
+  const value = node.value ?? '';
+  const start = node.position?.start;
+  const raw = source !== null && start?.offset !== undefined && node.position?.end.offset !== undefined
+    ? source.slice(start.offset, node.position.end.offset)
+    : null;
+  const { offsets, literal } = alignWithSource(value, raw ?? value);
+
+  const slice = (from: number, to: number): MdastNode => {
+    const text: MdastNode = { type: 'text', value: value.slice(from, to) };
+    if (start && raw !== null) {
+      const head = advance(start, raw.slice(0, offsets[from]));
+      text.position = { start: head, end: advance(head, raw.slice(offsets[from], offsets[to])) };
+    }
+    return text;
+  };
+
+  const pieces: (MdastNode | Delimiter)[] = [];
+  let last = 0;
+  for (const match of value.matchAll(MARKER_PATTERN)) {
+    const type = MARKERS[match[0]];
+    const from = match.index!;
+    const to = from + match[0].length;
+    let escaped = false;
+    for (let i = from; i < to; i++) escaped ||= literal.has(i);
+    if (!type || escaped) continue;
+
+    if (from > last) pieces.push(slice(last, from));
+    pieces.push({
+      type,
+      // At the edge of the value the neighbour is another node, never whitespace
+      open: to === value.length || !/\s/.test(value[to]),
+      close: from === 0 || !/\s/.test(value[from - 1]),
+      node: slice(from, to),
+    });
+    last = to;
+  }
+
+  if (pieces.length === 0) return [node];
+  if (last < value.length) pieces.push(slice(last, value.length));
+  return pieces;
+}
+
+function plainText(node: MdastNode): string {
+  return node.value ?? node.children?.map(plainText).join('') ?? '';
+}
+
+function wrap(type: MarkType, opener: Delimiter, closer: Delimiter, children: MdastNode[]): MdastNode {
+  const start = opener.node.position?.start;
+  const end = closer.node.position?.end;
+  return {
+    type,
+    children,
+    data: { hName: ELEMENTS[type] },
+    ...(start && end ? { position: { start, end } } : {}),
+  };
+}
+
+// Merge neighbouring text so untouched text comes out as it went in
+function mergeText(nodes: MdastNode[]): MdastNode[] {
+  const merged: MdastNode[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (node.type === 'text' && previous?.type === 'text') {
+      merged[merged.length - 1] = {
+        type: 'text',
+        value: (previous.value ?? '') + (node.value ?? ''),
+        ...(previous.position && node.position ? { position: { start: previous.position.start, end: node.position.end } } : {}),
+      };
+    } else {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+function pairDelimiters(children: MdastNode[], source: string | null): MdastNode[] {
+  const output: (MdastNode | Delimiter)[] = [];
+  const openers: number[] = [];
+  let changed = false;
+
+  const pieces = children.flatMap(child => {
+    if (child.type === 'text') return splitText(child, source);
+    if (child.type === 'html' && UNDERLINE_OPEN.test(child.value ?? '')) {
+      return [{ type: 'underline' as const, open: true, close: false, node: child }];
+    }
+    if (child.type === 'html' && UNDERLINE_CLOSE.test(child.value ?? '')) {
+      return [{ type: 'underline' as const, open: false, close: true, node: child }];
+    }
+    return [child];
+  });
+
+  for (const piece of pieces) {
+    if (!isDelimiter(piece)) {
+      output.push(piece);
+      continue;
+    }
+
+    if (piece.close) {
+      let at = openers.length - 1;
+      while (at >= 0 && (output[openers[at]] as Delimiter).type !== piece.type) at--;
+      if (at >= 0) {
+        const index = openers[at];
+        const content = output.slice(index + 1).map(item => (isDelimiter(item) ? item.node : item));
+        const text = content.map(plainText).join('');
+        // Subscripts and superscripts are single words
+        const valid = text.length > 0 && (piece.type === 'highlight' || piece.type === 'underline' || !/\s/.test(text));
+        if (valid) {
+          const opener = output[index] as Delimiter;
+          output.length = index;
+          openers.length = at;
+          output.push(wrap(piece.type, opener, piece, mergeText(content)));
+          changed = true;
+          continue;
+        }
+      }
+    }
+    if (piece.open) openers.push(output.length);
+    output.push(piece);
+  }
+
+  if (!changed) return children;
+  return mergeText(output.map(item => (isDelimiter(item) ? item.node : item)));
+}
+
+// Autolinks show their URL, where `~` is common
+const isAutolink = (node: MdastNode) => node.type === 'link' && !!node.url?.endsWith(plainText(node));
+
+function transform(node: MdastNode, source: string | null) {
+  if (!node.children || SKIPPED_PARENTS.has(node.type) || isAutolink(node)) return;
+  node.children.forEach(child => transform(child, source));
+  if (!BLOCK_PARENTS.has(node.type)) {
+    node.children = pairDelimiters(node.children, source);
+  }
+}
+
+// Just enough of mdast-util-to-markdown's state for the handlers below
+interface ToMarkdownState {
+  createTracker(info: object): { move(value: string): string; current(): object };
+  containerPhrasing(node: MdastNode, info: object): string;
+}
+
+function handler(open: string, close: string) {
+  return (node: MdastNode, _parent: unknown, state: ToMarkdownState, info: object) => {
+    const tracker = state.createTracker(info);
+    let value = tracker.move(open);
+    value += state.containerPhrasing(node, { ...tracker.current(), before: value, after: close[0] });
+    return value + tracker.move(close);
+  };
+}
+
+const toMarkdown = {
+  handlers: {
+    highlight: handler('==', '=='),
+    subscript: handler('~', '~'),
+    superscript: handler('^', '^'),
+    underline: handler('<u>', '</u>'),
+  },
+  unsafe: [
+    { character: '=', after: '=', inConstruct: 'phrasing' },
+    { character: '^', inConstruct: 'phrasing' },
+  ],
+};
+
+/**
+ * Remark plugin turning the markers into `highlight`, `subscript`,
+ * `superscript` and `underline` nodes that render as `<mark>`, `<sub>`,
+ * `<sup>` and `<u>`, and teaching remark-stringify to print them back.
+ */
+export function remarkInlineMarks(this: Processor) {
+  const data = this.data() as { toMarkdownExtensions?: unknown[] };
+  (data.toMarkdownExtensions ??= []).push(toMarkdown);
+
+  return (tree: MdastNode, file?: { value?: unknown }) => {
+    transform(tree, typeof file?.value === 'string' ? file.value : null);
+  };
+}
@@ -0,0 +1,444 @@
+import {
+  type MathComponent,
+  MathAngledBrackets,
+  MathCurlyBrackets,
+  MathFraction,
+  MathIntegral,
+  MathLimitLower,
+  MathLimitUpper,
+  MathRadical,
+  MathRoundBrackets,
+  MathRun,
+  type MathRunScript,
+  type MathRunStyle,
+  MathSquareBrackets,
+  MathSubScript,
+  MathSubSuperScript,
+  MathSum,
+  MathSuperScript,
+} from 'docx';
+
+/**
+ * LaTeX to Office Math (OMML) for DOCX exports, so Word shows equations
+ * it can edit. Covers what notes usually hold: scripts, fractions, roots,
+ * sums and integrals, limits, delimiters, accents, fonts, text, Greek and
+ * operator symbols, matrices and multi-line environments. Anything else
+ * is kept as its source text rather than dropped.
+ */
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'ϕ',
+  varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+  Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  times: '×', cdot: '⋅', div: '÷', pm: '±', mp: '∓', ast: '∗', star: '⋆', circ: '∘', bullet: '∙',
+  oplus: '⊕', otimes: '⊗', wedge: '∧', land: '∧', vee: '∨', lor: '∨', neg: '¬', lnot: '¬',
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼',
+  simeq: '≃', cong: '≅', propto: '∝', ll: '≪', gg: '≫', prec: '≺', succ: '≻', doteq: '≐',
+  in: '∈', notin: '∉', ni: '∋', subset: '⊂', supset: '⊃', subseteq: '⊆', supseteq: '⊇',
+  cup: '∪', cap: '∩', setminus: '∖', emptyset: '∅', varnothing: '∅',
+  forall: '∀', exists: '∃', nexists: '∄', infty: '∞', partial: '∂', nabla: '∇', hbar: 'ℏ', ell: 'ℓ',
+  Re: 'ℜ', Im: 'ℑ', aleph: 'ℵ', angle: '∠', perp: '⊥', parallel: '∥', mid: '∣', top: '⊤', bot: '⊥',
+  to: '→', rightarrow: '→', leftarrow: '←', gets: '←', leftrightarrow: '↔', Rightarrow: '⇒',
+  Leftarrow: '⇐', Leftrightarrow: '⇔', implies: '⟹', iff: '⟺', mapsto: '↦', uparrow: '↑',
+  downarrow: '↓', longrightarrow: '⟶', longleftarrow: '⟵', Longrightarrow: '⟹',
+  ldots: '…', dots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱', prime: '′', degree: '°',
+  langle: '⟨', rangle: '⟩', lceil: '⌈', rceil: '⌉', lfloor: '⌊', rfloor: '⌋', vert: '|', Vert: '‖',
+  '{': '{', '}': '}', '|': '‖', '%': '%', '$': '$', '&': '&', '#': '#', '_': '_',
+  ',': ' ', ':': ' ', ';': ' ', '!': '', ' ': ' ', quad: ' ', qquad: '  ',
+};
+
+// Big operators written as their symbol with scripts
+const BIG_OPERATORS: Record<string, string> = {
+  prod: '∏', coprod: '∐', bigcup: '⋃', bigcap: '⋂', bigoplus: '⨁', bigotimes: '⨂', bigvee: '⋁', bigwedge: '⋀',
+};
+
+const INTEGRALS: Record<string, string> = { int: '∫', iint: '∬', iiint: '∭', oint: '∮' };
+
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'coth',
+  'log', 'ln', 'lg', 'exp', 'det', 'dim', 'ker', 'deg', 'arg', 'gcd', 'hom', 'Pr',
+]);
+
+// Operators whose scripts go below and above
+const LIMIT_FUNCTIONS = new Set(['lim', 'max', 'min', 'sup', 'inf', 'limsup', 'liminf', 'argmax', 'argmin']);
+
+// Combining marks drawn over the preceding letter
+const ACCENTS: Record<string, string> = {
+  hat: '̂', widehat: '̂', bar: '̄', overline: '̅', vec: '⃗', overrightarrow: '⃗',
+  dot: '̇', ddot: '̈', tilde: '̃', widetilde: '̃', acute: '́', grave: '̀',
+  check: '̌', breve: '̆', underline: '̲',
+};
+
+const FONTS: Record<string, { style?: MathRunStyle; script?: MathRunScript }> = {
+  mathrm: { style: 'plain' },
+  mathbf: { style: 'bold' },
+  mathit: { style: 'italic' },
+  boldsymbol: { style: 'boldItalic' },
+  bm: { style: 'boldItalic' },
+  mathbb: { script: 'doubleStruck' },
+  mathcal: { script: 'script' },
+  mathscr: { script: 'script' },
+  mathfrak: { script: 'fraktur' },
+  mathsf: { script: 'sansSerif' },
+  mathtt: { script: 'monospace' },
+  operatorname: { style: 'plain' },
+};
+
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textbf', 'textit', 'mbox', 'mathnormal']);
+
+// Commands that only size or space things, which Word does itself
+const IGNORED = new Set([
+  'displaystyle', 'textstyle', 'scriptstyle', 'limits', 'nolimits', 'left', 'right', 'big', 'Big', 'bigg', 'Bigg',
+  'bigl', 'bigr', 'Bigl', 'Bigr', 'biggl', 'biggr', 'middle', 'nonumber', 'notag', 'label', 'tag',
+]);
+
+const MATRIX_BRACKETS: Record<string, [string, string]> = {
+  matrix: ['', ''], smallmatrix: ['', ''], array: ['', ''], pmatrix: ['(', ')'], bmatrix: ['[', ']'],
+  Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'], cases: ['{', ''],
+};
+
+// Environments whose rows are lines of a displayed equation
+const LINE_ENVIRONMENTS = new Set(['aligned', 'align', 'align*', 'gathered', 'gather', 'gather*', 'split', 'equation', 'equation*', 'multline', 'multline*', 'alignat', 'alignat*']);
+
+type Token = { kind: 'command'; name: string } | { kind: 'char'; value: string };
+
+function tokenize(latex: string): Token[] {
+  const tokens: Token[] = [];
+  for (let i = 0; i < latex.length; i++) {
+    const character = latex[i];
+    if (character === '\\') {
+      const name = latex.slice(i + 1).match(/^(?:[a-zA-Z]+\*?|.)/)?.[0] ?? '';
+      tokens.push({ kind: 'command', name });
+      i += name.length;
+      // Spaces after a command word only end it
+      if (/^[a-zA-Z]/.test(name)) while (latex[i + 1] === ' ') i++;
+    } else if (character === '%') {
+      while (i < latex.length && latex[i] !== '\n') i++;
+    } else if (!/\s/.test(character)) {
+      tokens.push({ kind: 'char', value: character });
+    }
+  }
+  return tokens;
+}
+
+const has = (record: object, key: string) => Object.hasOwn(record, key);
+
+const isChar = (token: Token | undefined, value: string) => token?.kind === 'char' && token.value === value;
+const isCommand = (token: Token | undefined, name: string) => token?.kind === 'command' && token.name === name;
+
+const bracket = (open: string, close: string, children: MathComponent[]): MathComponent[] => {
+  if (open === '(' && close === ')') return [new MathRoundBrackets({ children })];
+  if (open === '[' && close === ']') return [new MathSquareBrackets({ children })];
+  if (open === '{' && close === '}') return [new MathCurlyBrackets({ children })];
+  if (open === '⟨' && close === '⟩') return [new MathAngledBrackets({ children })];
+  return [...(open ? [new MathRun(open)] : []), ...children, ...(close ? [new MathRun(close)] : [])];
+};
+
+class LatexParser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(latex: string) {
+    this.tokens = tokenize(latex);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  /** Rows and their cells up to the end of the input or of an environment. */
+  rows(endEnvironment?: string): MathComponent[][][] {
+    const rows: MathComponent[][][] = [[[]]];
+    while (this.index < this.tokens.length) {
+      const token = this.peek()!;
+      if (endEnvironment && isCommand(token, 'end')) {
+        this.next();
+        this.groupSource();
+        break;
+      }
+      if (isCommand(token, '\\') || isCommand(token, 'cr')) {
+        this.next();
+        // `\\[2pt]` spacing
+        if (isChar(this.peek(), '[')) this.optionalSource();
+        rows.push([[]]);
+        continue;
+      }
+      if (isChar(token, '&')) {
+        this.next();
+        rows[rows.length - 1].push([]);
+        continue;
+      }
+      const row = rows[rows.length - 1];
+      const start = this.index;
+      row[row.length - 1].push(...this.sequence(['&', '\\', 'cr', 'end']));
+      // Unbalanced `}` or `\right`
+      if (this.index === start) this.next();
+    }
+    // A trailing `\\` leaves no empty row
+    if (rows.length > 1 && rows[rows.length - 1].every(cell => cell.length === 0)) rows.pop();
+    return rows;
+  }
+
+  /** Components up to a closing brace, `\right` or one of the stops. */
+  sequence(stops: string[] = []): MathComponent[] {
+    const output: MathComponent[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) output.push(new MathRun(text));
+      text = '';
+    };
+
+    while (this.index < this.tokens.length) {
+      const token = this.peek()!;
+      if (isChar(token, '}') || isCommand(token, 'right')) break;
+      if (token.kind === 'char' ? stops.includes(token.value) : stops.includes(token.name)) break;
+
+      const atom = this.atom();
+      if (atom === null) continue;
+      if (isChar(this.peek(), '^') || isChar(this.peek(), '_') || isChar(this.peek(), "'")) {
+        flush();
+        output.push(...this.scripts(typeof atom === 'string' ? [new MathRun(atom)] : atom));
+      } else if (typeof atom === 'string') {
+        text += atom;
+      } else {
+        flush();
+        output.push(...atom);
+      }
+    }
+    flush();
+    return output;
+  }
+
+  // Plain text to merge with its neighbours, components, or nothing
+  private atom(): string | MathComponent[] | null {
+    const token = this.next()!;
+    if (token.kind === 'char') {
+      if (token.value === '{') {
+        const group = this.sequence();
+        this.next();
+        return group;
+      }
+      if (token.value === '^' || token.value === '_') return this.scripts([new MathRun('')], token);
+      if (token.value === '~') return ' ';
+      if (token.value === "'") return '′';
+      if (token.value === '-') return '−';
+      return token.value;
+    }
+    return this.command(token.name);
+  }
+
+  private command(name: string): string | MathComponent[] | null {
+    if (has(SYMBOLS, name)) return SYMBOLS[name];
+    if (IGNORED.has(name)) {
+      // `\left(`, `\big|`: the delimiter itself
+      if (name === 'left') return this.delimited();
+      if (name === 'label' || name === 'tag') this.groupSource();
+      return null;
+    }
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac' || name === 'cfrac') {
+      return [new MathFraction({ numerator: this.argument(), denominator: this.argument() })];
+    }
+    if (name === 'binom' || name === 'dbinom' || name === 'tbinom') {
+      return [new MathRoundBrackets({ children: [new MathFraction({ numerator: this.argument(), denominator: this.argument(), type: 'noBar' })] })];
+    }
+    if (name === 'sqrt') {
+      const degree = isChar(this.peek(), '[') ? new LatexParser(this.optionalSource()).sequence() : undefined;
+      return [new MathRadical({ children: this.argument(), degree })];
+    }
+    if (name === 'sum') return this.bigOperator('sum');
+    if (has(INTEGRALS, name)) return this.bigOperator(name);
+    if (has(BIG_OPERATORS, name)) return this.bigOperator(name);
+    if (LIMIT_FUNCTIONS.has(name)) return this.bigOperator(name);
+    if (FUNCTIONS.has(name)) return [new MathRun({ text: name, style: 'plain' })];
+    if (has(ACCENTS, name)) {
+      const text = this.plainArgument();
+      const accent = ACCENTS[name];
+      // Overlines cover every letter, other accents the whole group
+      return name === 'overline' || name === 'underline' ? Array.from(text).map(c => c + accent).join('') : text + accent;
+    }
+    if (has(FONTS, name)) {
+      const { style, script } = FONTS[name];
+      return [new MathRun({ text: this.plainArgument(), style, script })];
+    }
+    if (TEXT_COMMANDS.has(name)) return [new MathRun({ text: this.plainArgument(), normalText: true })];
+    if (name === 'overset' || name === 'stackrel') {
+      const limit = this.argument();
+      return [new MathLimitUpper({ children: this.argument(), limit })];
+    }
+    if (name === 'underset') {
+      const limit = this.argument();
+      return [new MathLimitLower({ children: this.argument(), limit })];
+    }
+    if (name === 'overbrace' || name === 'underbrace') return this.argument();
+    if (name === 'pmod') return [new MathRoundBrackets({ children: [new MathRun({ text: 'mod ', style: 'plain' }), ...this.argument()] })];
+    if (name === 'bmod' || name === 'mod') return [new MathRun({ text: ' mod ', style: 'plain' })];
+    if (name === 'begin') return this.environment(this.groupSource());
+    // Unknown: keep the source
+    return `\\${name}`;
+  }
+
+  // `^`, `_` and primes after a base
+  private scripts(base: MathComponent[], pending?: Token): MathComponent[] {
+    let superScript: MathComponent[] | undefined;
+    let subScript: MathComponent[] | undefined;
+    const read = (token: Token) => {
+      if (isChar(token, "'")) {
+        superScript = [...(superScript ?? []), new MathRun('′')];
+        return;
+      }
+      const argument = this.argument();
+      if (isChar(token, '^')) superScript = [...(superScript ?? []), ...argument];
+      else subScript = [...(subScript ?? []), ...argument];
+    };
+    if (pending) read(pending);
+    while (isChar(this.peek(), '^') || isChar(this.peek(), '_') || isChar(this.peek(), "'")) read(this.next()!);
+
+    if (superScript && subScript) return [new MathSubSuperScript({ children: base, subScript, superScript })];
+    if (superScript) return [new MathSuperScript({ children: base, superScript })];
+    if (subScript) return [new MathSubScript({ children: base, subScript })];
+    return base;
+  }
+
+  // Sums, integrals and limits with their scripts, applied to what follows
+  private bigOperator(name: string): MathComponent[] {
+    let subScript: MathComponent[] | undefined;
+    let superScript: MathComponent[] | undefined;
+    while (isChar(this.peek(), '^') || isChar(this.peek(), '_') || isCommand(this.peek(), 'limits') || isCommand(this.peek(), 'nolimits')) {
+      const token = this.next()!;
+      if (isChar(token, '^')) superScript = this.argument();
+      else if (isChar(token, '_')) subScript = this.argument();
+    }
+
+    if (LIMIT_FUNCTIONS.has(name)) {
+      const children = [new MathRun({ text: name, style: 'plain' })];
+      const lower = subScript ? [new MathLimitLower({ children, limit: subScript })] : children;
+      return superScript ? [new MathLimitUpper({ children: lower, limit: superScript })] : lower;
+    }
+    if (has(BIG_OPERATORS, name)) {
+      const children = [new MathRun(BIG_OPERATORS[name])];
+      if (subScript && superScript) return [new MathLimitUpper({ children: [new MathLimitLower({ children, limit: subScript })], limit: superScript })];
+      if (subScript) return [new MathLimitLower({ children, limit: subScript })];
+      return superScript ? [new MathLimitUpper({ children, limit: superScript })] : children;
+    }
+
+    const next = this.peek();
+    const ends = !next || isChar(next, '}') || isChar(next, '&') || isCommand(next, '\\') || isCommand(next, 'end') || isCommand(next, 'right');
+    const operand = ends ? [] : this.term();
+    if (name === 'sum') return [new MathSum({ children: operand, subScript, superScript })];
+    if (name === 'int') return [new MathIntegral({ children: operand, subScript, superScript })];
+    // Word's integral has one sign; the others are symbols with scripts
+    const sign = [new MathRun(INTEGRALS[name])];
+    if (subScript && superScript) return [new MathSubSuperScript({ children: sign, subScript, superScript }), ...operand];
+    if (subScript) return [new MathSubScript({ children: sign, subScript }), ...operand];
+    return [...(superScript ? [new MathSuperScript({ children: sign, superScript })] : sign), ...operand];
+  }
+
+  // One atom with its scripts
+  private term(): MathComponent[] {
+    const atom = this.atom();
+    const base = atom === null ? [] : typeof atom === 'string' ? [new MathRun(atom)] : atom;
+    return this.scripts(base);
+  }
+
+  // A braced group or the single token that stands for one
+  private argument(): MathComponent[] {
+    if (this.index >= this.tokens.length) return [];
+    if (isChar(this.peek(), '{')) {
+      this.next();
+      const group = this.sequence();
+      this.next();
+      return group;
+    }
+    const atom = this.atom();
+    return atom === null ? [] : typeof atom === 'string' ? [new MathRun(atom)] : atom;
+  }
+
+  // An argument as text, for fonts, accents and `\text`
+  private plainArgument(): string {
+    if (!isChar(this.peek(), '{')) {
+      const token = this.next();
+      if (!token) return '';
+      return token.kind === 'char' ? token.value : has(SYMBOLS, token.name) ? SYMBOLS[token.name] : token.name;
+    }
+    return this.groupSource()
+      .replace(/\\([a-zA-Z]+|.)/g, (match, name: string) => (has(SYMBOLS, name) ? SYMBOLS[name] : /^[a-zA-Z]/.test(name) ? '' : name))
+      .replace(/[{}]/g, '');
+  }
+
+  // Source of a braced group, as written
+  private groupSource(): string {
+    if (!isChar(this.peek(), '{')) return '';
+    this.next();
+    let depth = 1;
+    let source = '';
+    while (this.index < this.tokens.length) {
+      const token = this.next()!;
+      if (isChar(token, '{')) depth++;
+      if (isChar(token, '}') && --depth === 0) break;
+      source += token.kind === 'char' ? token.value : `\\${token.name}${/^[a-zA-Z]/.test(token.name) ? ' ' : ''}`;
+    }
+    return source;
+  }
+
+  private optionalSource(): string {
+    this.next();
+    let source = '';
+    while (this.index < this.tokens.length && !isChar(this.peek(), ']')) {
+      const token = this.next()!;
+      source += token.kind === 'char' ? token.value : `\\${token.name} `;
+    }
+    this.next();
+    return source;
+  }
+
+  private delimiter(): string {
+    const token = this.next();
+    if (!token) return '';
+    if (token.kind === 'char') return token.value === '.' ? '' : token.value;
+    return has(SYMBOLS, token.name) ? SYMBOLS[token.name] : '';
+  }
+
+  // `\left( … \right)`
+  private delimited(): MathComponent[] {
+    const open = this.delimiter();
+    const children = this.sequence();
+    let close = '';
+    if (isCommand(this.peek(), 'right')) {
+      this.next();
+      close = this.delimiter();
+    }
+    return bracket(open, close, children);
+  }
+
+  private environment(name: string): MathComponent[] {
+    // Column specs of arrays
+    if (name === 'array' || name.startsWith('alignat')) this.groupSource();
+    const rows = this.rows(name);
+    const cells = (row: MathComponent[][]) => row.flatMap((cell, index) => (index > 0 ? [new MathRun(' '), ...cell] : cell));
+    const body = rows.flatMap((row, index) => (index > 0 ? [new MathRun(name === 'cases' ? ', ' : '; '), ...cells(row)] : cells(row)));
+    const [open, close] = MATRIX_BRACKETS[name.replace(/\*$/, '')] ?? ['', ''];
+    return bracket(open, close, body);
+  }
+}
+
+/**
+ * A LaTeX formula as the lines of an equation: one for inline math, and
+ * one per row of a top-level `aligned`, `gather` and the like.
+ */
+export function latexToOmml(latex: string): MathComponent[][] {
+  const environment = latex.trim().match(/^\\begin\{([a-z]+\*?)\}([\s\S]*)\\end\{\1\}$/);
+  if (environment && LINE_ENVIRONMENTS.has(environment[1])) {
+    const body = environment[1].startsWith('alignat') ? environment[2].replace(/^\s*\{[^}]*\}/, '') : environment[2];
+    return new LatexParser(body).rows().map(row => row.flat());
+  }
+  // Line breaks of a bare formula
+  const rows = new LatexParser(latex).rows();
+  return rows.length > 1 ? rows.map(row => row.flat()) : [rows[0].flat()];
+}
@@ -0,0 +1,189 @@
+/**
+ * The markdown pipeline behind the preview. Every export and the visual
+ * editor's parser go through the same plugins, so math, diagrams, alerts
+ * and the rest come out the way the preview shows them.
+ */
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown, { type Options } from "react-markdown";
+import { unified, type PluggableList } from "unified";
+import remarkParse from "remark-parse";
+import mermaid from "mermaid";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import rehypeRaw from "rehype-raw";
+import { remarkWikiLinks } from "@/lib/wiki-links";
+import { remarkInlineMarks } from "@/lib/inline-marks";
+import { remarkVerbatimText } from "@/lib/verbatim-text";
+import { remarkAlerts } from "@/lib/alerts";
+import { remarkDefinitionLists } from "@/lib/definition-lists";
+import { FOOTNOTE_LABEL, footnoteBackLabel } from "@/lib/footnotes";
+import { rehypeToc } from "@/lib/toc";
+import { rehypeSourceLines } from "@/lib/source-lines";
+import { rehypeTaskLists } from "@/lib/task-list";
+import { blankFrontMatter } from "@/lib/front-matter";
+import { isRelativeUrl } from "@/lib/file-system";
+
+/**
+ * Syntax beyond CommonMark, which the visual editor also parses and prints.
+ *
+ * The plugins `remarkPlugins` adds on top only rewrite text remark already
+ * parsed into shapes for rendering: alerts into titled `<div>`s, definition
+ * lists into `<dl>`, wiki links into links to `#`. The visual editor has no
+ * nodes for those and keeps them as the text they are written as, which
+ * prints back the same: `remarkVerbatimText` leaves `[!NOTE]` and `[[...]]`
+ * unescaped, and `: ` opening a line needs no escape.
+ */
+export const SYNTAX_PLUGINS: PluggableList = [
+  [remarkGfm, { singleTilde: false }],
+  remarkMath,
+  remarkInlineMarks,
+  remarkVerbatimText,
+];
+
+export function remarkPlugins(wikiLinkExists?: (page: string) => boolean): PluggableList {
+  return [
+    ...SYNTAX_PLUGINS,
+    remarkAlerts,
+    remarkDefinitionLists,
+    [remarkWikiLinks, { exists: wikiLinkExists }],
+  ];
+}
+
+export const REHYPE_PLUGINS: Options['rehypePlugins'] = [
+  rehypeSourceLines,
+  rehypeTaskLists,
+  rehypeRaw,
+  rehypeToc,
+  rehypeHighlight,
+  rehypeKatex,
+];
+
+export const REMARK_REHYPE_OPTIONS: Options['remarkRehypeOptions'] = {
+  footnoteLabel: FOOTNOTE_LABEL,
+  footnoteBackLabel,
+};
+
+/**
+ * The markdown as rendered: front matter is shown separately (blank lines
+ * keep source line numbers) and only safe `<video>` attributes are kept.
+ */
+export function renderableMarkdown(content: string): string {
+  return blankFrontMatter(content).replace(
+    /<video([^>]*)>/gi,
+    (match, attributes) => {
+      // Allow only safe attributes
+      const safeAttrs = attributes
+        .replace(/on\w+="[^"]*"/gi, '') // Remove event handlers
+        .replace(/javascript:/gi, '') // Remove javascript: URLs
+        .replace(/onerror="[^"]*"/gi, ''); // Remove onerror
+      return `<video${safeAttrs}>`;
+    }
+  );
+}
+
+const parser = unified().use(remarkParse).use(remarkPlugins());
+
+export type MdastRoot = ReturnType<typeof parser.parse>;
+
+export interface MdastPoint {
+  line: number;
+  column: number;
+  offset?: number;
+}
+
+/**
+ * The mdast fields the plugins and conversions here read and write. Looser
+ * than mdast's own types, so transforms can build and rewrite nodes freely.
+ */
+export interface MdastNode {
+  type: string;
+  children?: MdastNode[];
+  value?: string;
+  depth?: number;
+  lang?: string | null;
+  meta?: string | null;
+  url?: string;
+  title?: string | null;
+  alt?: string | null;
+  identifier?: string;
+  label?: string | null;
+  referenceType?: string;
+  ordered?: boolean | null;
+  start?: number | null;
+  spread?: boolean | null;
+  checked?: boolean | null;
+  align?: (string | null)[] | null;
+  position?: { start: MdastPoint; end: MdastPoint };
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+}
+
+/** The mdast tree the preview renders, for exports that build other formats. */
+export function parseMarkdown(markdown: string): MdastRoot {
+  const source = renderableMarkdown(markdown);
+  return parser.runSync(parser.parse(source), source) as MdastRoot;
+}
+
+export interface RenderOptions {
+  // Mermaid theme of the diagrams
+  diagramTheme?: 'default' | 'dark';
+  // Object URL for an image path relative to the document
+  resolveImage?: (src: string) => Promise<string | null>;
+}
+
+async function renderDiagrams(container: HTMLElement, theme: string) {
+  const blocks = Array.from(container.querySelectorAll('pre > code.language-mermaid'));
+  for (const [index, code] of blocks.entries()) {
+    try {
+      // The directive themes this diagram without touching the preview's settings
+      const directive = `%%{init: {"theme": "${theme}"}}%%\n`;
+      const { svg } = await mermaid.render(`export-mermaid-${index}-${Date.now()}`, directive + (code.textContent ?? ''));
+      const figure = document.createElement('div');
+      figure.className = 'mermaid';
+      figure.innerHTML = svg;
+      code.parentElement!.replaceWith(figure);
+    } catch (error) {
+      // Invalid diagrams stay as their source
+      console.error('Mermaid render error:', error);
+    }
+  }
+}
+
+/**
+ * Render markdown the way the preview does, outside React: diagrams as
+ * SVG, and without the editor's bookkeeping or links into the workspace.
+ */
+export async function renderMarkdown(markdown: string, options: RenderOptions = {}): Promise<HTMLElement> {
+  const container = document.createElement('div');
+  container.innerHTML = renderToStaticMarkup(createElement(ReactMarkdown, {
+    remarkPlugins: remarkPlugins(),
+    remarkRehypeOptions: REMARK_REHYPE_OPTIONS,
+    rehypePlugins: REHYPE_PLUGINS,
+    children: renderableMarkdown(markdown),
+  }));
+
+  container.querySelectorAll('[data-source-line], [data-task-line]').forEach(element => {
+    element.removeAttribute('data-source-line');
+    element.removeAttribute('data-task-line');
+  });
+  container.querySelectorAll('input[type="checkbox"]').forEach(checkbox => checkbox.setAttribute('disabled', ''));
+  // Wiki-links point at other files of the workspace, which don't come along
+  container.querySelectorAll('a.wiki-link').forEach(link => {
+    const text = document.createElement('span');
+    text.className = 'wiki-link';
+    text.textContent = link.textContent;
+    link.replaceWith(text);
+  });
+
+  await renderDiagrams(container, options.diagramTheme ?? 'default');
+  if (options.resolveImage) {
+    await Promise.all(Array.from(container.querySelectorAll('img')).map(async img => {
+      const src = img.getAttribute('src');
+      const url = src && isRelativeUrl(src) ? await options.resolveImage!(src) : null;
+      if (url) img.setAttribute('src', url);
+    }));
+  }
+  return container;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { EditorState } from "prosemirror-state";
+import { schema } from "@/lib/wysiwyg-schema";
+import { docToMarkdown, docToMarkdownWithOffsets, markdownToDoc } from "@/lib/markdown-prosemirror";
+
+const corpus = Object.entries(
+  import.meta.glob<string>("./__fixtures__/round-trip/*.md", { query: "?raw", import: "default", eager: true })
+).map(([path, markdown]) => [path.split("/").pop()!, markdown] as const);
+
+// A copy of the document shares no nodes with the parse, as if every block was edited
+const reprint = (markdown: string) => docToMarkdown(schema.nodeFromJSON(markdownToDoc(markdown).toJSON()));
+
+// Type text right after the first occurrence of `after`, as in the editor
+const typeAfter = (markdown: string, after: string, text: string) => {
+  const state = EditorState.create({ doc: markdownToDoc(markdown) });
+  let pos = -1;
+  state.doc.descendants((node, offset) => {
+    if (pos < 0 && node.isText && node.text!.includes(after)) pos = offset + node.text!.indexOf(after) + after.length;
+  });
+  return docToMarkdown(state.apply(state.tr.insertText(text, pos)).doc);
+};
+
+describe("markdown round trip", () => {
+  it("has a corpus", () => {
+    expect(corpus.length).toBeGreaterThan(0);
+  });
+
+  it.each(corpus)("prints %s back byte for byte when untouched", (_, markdown) => {
+    expect(docToMarkdown(markdownToDoc(markdown))).toBe(markdown);
+  });
+
+  it.each(corpus)("prints %s stably once normalized", (_, markdown) => {
+    const normalized = reprint(markdown);
+    expect(reprint(normalized)).toBe(normalized);
+  });
+
+  it("keeps untouched blocks verbatim next to an edited one", () => {
+    const doc = markdownToDoc("* one\n* two\n\n\nSome  text\n\n| a |\n|---|\n| b |\n");
+    const edited = doc.copy(doc.content.replaceChild(1, schema.nodes.paragraph.create(null, schema.text("changed"))));
+    expect(docToMarkdown(edited)).toBe("* one\n* two\n\nchanged\n\n| a |\n|---|\n| b |\n");
+  });
+
+  it("keeps wiki links in an edited block", () => {
+    expect(typeAfter("See [[Other Page]] now\n", "now", "!")).toBe("See [[Other Page]] now!\n");
+    expect(typeAfter("# [[Page#Part|Alias]] and [[#Local]]\n", "and", " also")).toBe("# [[Page#Part|Alias]] and also [[#Local]]\n");
+  });
+
+  it("keeps TOC markers printed from the tree", () => {
+    expect(reprint("[TOC]\n\n# Title\n")).toBe("[TOC]\n\n# Title\n");
+  });
+
+  it("still escapes brackets that are no wiki link", () => {
+    expect(typeAfter("a [b] c\n", "c", "!")).toBe("a \\[b] c!\n");
+  });
+
+  it("keeps the marker of an alert whose body is edited", () => {
+    expect(typeAfter("> [!NOTE]\n> Be careful\n", "careful", "!")).toBe("> [!NOTE]\n> Be careful!\n");
+    expect(typeAfter("> [!warning]\n> Mind [[Page]]\n", "Mind", " the")).toBe("> [!warning]\n> Mind the [[Page]]\n");
+  });
+
+  it("keeps definition lists in an edited block", () => {
+    expect(typeAfter("Term\n: Definition\n", "Definition", "s")).toBe("Term\n: Definitions\n");
+    expect(typeAfter("Term\n\n: Long definition\n", "Long", "er")).toBe("Term\n\n: Longer definition\n");
+  });
+});
+
+describe("docToMarkdownWithOffsets", () => {
+  // Split the paragraph after `after` the given number of times
+  const splitAfter = (markdown: string, after: string, times: number) => {
+    let state = EditorState.create({ doc: markdownToDoc(markdown) });
+    const pos = 1 + markdown.indexOf(after) + after.length;
+    for (let i = 0; i < times; i++) state = state.apply(state.tr.split(pos + 2 * i));
+    return state.doc;
+  };
+  const posOf = (doc: ReturnType<typeof markdownToDoc>, text: string) => {
+    let found = -1;
+    doc.descendants((node, pos) => {
+      if (found < 0 && node.isText && node.text!.includes(text)) found = pos + node.text!.indexOf(text);
+    });
+    return found;
+  };
+
+  it("maps positions past empty paragraphs, which aren't printed", () => {
+    for (const times of [1, 2, 5]) {
+      const doc = splitAfter("First\n\nSecond target here\n", "First", times);
+      const { markdown, offsets } = docToMarkdownWithOffsets(doc, [posOf(doc, "target")]);
+      expect(markdown).toBe("First\n\nSecond target here\n");
+      expect(offsets).toEqual([14]);
+    }
+  });
+
+  it("maps a cursor in an empty paragraph next to the blocks around it", () => {
+    const doc = splitAfter("First\n\nSecond\n", "First", 2);
+    const { offsets } = docToMarkdownWithOffsets(doc, [8, 10]);
+    expect(offsets).toEqual([7, 7]);
+  });
+});
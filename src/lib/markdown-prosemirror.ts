@@ -0,0 +1,578 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkStringify from "remark-stringify";
+import type { Mark, Node as ProseMirrorNode, NodeType } from "prosemirror-model";
+import type { EditorView } from "prosemirror-view";
+import { TableMap } from "prosemirror-tables";
+import { schema } from "@/lib/wysiwyg-schema";
+import { type MdastNode, SYNTAX_PLUGINS } from "@/lib/markdown-pipeline";
+import { FRONT_MATTER_PATTERN } from "@/lib/front-matter";
+
+/**
+ * Conversion between markdown and the visual editor's documents through
+ * mdast, the tree remark parses to and prints from.
+ *
+ * Printing a tree normalizes the source (list markers, escapes, blank
+ * lines), so top-level blocks remember the text they were parsed from and
+ * are printed as that text for as long as they are left untouched.
+ * ProseMirror keeps unchanged nodes as the same objects, so identity tells
+ * which blocks were edited.
+ */
+
+const processor = unified()
+  .use(remarkParse)
+  .use(SYNTAX_PLUGINS)
+  .use(remarkStringify, {
+    bullet: '-',
+    emphasis: '*',
+    strong: '*',
+    fence: '`',
+    fences: true,
+    rule: '-',
+    listItemIndent: 'one',
+  });
+
+type MdastRoot = ReturnType<typeof processor.parse>;
+
+interface SourceRecord {
+  text: string;
+  // Whitespace between the block and the one parsed before it
+  leading: string;
+  previous: ProseMirrorNode | null;
+  // Whitespace after the last block of the document
+  trailing?: string;
+}
+
+const sources = new WeakMap<ProseMirrorNode, SourceRecord>();
+
+// Where in the parsed markdown each node came from, for mapping selections
+const ranges = new WeakMap<ProseMirrorNode, { start: number; end: number }>();
+
+interface ParseContext {
+  source: string;
+  // Offset of `source` in the whole document, past any front matter
+  base: number;
+  definitions: Map<string, { url: string; title: string | null }>;
+}
+
+function sourceOf(node: MdastNode, context: ParseContext): string {
+  return context.source.slice(node.position?.start.offset ?? 0, node.position?.end.offset ?? 0);
+}
+
+function remember<T extends ProseMirrorNode>(node: T, from: MdastNode, context: ParseContext): T {
+  const { start, end } = from.position ?? { start: {}, end: {} };
+  if (start.offset !== undefined && end.offset !== undefined) {
+    ranges.set(node, { start: context.base + start.offset, end: context.base + end.offset });
+  }
+  return node;
+}
+
+// Text nodes map to the node's value inside its source, like the code between fences
+function rememberValue(node: ProseMirrorNode, from: MdastNode, value: string, context: ParseContext) {
+  const start = from.position?.start.offset;
+  const index = start === undefined ? -1 : sourceOf(from, context).indexOf(value);
+  if (start !== undefined && index >= 0) {
+    ranges.set(node, { start: context.base + start + index, end: context.base + start + index + value.length });
+  } else {
+    remember(node, from, context);
+  }
+  return node;
+}
+
+function collectDefinitions(node: MdastNode, definitions: ParseContext['definitions']) {
+  if (node.type === 'definition' && node.identifier && !definitions.has(node.identifier)) {
+    definitions.set(node.identifier, { url: node.url ?? '', title: node.title ?? null });
+  }
+  node.children?.forEach(child => collectDefinitions(child, definitions));
+  return definitions;
+}
+
+// Phrasing that becomes a mark; the leaves inside carry the source ranges
+const MARK_NODE_TYPES = new Set([
+  'emphasis', 'strong', 'delete', 'highlight', 'subscript', 'superscript', 'underline', 'link', 'linkReference',
+]);
+
+function inlineToProseMirror(nodes: MdastNode[], context: ParseContext, marks: readonly Mark[] = []): ProseMirrorNode[] {
+  return nodes.flatMap(node => {
+    const created = inlineNodeToProseMirror(node, context, marks);
+    if (!MARK_NODE_TYPES.has(node.type)) {
+      created.forEach(child => (child.isText ? rememberValue(child, node, child.text ?? '', context) : remember(child, node, context)));
+    }
+    return created;
+  });
+}
+
+function inlineNodeToProseMirror(node: MdastNode, context: ParseContext, marks: readonly Mark[]): ProseMirrorNode[] {
+  const withMark = (mark: Mark, children: MdastNode[]) => inlineToProseMirror(children, context, mark.addToSet(marks));
+
+  switch (node.type) {
+    case 'text':
+      return node.value ? [schema.text(node.value, marks)] : [];
+    case 'emphasis':
+      return withMark(schema.marks.em.create(), node.children ?? []);
+    case 'strong':
+      return withMark(schema.marks.strong.create(), node.children ?? []);
+    case 'delete':
+      return withMark(schema.marks.strike.create(), node.children ?? []);
+    case 'highlight':
+    case 'subscript':
+    case 'superscript':
+    case 'underline':
+      return withMark(schema.marks[node.type].create(), node.children ?? []);
+    case 'inlineCode':
+      return node.value ? [schema.text(node.value, schema.marks.code.create().addToSet(marks))] : [];
+    case 'link':
+      return withMark(schema.marks.link.create({ href: node.url, title: node.title ?? null }), node.children ?? []);
+    case 'linkReference': {
+      const definition = context.definitions.get(node.identifier ?? '');
+      return withMark(schema.marks.link.create({
+        href: definition?.url ?? '',
+        title: definition?.title ?? null,
+        reference: { type: node.referenceType, identifier: node.identifier, label: node.label ?? null },
+      }), node.children ?? []);
+    }
+    case 'image':
+      return [schema.nodes.image.create({ src: node.url, alt: node.alt ?? null, title: node.title ?? null }, null, marks)];
+    case 'imageReference': {
+      const definition = context.definitions.get(node.identifier ?? '');
+      return [schema.nodes.image.create({
+        src: definition?.url ?? '',
+        alt: node.alt ?? null,
+        title: definition?.title ?? null,
+        reference: { type: node.referenceType, identifier: node.identifier, label: node.label ?? null },
+      }, null, marks)];
+    }
+    case 'break':
+      return [schema.nodes.hard_break.create(null, null, marks)];
+    case 'html':
+      return [schema.nodes.html_inline.create({ value: node.value }, null, marks)];
+    case 'inlineMath':
+      return [schema.nodes.math_inline.create({ value: node.value }, null, marks)];
+    case 'footnoteReference':
+      return [schema.nodes.footnote_reference.create({ identifier: node.identifier, label: node.label ?? null }, null, marks)];
+    default:
+      // Anything else stays as the markdown it was written as
+      return [schema.nodes.html_inline.create({ value: sourceOf(node, context) }, null, marks)];
+  }
+}
+
+// List items and table cells must start with a paragraph
+function withLeadingParagraph(content: ProseMirrorNode[]): ProseMirrorNode[] {
+  return content[0]?.type === schema.nodes.paragraph ? content : [schema.nodes.paragraph.create(), ...content];
+}
+
+function blocksToProseMirror(nodes: MdastNode[], context: ParseContext): ProseMirrorNode[] {
+  return nodes.map(node => blockToProseMirror(node, context));
+}
+
+function listToProseMirror(node: MdastNode, context: ParseContext): ProseMirrorNode {
+  const items = node.children ?? [];
+  const tight = !node.spread;
+  const isTaskList = !node.ordered && items.length > 0 && items.every(item => typeof item.checked === 'boolean');
+
+  const createItems = (itemType: NodeType) => items.map(item => remember(itemType.create(
+    { checked: typeof item.checked === 'boolean' ? item.checked : isTaskList ? false : null },
+    withLeadingParagraph(blocksToProseMirror(item.children ?? [], context))
+  ), item, context));
+
+  if (isTaskList) return schema.nodes.task_list.create({ tight }, createItems(schema.nodes.task_item));
+  if (node.ordered) return schema.nodes.ordered_list.create({ order: node.start ?? 1, tight }, createItems(schema.nodes.list_item));
+  return schema.nodes.bullet_list.create({ tight }, createItems(schema.nodes.list_item));
+}
+
+function tableToProseMirror(node: MdastNode, context: ParseContext): ProseMirrorNode {
+  const align = node.align ?? [];
+  return schema.nodes.table.create(null, (node.children ?? []).map((row, rowIndex) => remember(schema.nodes.table_row.create(
+    null,
+    (row.children ?? []).map((cell, cellIndex) => remember((rowIndex === 0 ? schema.nodes.table_header : schema.nodes.table_cell).create(
+      { align: align[cellIndex] ?? null },
+      schema.nodes.paragraph.create(null, inlineToProseMirror(cell.children ?? [], context))
+    ), cell, context))
+  ), row, context)));
+}
+
+function blockToProseMirror(node: MdastNode, context: ParseContext): ProseMirrorNode {
+  return remember(createBlock(node, context), node, context);
+}
+
+function createBlock(node: MdastNode, context: ParseContext): ProseMirrorNode {
+  const text = (value?: string) => (value ? rememberValue(schema.text(value), node, value, context) : null);
+
+  switch (node.type) {
+    case 'paragraph':
+      return schema.nodes.paragraph.create(null, inlineToProseMirror(node.children ?? [], context));
+    case 'heading':
+      return schema.nodes.heading.create({ level: node.depth }, inlineToProseMirror(node.children ?? [], context));
+    case 'thematicBreak':
+      return schema.nodes.horizontal_rule.create();
+    case 'blockquote': {
+      const content = blocksToProseMirror(node.children ?? [], context);
+      return schema.nodes.blockquote.create(null, content.length > 0 ? content : schema.nodes.paragraph.create());
+    }
+    case 'code':
+      return schema.nodes.code_block.create({ language: node.lang ?? null, meta: node.meta ?? null }, text(node.value));
+    case 'html':
+      return schema.nodes.html_block.create(null, text(node.value));
+    case 'math':
+      return schema.nodes.math_block.create({ value: node.value });
+    case 'list':
+      return listToProseMirror(node, context);
+    case 'table':
+      return tableToProseMirror(node, context);
+    case 'definition':
+      return schema.nodes.definition.create({
+        identifier: node.identifier,
+        label: node.label ?? null,
+        url: node.url ?? '',
+        title: node.title ?? null,
+      });
+    case 'footnoteDefinition': {
+      const content = blocksToProseMirror(node.children ?? [], context);
+      return schema.nodes.footnote_definition.create(
+        { identifier: node.identifier, label: node.label ?? null },
+        content.length > 0 ? content : schema.nodes.paragraph.create()
+      );
+    }
+    default:
+      return schema.nodes.html_block.create(null, text(sourceOf(node, context)));
+  }
+}
+
+/** Parse markdown into a document of the visual editor's schema. */
+export function markdownToDoc(markdown: string): ProseMirrorNode {
+  const blocks: ProseMirrorNode[] = [];
+  let previous: ProseMirrorNode | null = null;
+  let body = markdown;
+
+  const frontMatter = markdown.match(FRONT_MATTER_PATTERN);
+  if (frontMatter) {
+    const content = frontMatter[2] ? schema.text(frontMatter[2]) : null;
+    const node = schema.nodes.front_matter.create({ fence: frontMatter[1] }, content);
+    sources.set(node, { text: frontMatter[0], leading: '', previous: null });
+    ranges.set(node, { start: 0, end: frontMatter[0].length });
+    if (content) {
+      const start = frontMatter[0].indexOf(frontMatter[2]);
+      ranges.set(content, { start, end: start + frontMatter[2].length });
+    }
+    blocks.push(node);
+    previous = node;
+    body = markdown.slice(frontMatter[0].length);
+  }
+
+  const root = processor.runSync(processor.parse(body), body) as unknown as MdastNode;
+  const context: ParseContext = {
+    source: body,
+    base: markdown.length - body.length,
+    definitions: collectDefinitions(root, new Map()),
+  };
+  let offset = 0;
+
+  for (const child of root.children ?? []) {
+    const start = child.position?.start.offset ?? offset;
+    const end = child.position?.end.offset ?? start;
+    const node = blockToProseMirror(child, context);
+    sources.set(node, { text: body.slice(start, end), leading: body.slice(offset, start), previous });
+    blocks.push(node);
+    previous = node;
+    offset = end;
+  }
+
+  if (!previous) {
+    previous = schema.nodes.paragraph.create();
+    sources.set(previous, { text: '', leading: '', previous: null });
+    blocks.push(previous);
+  }
+  sources.get(previous)!.trailing = body.slice(offset);
+
+  return schema.nodes.doc.create(null, blocks);
+}
+
+function markToMdast(mark: Mark): MdastNode {
+  switch (mark.type.name) {
+    case 'em':
+      return { type: 'emphasis', children: [] };
+    case 'strong':
+      return { type: 'strong', children: [] };
+    case 'strike':
+      return { type: 'delete', children: [] };
+    case 'highlight':
+    case 'subscript':
+    case 'superscript':
+    case 'underline':
+      return { type: mark.type.name, children: [] };
+    default: {
+      const { href, title, reference } = mark.attrs;
+      return reference
+        ? { type: 'linkReference', identifier: reference.identifier, label: reference.label, referenceType: reference.type, children: [] }
+        : { type: 'link', url: href, title, children: [] };
+    }
+  }
+}
+
+function leafToMdast(node: ProseMirrorNode): MdastNode {
+  switch (node.type.name) {
+    case 'image': {
+      const { src, alt, title, reference } = node.attrs;
+      return reference
+        ? { type: 'imageReference', identifier: reference.identifier, label: reference.label, referenceType: reference.type, alt }
+        : { type: 'image', url: src, alt, title };
+    }
+    case 'hard_break':
+      return { type: 'break' };
+    case 'html_inline':
+      return { type: 'html', value: node.attrs.value };
+    case 'math_inline':
+      return { type: 'inlineMath', value: node.attrs.value };
+    case 'footnote_reference':
+      return { type: 'footnoteReference', identifier: node.attrs.identifier, label: node.attrs.label };
+    default:
+      return node.marks.some(mark => mark.type === schema.marks.code)
+        ? { type: 'inlineCode', value: node.text ?? '' }
+        : { type: 'text', value: node.text ?? '' };
+  }
+}
+
+// Rebuild nested phrasing from ProseMirror's flat runs of marked inline nodes
+function inlineToMdast(parent: ProseMirrorNode): MdastNode[] {
+  const root: MdastNode = { type: 'root', children: [] };
+  const stack: { mark: Mark | null; node: MdastNode }[] = [{ mark: null, node: root }];
+
+  parent.forEach(child => {
+    const marks = child.marks.filter(mark => mark.type !== schema.marks.code);
+    let depth = 1;
+    while (depth < stack.length && marks.some(mark => mark.eq(stack[depth].mark!))) depth++;
+    stack.length = depth;
+
+    for (const mark of marks) {
+      if (stack.some(entry => entry.mark?.eq(mark))) continue;
+      const wrapper = markToMdast(mark);
+      stack[stack.length - 1].node.children!.push(wrapper);
+      stack.push({ mark, node: wrapper });
+    }
+    stack[stack.length - 1].node.children!.push(leafToMdast(child));
+  });
+
+  return root.children!;
+}
+
+function blocksToMdast(parent: ProseMirrorNode): MdastNode[] {
+  const blocks: MdastNode[] = [];
+  parent.forEach(child => blocks.push(blockToMdast(child)));
+  return blocks;
+}
+
+function listToMdast(node: ProseMirrorNode): MdastNode {
+  const spread = !node.attrs.tight;
+  const children: MdastNode[] = [];
+  node.forEach(item => children.push({
+    type: 'listItem',
+    spread,
+    checked: typeof item.attrs.checked === 'boolean' ? item.attrs.checked : null,
+    children: blocksToMdast(item),
+  }));
+
+  const ordered = node.type === schema.nodes.ordered_list;
+  return { type: 'list', ordered, start: ordered ? node.attrs.order : null, spread, children };
+}
+
+function cellToMdast(cell: ProseMirrorNode | null): MdastNode {
+  // Cells hold a single line, so further paragraphs join with breaks
+  return {
+    type: 'tableCell',
+    children: cell ? blocksToMdast(cell).flatMap((block, index) => [
+      ...(index > 0 ? [{ type: 'break' }] : []),
+      ...(block.type === 'paragraph' ? block.children ?? [] : []),
+    ]) : [],
+  };
+}
+
+function tableToMdast(node: ProseMirrorNode): MdastNode {
+  // Markdown has no merged cells, so the columns and rows a cell spans are left empty
+  const map = TableMap.get(node);
+  const printed = new Set<number>();
+  const rows: MdastNode[] = [];
+  for (let row = 0; row < map.height; row++) {
+    const cells: MdastNode[] = [];
+    for (let column = 0; column < map.width; column++) {
+      const pos = map.map[row * map.width + column];
+      cells.push(cellToMdast(printed.has(pos) ? null : node.nodeAt(pos)));
+      printed.add(pos);
+    }
+    rows.push({ type: 'tableRow', children: cells });
+  }
+
+  const align: (string | null)[] = [];
+  for (let column = 0; column < map.width; column++) {
+    align.push(node.nodeAt(map.map[column])?.attrs.align ?? null);
+  }
+  return { type: 'table', align, children: rows };
+}
+
+function blockToMdast(node: ProseMirrorNode): MdastNode {
+  switch (node.type.name) {
+    case 'heading':
+      return { type: 'heading', depth: node.attrs.level, children: inlineToMdast(node) };
+    case 'horizontal_rule':
+      return { type: 'thematicBreak' };
+    case 'blockquote':
+      return { type: 'blockquote', children: blocksToMdast(node) };
+    case 'code_block':
+      return { type: 'code', lang: node.attrs.language, meta: node.attrs.meta, value: node.textContent };
+    case 'html_block':
+      return { type: 'html', value: node.textContent };
+    case 'front_matter': {
+      // Printed as raw HTML, which comes out exactly as given
+      const { fence } = node.attrs;
+      return { type: 'html', value: node.textContent ? `${fence}\n${node.textContent}\n${fence}` : `${fence}\n${fence}` };
+    }
+    case 'math_block':
+      return { type: 'math', value: node.attrs.value };
+    case 'bullet_list':
+    case 'ordered_list':
+    case 'task_list':
+      return listToMdast(node);
+    case 'table':
+      return tableToMdast(node);
+    case 'definition': {
+      const { identifier, label, url, title } = node.attrs;
+      return { type: 'definition', identifier, label, url, title };
+    }
+    case 'footnote_definition':
+      return { type: 'footnoteDefinition', identifier: node.attrs.identifier, label: node.attrs.label, children: blocksToMdast(node) };
+    default:
+      return { type: 'paragraph', children: inlineToMdast(node) };
+  }
+}
+
+function stringifyBlocks(nodes: ProseMirrorNode[]): string {
+  const root: MdastNode = { type: 'root', children: nodes.map(blockToMdast) };
+  return processor.stringify(root as unknown as MdastRoot).replace(/\n+$/, '');
+}
+
+/** Print a document back to markdown, keeping the source of untouched blocks. */
+export function docToMarkdown(doc: ProseMirrorNode): string {
+  let markdown = '';
+  let previous: ProseMirrorNode | null = null;
+  let last: ProseMirrorNode | null = null;
+  let edited: ProseMirrorNode[] = [];
+
+  const flushEdited = () => {
+    if (edited.length === 0) return;
+    const text = stringifyBlocks(edited);
+    if (text) markdown += (markdown ? '\n\n' : '') + text;
+    edited = [];
+  };
+
+  doc.forEach(node => {
+    const record = sources.get(node);
+    if (record) {
+      flushEdited();
+      markdown += (record.previous === previous ? record.leading : markdown ? '\n\n' : '') + record.text;
+      last = node;
+    } else if (node.type !== schema.nodes.paragraph || node.childCount > 0) {
+      // Empty paragraphs are only a place for the cursor
+      edited.push(node);
+      last = node;
+    }
+    previous = node;
+  });
+  flushEdited();
+
+  const trailing = last ? sources.get(last)?.trailing : undefined;
+  return markdown + (trailing ?? (markdown ? '\n' : ''));
+}
+
+/**
+ * Position in a document made by `markdownToDoc` closest to an offset in
+ * the markdown it was parsed from. Offsets inside markup land next to the
+ * nearest text; the result may still need `Selection.near`.
+ */
+export function posAtSourceOffset(doc: ProseMirrorNode, offset: number): number {
+  let best = 0;
+
+  doc.descendants((node, pos) => {
+    const range = ranges.get(node);
+    if (!range) return true;
+    if (range.start > offset) return false;
+
+    if (node.isInline) {
+      if (range.end <= offset) {
+        best = pos + node.nodeSize;
+      } else {
+        best = node.isText ? pos + Math.min(offset - range.start, node.nodeSize) : pos;
+      }
+      return false;
+    }
+    if (node.isTextblock) {
+      best = range.end < offset ? pos + node.nodeSize - 1 : pos + 1;
+      return range.end >= offset;
+    }
+    return true;
+  });
+
+  return best;
+}
+
+function sourceOffsetAtPos(doc: ProseMirrorNode, pos: number): number {
+  const $pos = doc.resolve(Math.min(pos, doc.content.size));
+
+  if ($pos.parent.inlineContent) {
+    let offset: number | null = null;
+    $pos.parent.forEach((child, childOffset) => {
+      const range = ranges.get(child);
+      const start = $pos.start() + childOffset;
+      if (!range || start > $pos.pos) return;
+      if (start + child.nodeSize <= $pos.pos) {
+        offset = range.end;
+      } else if (child.isText) {
+        offset = Math.min(range.start + $pos.pos - start, range.end);
+      } else {
+        offset = range.start;
+      }
+    });
+    if (offset !== null) return offset;
+  }
+
+  for (let depth = $pos.depth; depth > 0; depth--) {
+    const range = ranges.get($pos.node(depth));
+    if (range) return range.start;
+  }
+  return 0;
+}
+
+// Printing leaves out empty paragraphs, so the parsed document lacks them
+function posWithoutEmptyParagraphs(doc: ProseMirrorNode, parsed: ProseMirrorNode, pos: number): number {
+  let mapped = pos;
+  let inside = false;
+  doc.forEach((node, offset) => {
+    if (node.type !== schema.nodes.paragraph || node.childCount > 0 || sources.has(node) || offset >= pos) return;
+    inside ||= offset + node.nodeSize > pos;
+    mapped -= Math.min(node.nodeSize, pos - offset);
+  });
+  if (!inside) return mapped;
+  // From an empty paragraph to the start of the next block, or the end of the last one
+  return mapped < parsed.content.size ? mapped + 1 : Math.max(mapped - 1, 0);
+}
+
+/**
+ * Print a document and find where positions in it ended up in the markdown.
+ * The printed markdown is parsed again, which gives a document of the same
+ * shape, but for empty paragraphs, whose nodes know their source ranges.
+ */
+export function docToMarkdownWithOffsets(doc: ProseMirrorNode, positions: number[]): { markdown: string; offsets: number[] } {
+  const markdown = docToMarkdown(doc);
+  const parsed = markdownToDoc(markdown);
+  return { markdown, offsets: positions.map(pos => sourceOffsetAtPos(parsed, posWithoutEmptyParagraphs(doc, parsed, pos))) };
+}
+
+// Visual editors holding edits that haven't been printed back to markdown yet
+const pendingEdits = new WeakSet<EditorView>();
+
+export function setPendingEdits(view: EditorView, pending: boolean) {
+  if (pending) pendingEdits.add(view);
+  else pendingEdits.delete(view);
+}
+
+export function hasPendingEdits(view: EditorView): boolean {
+  return pendingEdits.has(view);
+}
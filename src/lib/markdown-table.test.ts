@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { EditorSelection, EditorState, type TransactionSpec } from "@codemirror/state";
+import type { Command, EditorView } from "@codemirror/view";
+import { deleteTableColumn, formatTableAtCursor, insertTableColumnRight, sortTableByColumn } from "@/lib/markdown-table";
+
+// Run a command with the cursor after the first `at`, on just enough of a view
+const run = (command: Command, text: string, at: string) => {
+  const view = {
+    state: EditorState.create({ doc: text, selection: EditorSelection.cursor(text.indexOf(at) + at.length) }),
+    dispatch(spec: TransactionSpec) {
+      this.state = this.state.update(spec).state;
+    },
+    focus() {},
+  };
+  return command(view as unknown as EditorView) ? view.state.doc.toString() : null;
+};
+
+describe("table commands", () => {
+  it("lines up the pipes of a table", () => {
+    expect(run(formatTableAtCursor, "|a|b|\n|-|-|\n|long cell|c|", "a")).toBe(
+      "| a         | b   |\n| --------- | --- |\n| long cell | c   |"
+    );
+  });
+
+  it("counts CJK characters and emoji as two columns", () => {
+    expect(run(formatTableAtCursor, "| 名称 | x |\n|-|-|\n| ab | 😀 |", "x")).toBe(
+      "| 名称 | x   |\n| ---- | --- |\n| ab   | 😀  |"
+    );
+  });
+
+  it("keeps escaped pipes inside their cell", () => {
+    expect(run(formatTableAtCursor, "| a \\| b | c |\n|---|---|\n| 1 | 2 |", "c")).toBe(
+      "| a \\| b | c   |\n| ------ | --- |\n| 1      | 2   |"
+    );
+    expect(run(formatTableAtCursor, "| a \\| | b |\n|---|---|\n| 1 | 2 |", "b")).toBe(
+      "| a \\| | b   |\n| ---- | --- |\n| 1    | 2   |"
+    );
+  });
+
+  it("reads rows without outer pipes and fills short rows", () => {
+    expect(run(formatTableAtCursor, "a | b\n--|--\n1 |", "a")).toBe("| a   | b   |\n| --- | --- |\n| 1   |     |");
+  });
+
+  it("keeps column alignment while padding", () => {
+    expect(run(formatTableAtCursor, "| a | b | c |\n|:-|:-:|-:|\n| 1 | 中 | 3 |", "a")).toBe(
+      "| a   |  b  |   c |\n| :-- | :-: | --: |\n| 1   | 中  |   3 |"
+    );
+  });
+
+  it("adds and deletes columns", () => {
+    expect(run(insertTableColumnRight, "| a | b |\n|---|---|\n| 1 | 2 |", "a")).toBe(
+      "| a   |     | b   |\n| --- | --- | --- |\n| 1   |     | 2   |"
+    );
+    expect(run(deleteTableColumn, "| a | b |\n|---|---|\n| 1 | 2 |", "a")).toBe("| b   |\n| --- |\n| 2   |");
+  });
+
+  it("sorts body rows by the column at the cursor, numbers by value", () => {
+    expect(run(sortTableByColumn(false), "| n |\n|---|\n| 10 |\n| 9 |\n| 100 |", "n")).toBe(
+      "| n   |\n| --- |\n| 9   |\n| 10  |\n| 100 |"
+    );
+  });
+
+  it("does nothing outside a table", () => {
+    expect(run(formatTableAtCursor, "a | b\nno delimiter", "a")).toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+import { EditorSelection, type EditorState } from "@codemirror/state";
+import type { Command, EditorView } from "@codemirror/view";
+
+/**
+ * Editing GFM pipe tables in the source editor. Every command reformats
+ * the whole table so its pipes line up, counting CJK characters as two
+ * columns wide like a monospace font shows them.
+ */
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+interface SourceTable {
+  from: number;
+  to: number;
+  // Line number of the header row
+  firstLine: number;
+  indent: string;
+  align: TableAlign[];
+  // The header row followed by the body rows, without the delimiter row
+  rows: string[][];
+}
+
+interface CellPosition {
+  row: number;
+  column: number;
+}
+
+const DELIMITER_ROW = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+const WIDE_CHARACTER = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]|[\ud800-\udbff][\udc00-\udfff]/g;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+function displayWidth(text: string): number {
+  return text.length + (text.match(WIDE_CHARACTER)?.length ?? 0) - (text.match(/[\ud800-\udbff]/g)?.length ?? 0);
+}
+
+// Cells of a row, split at pipes that aren't escaped
+function splitRow(text: string): string[] {
+  const row = text.trim().replace(/^\|/, '');
+  const cells: string[] = [];
+  let cell = '';
+
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && i + 1 < row.length) {
+      cell += row[i] + row[i + 1];
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  if (cell.trim() || !/[^\\]\|$|^\|$/.test(row)) cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+/** The table around a position, if the lines there form a pipe table. */
+function findTable(state: EditorState, pos: number): SourceTable | null {
+  const { doc } = state;
+  const isRow = (lineNumber: number) => {
+    const text = doc.line(lineNumber).text;
+    return text.includes('|') && text.trim() !== '';
+  };
+
+  const current = doc.lineAt(pos).number;
+  if (!isRow(current)) return null;
+  let first = current;
+  let last = current;
+  while (first > 1 && isRow(first - 1)) first--;
+  while (last < doc.lines && isRow(last + 1)) last++;
+
+  // The header must be followed by its delimiter row
+  while (first < last && !DELIMITER_ROW.test(doc.line(first + 1).text.trim())) first++;
+  if (first >= last || first > current) return null;
+
+  const header = splitRow(doc.line(first).text);
+  const delimiter = splitRow(doc.line(first + 1).text);
+  if (header.length !== delimiter.length) return null;
+
+  const rows = [header];
+  for (let line = first + 2; line <= last; line++) rows.push(splitRow(doc.line(line).text));
+
+  return {
+    from: doc.line(first).from,
+    to: doc.line(last).to,
+    firstLine: first,
+    indent: doc.line(first).text.match(/^\s*/)![0],
+    align: delimiter.map(parseAlign),
+    rows,
+  };
+}
+
+export function isInTable(state: EditorState): boolean {
+  return findTable(state, state.selection.main.head) !== null;
+}
+
+function pad(text: string, width: number, align: TableAlign): string {
+  const space = width - displayWidth(text);
+  if (align === 'right') return ' '.repeat(space) + text;
+  if (align === 'center') return ' '.repeat(Math.floor(space / 2)) + text + ' '.repeat(Math.ceil(space / 2));
+  return text + ' '.repeat(space);
+}
+
+function delimiterCell(width: number, align: TableAlign): string {
+  const dashes = '-'.repeat(Math.max(width - (align === 'center' ? 2 : align ? 1 : 0), 1));
+  if (align === 'center') return `:${dashes}:`;
+  if (align === 'left') return `:${dashes}`;
+  if (align === 'right') return `${dashes}:`;
+  return dashes;
+}
+
+/**
+ * Text of a table with its columns lined up, and where each cell's
+ * content ended up, relative to the start of the table.
+ */
+function formatTable(table: SourceTable): { text: string; cells: { from: number; to: number }[][] } {
+  const columns = Math.max(...table.rows.map(row => row.length));
+  const rows = table.rows.map(row => [...row, ...Array<string>(columns - row.length).fill('')]);
+  const align = Array.from({ length: columns }, (_, column) => table.align[column] ?? null);
+  const widths = align.map((_, column) => Math.max(3, ...rows.map(row => displayWidth(row[column]))));
+
+  const lines: string[] = [];
+  const cells: { from: number; to: number }[][] = [];
+  let offset = 0;
+
+  const addLine = (texts: string[], cellAlign: TableAlign[], record: boolean) => {
+    let line = table.indent + '|';
+    const positions: { from: number; to: number }[] = [];
+    texts.forEach((text, column) => {
+      const padded = pad(text, widths[column], cellAlign[column]);
+      const start = offset + line.length + 1 + padded.indexOf(text);
+      positions.push({ from: start, to: start + text.length });
+      line += ` ${padded} |`;
+    });
+    lines.push(line);
+    if (record) cells.push(positions);
+    offset += line.length + 1;
+  };
+
+  addLine(rows[0], align, true);
+  addLine(widths.map((width, column) => delimiterCell(width, align[column])), align.map(() => null), false);
+  rows.slice(1).forEach(row => addLine(row, align, true));
+  return { text: lines.join('\n'), cells };
+}
+
+// Row and column of the cell holding a position; the delimiter row counts as the header
+function cellAt(state: EditorState, table: SourceTable, pos: number): CellPosition {
+  const line = state.doc.lineAt(pos);
+  const lineIndex = line.number - table.firstLine;
+  const before = line.text.slice(0, pos - line.from).trimStart().replace(/^\|/, '').replace(/\\./g, '');
+  return {
+    row: lineIndex <= 1 ? 0 : lineIndex - 1,
+    column: Math.min((before.match(/\|/g) ?? []).length, table.rows[0].length - 1),
+  };
+}
+
+// Replace the table with its formatted text and select the content of a cell
+function applyTable(view: EditorView, table: SourceTable, target: CellPosition) {
+  const { text, cells } = formatTable(table);
+  const row = Math.max(0, Math.min(target.row, cells.length - 1));
+  const cell = cells[row][Math.max(0, Math.min(target.column, cells[row].length - 1))];
+  view.dispatch({
+    changes: { from: table.from, to: table.to, insert: text },
+    selection: EditorSelection.range(table.from + cell.from, table.from + cell.to),
+    scrollIntoView: true,
+    userEvent: 'input.table',
+  });
+}
+
+/**
+ * Command running an edit on the table at the cursor. The edit changes
+ * the table in place and returns the cell to select afterwards, or false
+ * when it doesn't apply.
+ */
+function tableCommand(edit: (table: SourceTable, cell: CellPosition) => CellPosition | false): Command {
+  return (view) => {
+    const { head } = view.state.selection.main;
+    const table = findTable(view.state, head);
+    if (!table) return false;
+    const target = edit(table, cellAt(view.state, table, head));
+    if (target === false) return false;
+    applyTable(view, table, target);
+    return true;
+  };
+}
+
+const emptyRow = (table: SourceTable) => Array<string>(Math.max(...table.rows.map(row => row.length))).fill('');
+
+export const formatTableAtCursor = tableCommand((_table, cell) => cell);
+
+// Past the last cell a new row is added, like in spreadsheets
+export const nextTableCell = tableCommand((table, { row, column }) => {
+  const columns = table.rows[0].length;
+  if (column + 1 < columns) return { row, column: column + 1 };
+  if (row + 1 >= table.rows.length) table.rows.push(emptyRow(table));
+  return { row: row + 1, column: 0 };
+});
+
+export const previousTableCell = tableCommand((table, { row, column }) => {
+  if (column > 0) return { row, column: column - 1 };
+  if (row > 0) return { row: row - 1, column: table.rows[0].length - 1 };
+  return { row, column };
+});
+
+export const insertTableRowBelow = tableCommand((table, { row, column }) => {
+  table.rows.splice(row + 1, 0, emptyRow(table));
+  return { row: row + 1, column };
+});
+
+// The header stays the first row
+export const insertTableRowAbove = tableCommand((table, { row, column }) => {
+  if (row === 0) return false;
+  table.rows.splice(row, 0, emptyRow(table));
+  return { row, column };
+});
+
+export const deleteTableRow = tableCommand((table, { row, column }) => {
+  if (row === 0) return false;
+  table.rows.splice(row, 1);
+  return { row: Math.min(row, table.rows.length - 1), column };
+});
+
+function insertColumn(offset: 0 | 1) {
+  return tableCommand((table, { row, column }) => {
+    const at = column + offset;
+    table.rows.forEach(cells => cells.splice(at, 0, ''));
+    table.align.splice(at, 0, null);
+    return { row, column: at };
+  });
+}
+
+export const insertTableColumnLeft = insertColumn(0);
+export const insertTableColumnRight = insertColumn(1);
+
+export const deleteTableColumn = tableCommand((table, { row, column }) => {
+  if (table.rows[0].length <= 1) return false;
+  table.rows.forEach(cells => cells.splice(column, 1));
+  table.align.splice(column, 1);
+  return { row, column: Math.min(column, table.rows[0].length - 1) };
+});
+
+/** Sort the body rows by the column at the cursor, numbers by value. */
+export function sortTableByColumn(descending: boolean): Command {
+  return tableCommand((table, { column }) => {
+    const body = table.rows.slice(1);
+    body.sort((a, b) => collator.compare(a[column] ?? '', b[column] ?? '') * (descending ? -1 : 1));
+    table.rows.splice(1, body.length, ...body);
+    return { row: 0, column };
+  });
+}
+
+/** Insert an empty table of the given size, header included, on lines of its own. */
+export function insertTable(rows: number, columns: number): Command {
+  return (view) => {
+    const { state } = view;
+    const line = state.doc.lineAt(state.selection.main.head);
+    const table: SourceTable = {
+      from: 0,
+      to: 0,
+      firstLine: 0,
+      indent: '',
+      align: Array<TableAlign>(columns).fill(null),
+      rows: Array.from({ length: Math.max(rows, 1) }, () => Array<string>(columns).fill('')),
+    };
+    const { text, cells } = formatTable(table);
+
+    const atEmptyLine = line.text.trim() === '';
+    const from = atEmptyLine ? line.from : line.to;
+    const prefix = atEmptyLine ? (line.number > 1 && state.doc.line(line.number - 1).text.trim() ? '\n' : '') : '\n\n';
+    const next = line.number < state.doc.lines ? state.doc.line(line.number + 1).text : '';
+    const suffix = next.trim() ? '\n\n' : line.number < state.doc.lines ? '' : '\n';
+
+    view.dispatch({
+      changes: { from, to: line.to, insert: prefix + text + suffix },
+      selection: { anchor: from + prefix.length + cells[0][0].from },
+      scrollIntoView: true,
+      userEvent: 'input.table',
+    });
+    view.focus();
+    return true;
+  };
+}
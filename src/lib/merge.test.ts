@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { defaultMergeChoice, diff3, resolveMerge, type MergeChoice } from "@/lib/merge";
+
+const kinds = (base: string, ours: string, theirs: string) => diff3(base, ours, theirs).map(hunk => hunk.kind);
+
+// The merge taking each hunk's default, or the given choice for conflicts
+const merge = (base: string, ours: string, theirs: string, conflict?: MergeChoice) => {
+  const hunks = diff3(base, ours, theirs);
+  return resolveMerge(hunks, hunks.map(hunk => (hunk.kind === 'conflict' && conflict) || defaultMergeChoice(hunk)));
+};
+
+describe("diff3", () => {
+  it("keeps identical versions as one stable hunk", () => {
+    expect(kinds("a\nb\nc", "a\nb\nc", "a\nb\nc")).toEqual(["stable"]);
+  });
+
+  it("takes edits made on one side only", () => {
+    expect(kinds("a\nb\nc", "a\nB\nc", "a\nb\nc")).toEqual(["stable", "ours", "stable"]);
+    expect(merge("a\nb\nc", "a\nB\nc", "a\nb\nc")).toBe("a\nB\nc");
+    expect(kinds("a\nb\nc", "a\nb\nc", "a\nb\nC")).toEqual(["stable", "theirs"]);
+    expect(merge("a\nb\nc", "a\nb\nc", "a\nb\nC")).toBe("a\nb\nC");
+  });
+
+  it("merges edits separated by an unchanged line", () => {
+    expect(kinds("a\nb\nc\nd\ne", "a\nB\nc\nd\ne", "a\nb\nc\nD\ne")).toEqual(["stable", "ours", "stable", "theirs", "stable"]);
+    expect(merge("a\nb\nc\nd\ne", "a\nB\nc\nd\ne", "a\nb\nc\nD\ne")).toBe("a\nB\nc\nD\ne");
+  });
+
+  it("lets edits to adjacent lines conflict", () => {
+    const hunks = diff3("a\nb\nc\nd", "a\nB\nc\nd", "a\nb\nC\nd");
+    expect(hunks.map(hunk => hunk.kind)).toEqual(["stable", "conflict", "stable"]);
+    expect(hunks[1]).toEqual({ kind: "conflict", base: ["b", "c"], ours: ["B", "c"], theirs: ["b", "C"] });
+  });
+
+  it("lets different edits to the same line conflict, and agrees on equal ones", () => {
+    expect(kinds("a\nb\nc", "a\nX\nc", "a\nY\nc")).toEqual(["stable", "conflict", "stable"]);
+    expect(kinds("a\nb\nc", "a\nX\nc", "a\nX\nc")).toEqual(["stable", "same", "stable"]);
+    expect(merge("a\nb\nc", "a\nX\nc", "a\nX\nc")).toBe("a\nX\nc");
+  });
+
+  it("merges insertions at the start and the end", () => {
+    expect(kinds("a\nb", "new\na\nb", "a\nb\nend")).toEqual(["ours", "stable", "theirs"]);
+    expect(merge("a\nb", "new\na\nb", "a\nb\nend")).toBe("new\na\nb\nend");
+  });
+
+  it("lets different insertions at the same place conflict", () => {
+    expect(kinds("a\nb", "a\nX\nb", "a\nY\nb")).toEqual(["stable", "conflict", "stable"]);
+    expect(merge("a\nb", "a\nX\nb", "a\nY\nb", "both")).toBe("a\nX\nY\nb");
+    expect(merge("a\nb", "a\nX\nb", "a\nY\nb", "base")).toBe("a\nb");
+  });
+
+  it("keeps repeated identical lines apart", () => {
+    expect(merge("x\nx\nx", "x\nx\nx\nx", "x\nx\nx")).toBe("x\nx\nx\nx");
+    expect(merge("x\nx\nx", "x\nx\nx", "x\nx")).toBe("x\nx");
+    expect(merge("x\nx\nx", "y\nx\nx\nx", "x\nx\nx\nz")).toBe("y\nx\nx\nx\nz");
+    // Both sides add the same line
+    expect(kinds("x\nx\nx", "x\nx\nx\nx", "x\nx\nx\nx")).toEqual(["stable", "same"]);
+  });
+
+  it("treats a middle too large to diff as one replaced block", () => {
+    // Every other line changes, so a full diff would give a hunk per change
+    const base = ["start", ...Array.from({ length: 2100 }, (_, i) => `line ${i}`), "end"];
+    const ours = base.map((line, i) => (i > 0 && i < base.length - 1 && i % 2 === 1 ? `changed ${i}` : line));
+
+    expect(kinds(base.slice(0, 12).join("\n"), ours.slice(0, 12).join("\n"), base.slice(0, 12).join("\n")).length).toBeGreaterThan(3);
+    expect(kinds(base.join("\n"), ours.join("\n"), base.join("\n"))).toEqual(["stable", "ours", "stable"]);
+    expect(merge(base.join("\n"), ours.join("\n"), base.join("\n"))).toBe(ours.join("\n"));
+  });
+});
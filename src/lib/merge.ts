@@ -0,0 +1,184 @@
+/**
+ * Line-based three-way merge between the version a buffer was loaded from
+ * (base), the user's edits (ours) and what is now on disk (theirs).
+ */
+
+export type MergeHunkKind = 'stable' | 'ours' | 'theirs' | 'same' | 'conflict';
+
+export type MergeChoice = 'ours' | 'theirs' | 'both' | 'base';
+
+export interface MergeHunk {
+  kind: MergeHunkKind;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+// Above this many DP cells the differing middle section is treated as one
+// replaced block instead of being diffed line by line.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Map each line index of `a` to its matching line index in `b`
+ * along a longest common subsequence.
+ */
+function matchLines(a: string[], b: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+
+  // Common prefix and suffix are matched directly to keep the DP table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches.set(start, start);
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches.set(endA, endB);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return matches;
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches.set(start + i, start + j);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Split three versions into hunks. Stable hunks are identical everywhere;
+ * the others record which side changed the base.
+ */
+export function diff3(base: string, ours: string, theirs: string): MergeHunk[] {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+
+  const toOurs = matchLines(baseLines, ourLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const hunks: MergeHunk[] = [];
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  const pushStable = (line: string) => {
+    const last = hunks[hunks.length - 1];
+    if (last?.kind === 'stable') {
+      last.base.push(line);
+      last.ours.push(line);
+      last.theirs.push(line);
+    } else {
+      hunks.push({ kind: 'stable', base: [line], ours: [line], theirs: [line] });
+    }
+  };
+
+  while (i < baseLines.length || j < ourLines.length || k < theirLines.length) {
+    // Next base line that survives on both sides
+    let next = i;
+    while (next < baseLines.length && !(toOurs.has(next) && toTheirs.has(next))) {
+      next++;
+    }
+
+    if (next === i && next < baseLines.length && toOurs.get(i) === j && toTheirs.get(i) === k) {
+      pushStable(baseLines[i]);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    const nextOurs = next < baseLines.length ? toOurs.get(next)! : ourLines.length;
+    const nextTheirs = next < baseLines.length ? toTheirs.get(next)! : theirLines.length;
+
+    const hunk: MergeHunk = {
+      kind: 'conflict',
+      base: baseLines.slice(i, next),
+      ours: ourLines.slice(j, nextOurs),
+      theirs: theirLines.slice(k, nextTheirs),
+    };
+
+    const oursChanged = !sameLines(hunk.base, hunk.ours);
+    const theirsChanged = !sameLines(hunk.base, hunk.theirs);
+    if (!oursChanged && !theirsChanged) {
+      hunk.kind = 'stable';
+    } else if (!theirsChanged) {
+      hunk.kind = 'ours';
+    } else if (!oursChanged) {
+      hunk.kind = 'theirs';
+    } else if (sameLines(hunk.ours, hunk.theirs)) {
+      hunk.kind = 'same';
+    }
+    hunks.push(hunk);
+
+    i = next;
+    j = nextOurs;
+    k = nextTheirs;
+  }
+
+  return hunks;
+}
+
+/**
+ * Choice a hunk gets when the user hasn't picked one: whichever side
+ * changed it, and the local edits for real conflicts.
+ */
+export function defaultMergeChoice(hunk: MergeHunk): MergeChoice {
+  return hunk.kind === 'theirs' ? 'theirs' : 'ours';
+}
+
+export function resolveMerge(hunks: MergeHunk[], choices: MergeChoice[]): string {
+  const lines: string[] = [];
+
+  hunks.forEach((hunk, index) => {
+    const choice = choices[index] ?? defaultMergeChoice(hunk);
+    switch (choice) {
+      case 'theirs':
+        lines.push(...hunk.theirs);
+        break;
+      case 'base':
+        lines.push(...hunk.base);
+        break;
+      case 'both':
+        lines.push(...hunk.ours, ...hunk.theirs);
+        break;
+      default:
+        lines.push(...hunk.ours);
+        break;
+    }
+  });
+
+  return lines.join('\n');
+}
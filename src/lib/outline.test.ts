@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { moveSection, parseHeadings } from "@/lib/outline";
+
+const outline = (content: string) => parseHeadings(content).map(({ level, text, line }) => ({ level, text, line }));
+
+describe("parseHeadings", () => {
+  it("skips comments in front matter", () => {
+    expect(outline("---\n# not a heading\ntitle: Doc\n---\n\n# Intro\n")).toEqual([{ level: 1, text: "Intro", line: 5 }]);
+  });
+
+  it("counts setext headings", () => {
+    expect(outline("Real\n====\n\nSub\n---\n")).toEqual([
+      { level: 1, text: "Real", line: 0 },
+      { level: 2, text: "Sub", line: 3 },
+    ]);
+  });
+
+  it("skips code and HTML blocks", () => {
+    expect(outline("```sh\n# comment\n```\n\n    # indented\n\n<div>\n# inside\n</div>\n\n## Kept\n")).toEqual([
+      { level: 2, text: "Kept", line: 10 },
+    ]);
+  });
+
+  it("takes the text of inline markup", () => {
+    expect(outline("# A *b* `c` [d](e) #\n")).toEqual([{ level: 1, text: "A b c d", line: 0 }]);
+  });
+
+  it("keeps offsets into the content behind front matter", () => {
+    const content = "---\ntitle: Doc\n---\n# One\n\ntext\n\n# Two\n";
+    const [one, two] = parseHeadings(content);
+    expect(content.slice(one.from, one.sectionEnd)).toBe("# One\n\ntext\n\n");
+    expect(content.slice(two.from, two.sectionEnd)).toBe("# Two\n");
+  });
+});
+
+describe("moveSection", () => {
+  it("moves a section with its subsections", () => {
+    const content = "# A\n\n## A.1\n\n# B\n\n";
+    expect(moveSection(content, parseHeadings(content), 0, 2, "after")).toBe("# B\n\n# A\n\n## A.1\n\n");
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Heading structure of a markdown document. A heading's section runs
+ * until the next heading of the same or a higher level.
+ */
+import { type MdastNode, parseMarkdown } from '@/lib/markdown-pipeline';
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  line: number; // 0-based
+  // Offset of the heading line, and of the end of its section
+  from: number;
+  sectionEnd: number;
+}
+
+function plainText(nodes: MdastNode[] = []): string {
+  return nodes.map(node => node.children ? plainText(node.children) : node.type === 'html' ? '' : node.value ?? '').join('');
+}
+
+/**
+ * Headings as the preview and the visual editor parse them, so front
+ * matter, code and HTML blocks are skipped and setext headings count.
+ */
+export function parseHeadings(content: string): OutlineHeading[] {
+  const headings: OutlineHeading[] = [];
+  // Parsing blanks out front matter, so only line numbers match the content
+  const lineStarts = [0];
+  for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+
+  const visit = (node: MdastNode) => node.children?.forEach(child => {
+    if (child.type !== 'heading') return visit(child);
+    const line = (child.position?.start.line ?? 1) - 1;
+    headings.push({
+      level: child.depth ?? 1,
+      text: plainText(child.children).trim(),
+      line,
+      from: lineStarts[line] ?? content.length,
+      sectionEnd: content.length,
+    });
+  });
+  visit(parseMarkdown(content) as MdastNode);
+
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(other => other.level <= heading.level);
+    if (next) heading.sectionEnd = next.from;
+  });
+
+  return headings;
+}
+
+/** Index of the last heading starting at or before the given line. */
+export function headingIndexAtLine(headings: OutlineHeading[], line: number): number {
+  let active = -1;
+  for (let index = 0; index < headings.length && headings[index].line <= line; index++) {
+    active = index;
+  }
+  return active;
+}
+
+/**
+ * Move a heading's whole section in front of or behind another heading's
+ * section. Returns the content unchanged for moves into the section itself.
+ */
+export function moveSection(
+  content: string,
+  headings: OutlineHeading[],
+  sourceIndex: number,
+  targetIndex: number,
+  position: 'before' | 'after'
+): string {
+  const source = headings[sourceIndex];
+  const target = headings[targetIndex];
+  if (!source || !target || sourceIndex === targetIndex) return content;
+
+  const insertAt = position === 'before' ? target.from : target.sectionEnd;
+  if (insertAt > source.from && insertAt < source.sectionEnd) return content;
+
+  let section = content.slice(source.from, source.sectionEnd);
+  if (!section.endsWith('\n')) section += '\n';
+
+  const without = content.slice(0, source.from) + content.slice(source.sectionEnd);
+  const adjusted = insertAt >= source.sectionEnd ? insertAt - (source.sectionEnd - source.from) : insertAt;
+
+  // The last section may lack a trailing newline, so make sure the text
+  // before the insertion point ends its line
+  const before = without.slice(0, adjusted);
+  const separator = before && !before.endsWith('\n') ? '\n' : '';
+  return before + separator + section + without.slice(adjusted);
+}
@@ -0,0 +1,134 @@
+import { nanoid } from "nanoid";
+import {
+  type FileNode,
+  type FileSystemDirectoryHandle,
+  type FileSystemFileHandle,
+  createRootNode,
+  verifyPermission,
+} from "@/lib/file-system";
+
+/**
+ * Recently opened folders and files. Handles can't be serialized to
+ * localStorage, but IndexedDB stores them as structured clones.
+ */
+
+export interface RecentEntry {
+  id: string;
+  name: string;
+  kind: 'directory' | 'file';
+  handle: FileSystemDirectoryHandle | FileSystemFileHandle;
+  lastOpened: number;
+}
+
+const DB_NAME = "md-editor";
+const DB_VERSION = 1;
+const STORE_NAME = "recent-workspaces";
+const MAX_RECENT_ENTRIES = 10;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!window.indexedDB) {
+    return Promise.reject(new Error("NOT_SUPPORTED"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  return openDatabase().then(db => new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  }));
+}
+
+export async function getRecentEntries(): Promise<RecentEntry[]> {
+  const entries = await runTransaction<RecentEntry[]>("readonly", store => store.getAll());
+  return (entries || []).sort((a, b) => b.lastOpened - a.lastOpened);
+}
+
+export async function removeRecentEntry(id: string): Promise<void> {
+  await runTransaction("readwrite", store => {
+    store.delete(id);
+  });
+}
+
+/** The entry for the same folder or file as a handle, if there is one. */
+export async function findRecentEntry(handle: FileSystemDirectoryHandle | FileSystemFileHandle): Promise<RecentEntry | null> {
+  for (const entry of await getRecentEntries()) {
+    if (entry.kind === handle.kind && await entry.handle.isSameEntry(handle)) return entry;
+  }
+  return null;
+}
+
+/** Record a handle as just opened, replacing any older entry for the same location. */
+export async function addRecentEntry(handle: FileSystemDirectoryHandle | FileSystemFileHandle): Promise<void> {
+  const entries = await getRecentEntries();
+
+  const stale: RecentEntry[] = [];
+  for (const entry of entries) {
+    if (entry.kind === handle.kind && await entry.handle.isSameEntry(handle)) {
+      stale.push(entry);
+    }
+  }
+
+  const kept = entries.filter(entry => !stale.includes(entry));
+  const overflow = kept.slice(MAX_RECENT_ENTRIES - 1);
+
+  await runTransaction("readwrite", store => {
+    for (const entry of [...stale, ...overflow]) {
+      store.delete(entry.id);
+    }
+    store.put({
+      id: stale[0]?.id ?? nanoid(),
+      name: handle.name,
+      kind: handle.kind,
+      handle,
+      lastOpened: Date.now(),
+    } satisfies RecentEntry);
+  });
+}
+
+/**
+ * Turn a stored entry back into a node. Returns null when read permission
+ * isn't (or, with `prompt` off, isn't yet) granted, and throws "NOT_FOUND"
+ * when the entry no longer exists.
+ */
+export async function restoreRecentEntry(entry: RecentEntry, prompt: boolean = true): Promise<FileNode | null> {
+  if (!(await verifyPermission(entry.handle, false, prompt))) {
+    return null;
+  }
+
+  // The folder or file may have been moved or deleted since
+  try {
+    if (entry.handle.kind === 'file') {
+      await (entry.handle as FileSystemFileHandle).getFile();
+    } else {
+      await (entry.handle as FileSystemDirectoryHandle).entries().next();
+    }
+  } catch (error) {
+    if ((error as Error).name === 'NotFoundError') throw new Error("NOT_FOUND");
+    throw error;
+  }
+
+  return createRootNode(entry.handle);
+}
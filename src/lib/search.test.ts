@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchRegExp, findMatches, type SearchOptions } from "@/lib/search";
+
+const search = (content: string, options: Partial<SearchOptions> & { query: string }) =>
+  findMatches(content, buildSearchRegExp({ useRegex: false, matchCase: false, wholeWord: false, ...options })!)
+    .map(match => content.slice(match.from, match.to));
+
+describe("buildSearchRegExp", () => {
+  it("returns null for an empty query", () => {
+    expect(buildSearchRegExp({ query: "", useRegex: false, matchCase: false, wholeWord: false })).toBeNull();
+  });
+
+  it("matches regex-special characters literally", () => {
+    expect(search("cost (a+b)* $5.00 [x] a.b", { query: "(a+b)*" })).toEqual(["(a+b)*"]);
+    expect(search("cost $5.00 and $5x00", { query: "$5.00" })).toEqual(["$5.00"]);
+    expect(search("[x] and x", { query: "[x]" })).toEqual(["[x]"]);
+    expect(search("a\\b and ab", { query: "a\\b" })).toEqual(["a\\b"]);
+  });
+
+  it("finds whole words in CJK text", () => {
+    expect(search("这是 中文 示例", { query: "中文", wholeWord: true })).toEqual(["中文"]);
+    expect(search("中文，标点。中文", { query: "中文", wholeWord: true })).toEqual(["中文", "中文"]);
+    // Part of a longer run of letters isn't a whole word
+    expect(search("中文字", { query: "中文", wholeWord: true })).toEqual([]);
+  });
+
+  it("treats letters beyond ASCII as word characters", () => {
+    expect(search("café cafés", { query: "café", wholeWord: true })).toEqual(["café"]);
+    expect(search("word words sword", { query: "word", wholeWord: true })).toEqual(["word"]);
+  });
+
+  it("keeps regex-special characters literal in whole-word mode", () => {
+    expect(search("call f(x) and f(x)y", { query: "f(x)", wholeWord: true })).toEqual(["f(x)"]);
+    expect(search("a.b aXb", { query: "a.b", wholeWord: true })).toEqual(["a.b"]);
+  });
+
+  it("wraps regex queries as a whole", () => {
+    expect(search("cat dog cats", { query: "cat|dog", useRegex: true, wholeWord: true })).toEqual(["cat", "dog"]);
+  });
+
+  it("honors match case", () => {
+    expect(search("Word word", { query: "word", matchCase: true })).toEqual(["word"]);
+  });
+
+  it("reports invalid patterns", () => {
+    expect(() => buildSearchRegExp({ query: "(", useRegex: true, matchCase: false, wholeWord: false })).toThrow("INVALID_PATTERN");
+  });
+
+  it("compiles regex queries the same way whatever the options", () => {
+    // An identity escape is only valid outside Unicode mode
+    for (const wholeWord of [false, true]) {
+      expect(() => buildSearchRegExp({ query: "a\\-b", useRegex: true, matchCase: false, wholeWord })).toThrow("INVALID_PATTERN");
+    }
+    expect(search("😀 and 😀😀", { query: "^.", useRegex: true })).toEqual(["😀"]);
+  });
+});
@@ -0,0 +1,183 @@
+import { type FileNode, readDirectoryEntries } from "@/lib/file-system";
+
+/**
+ * Full-text search and replace over an opened folder. Works on both handle
+ * backed trees (directories are loaded on demand) and legacy trees.
+ */
+
+export interface SearchOptions {
+  query: string;
+  useRegex: boolean;
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  line: number; // 1-based
+  lineText: string;
+  // Offsets of the match within the line
+  start: number;
+  end: number;
+  // Offsets of the match within the whole document
+  from: number;
+  to: number;
+}
+
+export interface FileSearchResult {
+  node: FileNode;
+  path: string;
+  content: string;
+  matches: SearchMatch[];
+}
+
+export interface FileReplacement {
+  node: FileNode;
+  path: string;
+  content: string;
+  changes: { line: number; before: string; after: string }[];
+}
+
+const SEARCHABLE_EXTENSIONS = ['.md', '.markdown', '.mdx', '.txt'];
+
+// Stop collecting matches for a single file past this point so a very
+// common query can't lock up the panel
+const MAX_MATCHES_PER_FILE = 500;
+
+export function isSearchableFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return SEARCHABLE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Build the global regular expression for a query, or null for an empty
+ * query. Throws "INVALID_PATTERN" when the user's regex doesn't compile.
+ * Regexes are always Unicode ones (the `u` flag), which whole-word matching
+ * needs, so a pattern is valid or not whatever the other options.
+ */
+export function buildSearchRegExp(options: SearchOptions): RegExp | null {
+  if (!options.query) return null;
+
+  let source = options.useRegex
+    ? options.query
+    : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) {
+    // `\b` only knows ASCII word characters, which would leave out CJK text
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+
+  try {
+    return new RegExp(source, options.matchCase ? 'gu' : 'giu');
+  } catch {
+    throw new Error("INVALID_PATTERN");
+  }
+}
+
+export function findMatches(content: string, regex: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lines = content.split('\n');
+  let offset = 0;
+
+  for (let index = 0; index < lines.length && matches.length < MAX_MATCHES_PER_FILE; index++) {
+    const lineText = lines[index];
+    regex.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(lineText)) !== null) {
+      // Zero-length matches (e.g. `^`) would otherwise loop forever
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      matches.push({
+        line: index + 1,
+        lineText,
+        start: match.index,
+        end: match.index + match[0].length,
+        from: offset + match.index,
+        to: offset + match.index + match[0].length,
+      });
+      if (matches.length >= MAX_MATCHES_PER_FILE) break;
+    }
+
+    offset += lineText.length + 1;
+  }
+
+  return matches;
+}
+
+/**
+ * Collect every searchable file below `root`, reading unloaded
+ * directories as we go. The loaded children are kept on the nodes so the
+ * file tree doesn't have to read them again.
+ */
+export async function collectSearchableFiles(root: FileNode): Promise<{ node: FileNode; path: string }[]> {
+  const files: { node: FileNode; path: string }[] = [];
+
+  const walk = async (node: FileNode, path: string) => {
+    if (node.kind === 'file') {
+      if (isSearchableFile(node.name)) files.push({ node, path });
+      return;
+    }
+
+    if (node.handle && (!node.children || node.children.length === 0)) {
+      node.children = await readDirectoryEntries(node);
+    }
+    for (const child of node.children || []) {
+      await walk(child, path ? `${path}/${child.name}` : child.name);
+    }
+  };
+
+  await walk(root, root.kind === 'file' ? root.name : "");
+  return files;
+}
+
+export async function searchFiles(
+  root: FileNode,
+  options: SearchOptions,
+  readContent: (node: FileNode) => Promise<string>,
+  signal?: AbortSignal
+): Promise<FileSearchResult[]> {
+  const regex = buildSearchRegExp(options);
+  if (!regex) return [];
+
+  const results: FileSearchResult[] = [];
+  for (const { node, path } of await collectSearchableFiles(root)) {
+    if (signal?.aborted) break;
+
+    let content: string;
+    try {
+      content = await readContent(node);
+    } catch (error) {
+      console.error(`Failed to read ${path}`, error);
+      continue;
+    }
+
+    const matches = findMatches(content, regex);
+    if (matches.length > 0) {
+      results.push({ node, path, content, matches });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Apply the replacement line by line, the same way matches were found, so
+ * the preview shows exactly what will be written. `$1` style references
+ * only expand in regex mode.
+ */
+export function replaceInContent(content: string, regex: RegExp, replacement: string, useRegex: boolean): Omit<FileReplacement, 'node' | 'path'> {
+  const literal = useRegex ? replacement : replacement.replace(/\$/g, '$$$$');
+  const changes: FileReplacement['changes'] = [];
+
+  const lines = content.split('\n').map((line, index) => {
+    regex.lastIndex = 0;
+    const next = line.replace(regex, literal);
+    if (next !== line) {
+      changes.push({ line: index + 1, before: line, after: next });
+    }
+    return next;
+  });
+
+  return { content: lines.join('\n'), changes };
+}
@@ -0,0 +1,98 @@
+/**
+ * Mapping between markdown source lines and the rendered preview. The
+ * preview tags its blocks with the line they start on; scroll sync and
+ * click-to-cursor interpolate between those blocks.
+ */
+
+export const SOURCE_LINE_ATTRIBUTE = 'data-source-line';
+
+// Elements that start a block of their own in the rendered output
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'ul', 'ol', 'li',
+  'table', 'tr', 'hr', 'div', 'details', 'dl', 'dt', 'dd', 'section', 'figure',
+]);
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  position?: { start: { line: number } };
+  children?: HastNode[];
+}
+
+/**
+ * Rehype plugin writing the 1-based source line of each block element to
+ * `data-source-line`. Runs before rehype-raw, whose re-parsed HTML has no
+ * source positions.
+ */
+export function rehypeSourceLines() {
+  return (tree: HastNode) => {
+    const walk = (node: HastNode) => {
+      for (const child of node.children ?? []) {
+        if (child.type !== 'element') continue;
+        if (child.position && BLOCK_TAGS.has(child.tagName ?? '')) {
+          child.properties = { ...child.properties, dataSourceLine: child.position.start.line };
+        }
+        walk(child);
+      }
+    };
+    walk(tree);
+  };
+}
+
+export interface LineAnchor {
+  line: number;
+  // Offset from the top of the scroller's content
+  top: number;
+}
+
+/**
+ * Tagged blocks of a rendered preview, ordered by line and position. Blocks
+ * that would move backwards (nested or floated content) are left out, and
+ * the ends of the document are anchored to the ends of the scroller.
+ */
+export function collectLineAnchors(scroller: HTMLElement, lineCount: number): LineAnchor[] {
+  const scrollerTop = scroller.getBoundingClientRect().top - scroller.scrollTop;
+  const anchors: LineAnchor[] = [{ line: 1, top: 0 }];
+
+  scroller.querySelectorAll<HTMLElement>(`[${SOURCE_LINE_ATTRIBUTE}]`).forEach(element => {
+    const line = Number(element.getAttribute(SOURCE_LINE_ATTRIBUTE));
+    const top = element.getBoundingClientRect().top - scrollerTop;
+    const last = anchors[anchors.length - 1];
+    if (line > last.line && top > last.top) anchors.push({ line, top });
+  });
+
+  const last = anchors[anchors.length - 1];
+  if (lineCount + 1 > last.line && scroller.scrollHeight > last.top) {
+    anchors.push({ line: lineCount + 1, top: scroller.scrollHeight });
+  }
+  return anchors;
+}
+
+function interpolate(anchors: LineAnchor[], value: number, from: keyof LineAnchor, to: keyof LineAnchor): number {
+  let index = 0;
+  while (index < anchors.length - 2 && anchors[index + 1][from] <= value) index++;
+
+  const start = anchors[index];
+  const end = anchors[index + 1];
+  if (!end) return start[to];
+  const ratio = Math.min(1, Math.max(0, (value - start[from]) / (end[from] - start[from])));
+  return start[to] + ratio * (end[to] - start[to]);
+}
+
+/** Preview offset for a (fractional) source line. */
+export function offsetForLine(anchors: LineAnchor[], line: number): number {
+  return interpolate(anchors, line, 'line', 'top');
+}
+
+/** Fractional source line at a preview offset. */
+export function lineForOffset(anchors: LineAnchor[], offset: number): number {
+  return interpolate(anchors, offset, 'top', 'line');
+}
+
+/** Source line of the block holding a node of the preview, if tagged. */
+export function sourceLineAt(target: Element): number | null {
+  const element = target.closest(`[${SOURCE_LINE_ATTRIBUTE}]`);
+  const line = Number(element?.getAttribute(SOURCE_LINE_ATTRIBUTE));
+  return line > 0 ? line : null;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { EditorState, TextSelection } from "prosemirror-state";
+import { convertSelectionToTable, tableFromDelimitedText } from "@/lib/table-commands";
+import { docToMarkdown, markdownToDoc } from "@/lib/markdown-prosemirror";
+
+const cells = (table: ReturnType<typeof tableFromDelimitedText>) => {
+  const rows: string[][] = [];
+  table?.forEach(row => {
+    const cells: string[] = [];
+    row.forEach(cell => cells.push(cell.textContent));
+    rows.push(cells);
+  });
+  return rows;
+};
+
+describe("tableFromDelimitedText", () => {
+  it("reads tab separated lines", () => {
+    expect(cells(tableFromDelimitedText("a\tb\n1\t2\n", "\t"))).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("reads quoted CSV fields", () => {
+    expect(cells(tableFromDelimitedText('name,note\nAda,"x, ""y"""\n', ","))).toEqual([["name", "note"], ["Ada", 'x, "y"']]);
+  });
+
+  it("needs lines of the same width", () => {
+    expect(tableFromDelimitedText("a,b\n1,2,3", ",")).toBeNull();
+    expect(tableFromDelimitedText("a,b", ",")).toBeNull();
+  });
+});
+
+describe("convertSelectionToTable", () => {
+  const convert = (markdown: string) => {
+    const doc = markdownToDoc(markdown);
+    const state = EditorState.create({ doc, selection: TextSelection.create(doc, 1, doc.content.size - 1) });
+    let printed: string | null = null;
+    convertSelectionToTable(state, tr => { printed = docToMarkdown(tr.doc); });
+    return printed;
+  };
+
+  it("turns the selected lines into a table", () => {
+    expect(convert("Hello, world\n\nThanks, bye\n")).toBe("| Hello  | world |\n| ------ | ----- |\n| Thanks | bye   |\n");
+  });
+
+  it("leaves text that is no table alone", () => {
+    expect(convert("Hello, world\n\nbye\n")).toBeNull();
+  });
+});
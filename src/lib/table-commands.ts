@@ -0,0 +1,129 @@
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import type { Command, EditorState } from "prosemirror-state";
+import { addRowAfter, goToNextCell, isInTable, selectedRect } from "prosemirror-tables";
+import { schema } from "@/lib/wysiwyg-schema";
+
+/**
+ * Table commands of the visual editor on top of prosemirror-tables.
+ * Markdown aligns whole columns, so alignment is set on every cell of a
+ * column at once.
+ */
+
+export type ColumnAlign = 'left' | 'center' | 'right' | null;
+
+export function setColumnAlign(align: ColumnAlign): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    if (dispatch) {
+      const { map, table, tableStart, left, right } = selectedRect(state);
+      const tr = state.tr;
+      const seen = new Set<number>();
+      for (let row = 0; row < map.height; row++) {
+        for (let column = left; column < right; column++) {
+          const pos = map.map[row * map.width + column];
+          const cell = table.nodeAt(pos);
+          if (seen.has(pos) || !cell) continue;
+          seen.add(pos);
+          tr.setNodeMarkup(tableStart + pos, null, { ...cell.attrs, align });
+        }
+      }
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/** Alignment of the column holding the selection, if it is in a table. */
+export function columnAlign(state: EditorState): ColumnAlign | undefined {
+  if (!isInTable(state)) return undefined;
+  const { map, table, left } = selectedRect(state);
+  return table.nodeAt(map.map[left])?.attrs.align ?? null;
+}
+
+// Tab moves to the next cell, past the last one it adds a row first
+export const goToNextCellOrAddRow: Command = (state, dispatch, view) => {
+  if (goToNextCell(1)(state, dispatch)) return true;
+  if (!isInTable(state) || !view) return false;
+  if (dispatch) {
+    addRowAfter(state, view.dispatch);
+    goToNextCell(1)(view.state, view.dispatch);
+  }
+  return true;
+};
+
+// Fields of comma or tab separated text, with quoted fields as in RFC 4180
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Table for CSV or TSV, taking the first line as the header. Only text
+ * whose lines all have the same number of fields counts.
+ */
+export function tableFromDelimitedText(text: string, delimiter: ',' | '\t'): ProseMirrorNode | null {
+  const trimmed = text.replace(/(\r?\n)+$/, '');
+  const rows = parseDelimited(trimmed, delimiter);
+  const width = rows[0].length;
+  if (rows.length < 2 || width < 2 || rows.some(row => row.length !== width)) return null;
+
+  return schema.nodes.table.create(null, rows.map((row, rowIndex) => schema.nodes.table_row.create(
+    null,
+    row.map(field => {
+      // Cells hold a single line
+      const value = field.trim().replace(/\s*\n\s*/g, ' ');
+      return (rowIndex === 0 ? schema.nodes.table_header : schema.nodes.table_cell).create(
+        null,
+        schema.nodes.paragraph.create(null, value ? schema.text(value) : null)
+      );
+    })
+  )));
+}
+
+/**
+ * Turn the blocks holding the selection into a table, their lines read as
+ * tab separated values if there are tabs, else as comma separated ones.
+ */
+export const convertSelectionToTable: Command = (state, dispatch) => {
+  const { $from, $to } = state.selection;
+  const range = $from.blockRange($to);
+  if (!range || isInTable(state)) return false;
+
+  const text = state.doc.textBetween(range.start, range.end, '\n');
+  const table = tableFromDelimitedText(text, text.includes('\t') ? '\t' : ',');
+  if (!table) return false;
+  if (dispatch) dispatch(state.tr.replaceWith(range.start, range.end, table).scrollIntoView());
+  return true;
+};
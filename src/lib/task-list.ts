@@ -0,0 +1,75 @@
+/**
+ * GFM task list items (`- [ ] todo`). The preview renders their checkboxes
+ * tagged with the source line of the item so toggling one edits exactly
+ * that line.
+ */
+
+// Bullet or ordered marker, possibly inside block quotes, up to the opening bracket
+const TASK_PATTERN = /^((?:\s*>)*\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\]/;
+
+/** Offset of the character between a task item's brackets, if the line is one. */
+export function taskMarkerOffset(lineText: string): number | null {
+  const match = lineText.match(TASK_PATTERN);
+  return match ? match[1].length : null;
+}
+
+/** Check or uncheck the task item on a 1-based line; other lines are left alone. */
+export function setTaskChecked(content: string, line: number, checked: boolean): string {
+  const lines = content.split('\n');
+  const text = lines[line - 1];
+  const offset = text === undefined ? null : taskMarkerOffset(text);
+  if (offset === null) return content;
+
+  lines[line - 1] = text.slice(0, offset) + (checked ? 'x' : ' ') + text.slice(offset + 1);
+  return lines.join('\n');
+}
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  position?: { start: { line: number } };
+  children?: HastNode[];
+}
+
+const isElement = (node: HastNode, tagName: string) => node.type === 'element' && node.tagName === tagName;
+
+/**
+ * Rehype plugin tagging task checkboxes with `data-task-line` and wrapping
+ * the item's own text in `.task-list-item-text`, leaving nested lists out.
+ * Loose items hold their checkbox in a paragraph, tight ones directly.
+ */
+export function rehypeTaskLists() {
+  return (tree: HastNode) => {
+    const visit = (node: HastNode) => {
+      for (const child of node.children ?? []) {
+        if (isElement(child, 'li') && child.position) {
+          const first = child.children?.find(item => item.type === 'element');
+          const container = first && isElement(first, 'p') ? first : child;
+          const items = container.children ?? [];
+          const checkboxIndex = items.findIndex(item => item.type === 'element');
+          const checkbox = items[checkboxIndex];
+
+          if (checkbox && isElement(checkbox, 'input') && checkbox.properties?.type === 'checkbox') {
+            checkbox.properties = {
+              ...checkbox.properties,
+              className: ['task-list-item-checkbox'],
+              disabled: false,
+              dataTaskLine: child.position.start.line,
+            };
+            let end = checkboxIndex + 1;
+            while (end < items.length && !isElement(items[end], 'ul') && !isElement(items[end], 'ol')) end++;
+            container.children = [
+              ...items.slice(0, checkboxIndex + 1),
+              { type: 'element', tagName: 'span', properties: { className: ['task-list-item-text'] }, children: items.slice(checkboxIndex + 1, end) },
+              ...items.slice(end),
+            ];
+          }
+        }
+        visit(child);
+      }
+    };
+    visit(tree);
+  };
+}
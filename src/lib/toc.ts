@@ -0,0 +1,170 @@
+/**
+ * `[TOC]` / `<!-- toc -->` markers and the heading anchors they link to.
+ * Anchors derive from a heading's plain text, so links stay stable across
+ * the preview, exports and the outline.
+ */
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string;
+}
+
+const TOC_TEXT_PATTERN = /^\s*\[toc\]\s*$/i;
+const TOC_COMMENT_PATTERN = /^\s*toc\s*$/i;
+
+export function isTocMarkerText(text: string): boolean {
+  return TOC_TEXT_PATTERN.test(text);
+}
+
+export function isTocMarkerComment(text: string): boolean {
+  return TOC_COMMENT_PATTERN.test(text);
+}
+
+export function isTocMarkerLine(line: string): boolean {
+  const comment = line.trim().match(/^<!--(.*)-->$/);
+  return isTocMarkerText(line) || (!!comment && isTocMarkerComment(comment[1]));
+}
+
+/**
+ * GitHub style anchors: lower case, punctuation dropped, spaces to dashes,
+ * and a numeric suffix for repeated headings.
+ */
+export function createSlugger() {
+  const seen = new Map<string, number>();
+
+  return (text: string): string => {
+    const base = text
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\p{M}\s_-]/gu, '')
+      .replace(/\s/g, '-') || 'section';
+
+    let slug = base;
+    let count = seen.get(base) ?? 0;
+    while (seen.has(slug)) {
+      count++;
+      slug = `${base}-${count}`;
+    }
+    seen.set(base, count);
+    seen.set(slug, 0);
+    return slug;
+  };
+}
+
+interface TocTree {
+  entry: TocEntry | null;
+  children: TocTree[];
+}
+
+// Nest entries by level; skipped levels simply nest one step deeper
+function buildTree(entries: TocEntry[]): TocTree {
+  const root: TocTree = { entry: null, children: [] };
+  const stack: { level: number; node: TocTree }[] = [{ level: 0, node: root }];
+
+  for (const entry of entries) {
+    while (stack.length > 1 && stack[stack.length - 1].level >= entry.level) {
+      stack.pop();
+    }
+    const node: TocTree = { entry, children: [] };
+    stack[stack.length - 1].node.children.push(node);
+    stack.push({ level: entry.level, node });
+  }
+
+  return root;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderTocHtml(entries: TocEntry[]): string {
+  const renderList = (nodes: TocTree[]): string => nodes.length === 0 ? '' : `<ul>${nodes
+    .map(node => `<li><a href="#${escapeHtml(node.entry!.id)}">${escapeHtml(node.entry!.text)}</a>${renderList(node.children)}</li>`)
+    .join('')}</ul>`;
+
+  return `<nav class="toc">${renderList(buildTree(entries).children)}</nav>`;
+}
+
+// Just enough of the hast shape for the plugin below
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+function hastText(node: HastNode): string {
+  if (node.type === 'text') return node.value ?? '';
+  return (node.children ?? []).map(hastText).join('');
+}
+
+function tocToHast(nodes: TocTree[]): HastNode[] {
+  if (nodes.length === 0) return [];
+  return [{
+    type: 'element',
+    tagName: 'ul',
+    properties: {},
+    children: nodes.map(node => ({
+      type: 'element',
+      tagName: 'li',
+      properties: {},
+      children: [
+        {
+          type: 'element',
+          tagName: 'a',
+          properties: { href: `#${node.entry!.id}` },
+          children: [{ type: 'text', value: node.entry!.text }],
+        },
+        ...tocToHast(node.children),
+      ],
+    })),
+  }];
+}
+
+/**
+ * Rehype plugin giving headings their anchors and replacing TOC markers (a
+ * paragraph holding just `[TOC]`, or a `<!-- toc -->` comment) with the
+ * generated list.
+ */
+export function rehypeToc() {
+  return (tree: HastNode) => {
+    const slug = createSlugger();
+    const entries: TocEntry[] = [];
+    const markers: { parent: HastNode; node: HastNode }[] = [];
+
+    const walk = (node: HastNode) => {
+      for (const child of node.children ?? []) {
+        if (child.type === 'element' && /^h[1-6]$/.test(child.tagName ?? '')) {
+          const text = hastText(child).trim();
+          child.properties = child.properties ?? {};
+          if (!child.properties.id) child.properties.id = slug(text);
+          entries.push({ level: Number(child.tagName![1]), text, id: String(child.properties.id) });
+        } else if (
+          (child.type === 'element' && child.tagName === 'p' && child.children?.every(c => c.type === 'text') && isTocMarkerText(hastText(child))) ||
+          (child.type === 'comment' && isTocMarkerComment(child.value ?? ''))
+        ) {
+          markers.push({ parent: node, node: child });
+        } else {
+          walk(child);
+        }
+      }
+    };
+    walk(tree);
+
+    for (const { parent, node } of markers) {
+      const index = parent.children!.indexOf(node);
+      parent.children![index] = {
+        type: 'element',
+        tagName: 'nav',
+        properties: { className: ['toc'] },
+        children: tocToHast(buildTree(entries).children),
+      };
+    }
+  };
+}
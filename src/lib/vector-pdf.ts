@@ -0,0 +1,995 @@
+import jsPDF from 'jspdf';
+
+/**
+ * Vector PDF export. The preview's HTML is laid out again at the width of
+ * an A4 page in an off-screen frame, then drawn with jsPDF from the
+ * browser's own layout: text as real, selectable text in an embedded CJK
+ * font, backgrounds, borders and SVG (Mermaid diagrams, KaTeX's stretchy
+ * delimiters) as vector paths, and only images as images. Pages break
+ * between lines, never through table rows, code blocks, formulas, images
+ * or diagrams, and headings become the PDF's bookmarks.
+ */
+
+export interface VectorPdfOptions {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+}
+
+// A4 in points, laid out at the browser's 96 dpi
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 51;
+const PT_PER_PX = 0.75;
+const CONTENT_WIDTH = (PAGE_WIDTH - 2 * MARGIN) / PT_PER_PX;
+const CONTENT_HEIGHT = (PAGE_HEIGHT - 2 * MARGIN) / PT_PER_PX;
+
+const CJK_FONT = 'NotoSansSC';
+const CJK_FONT_URL = 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/notosanssc/NotoSansSC%5Bwght%5D.ttf';
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+type Color = [number, number, number];
+
+// Base64 of the CJK font, fetched once
+let cjkFont: Promise<string | null> | null = null;
+
+function loadCjkFont(): Promise<string | null> {
+  cjkFont ??= (async () => {
+    try {
+      const response = await fetch(CJK_FONT_URL);
+      if (!response.ok) return null;
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      return btoa(binary);
+    } catch {
+      return null;
+    }
+  })().then(font => {
+    // Retry next time when the download failed
+    if (!font) cjkFont = null;
+    return font;
+  });
+  return cjkFont;
+}
+
+/** Colors as the browser resolves them, blended onto the white page. */
+function createColorParser() {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  const cache = new Map<string, Color | null>();
+
+  return (color: string, opacity = 1): Color | null => {
+    const key = `${color}|${opacity}`;
+    if (cache.has(key)) return cache.get(key)!;
+    let result: Color | null = null;
+    if (color && color !== 'none' && color !== 'transparent' && !color.startsWith('url(')) {
+      context.clearRect(0, 0, 1, 1);
+      context.fillStyle = '#000';
+      context.fillStyle = color;
+      context.fillRect(0, 0, 1, 1);
+      const [r, g, b, a] = context.getImageData(0, 0, 1, 1).data;
+      const alpha = (a / 255) * opacity;
+      if (alpha > 0.01) result = [r, g, b].map(value => Math.round(value * alpha + 255 * (1 - alpha))) as Color;
+    }
+    cache.set(key, result);
+    return result;
+  };
+}
+
+/** Lay out the preview's content at page width in a hidden frame, in the light theme. */
+async function layOut(element: HTMLElement): Promise<{ frame: HTMLIFrameElement; root: HTMLElement }> {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = `position:fixed;left:-20000px;top:0;width:${Math.ceil(CONTENT_WIDTH)}px;height:${Math.ceil(CONTENT_HEIGHT)}px;border:0;`;
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write('<!DOCTYPE html><html><head><meta charset="utf-8"></head><body style="margin:0;background:#fff"></body></html>');
+  doc.close();
+
+  const loads: Promise<unknown>[] = [];
+  document.querySelectorAll('style, link[rel="stylesheet"]').forEach(node => {
+    const copy = doc.importNode(node, true) as HTMLElement;
+    if (copy.tagName === 'LINK') loads.push(new Promise(resolve => { copy.onload = copy.onerror = resolve; }));
+    doc.head.appendChild(copy);
+  });
+
+  const source = element.querySelector('.prose') ?? element;
+  const root = doc.createElement('div');
+  root.className = source.className;
+  root.style.cssText = 'width:100%;max-width:none;margin:0;padding:0;';
+  root.innerHTML = source.innerHTML;
+  // Document metadata goes into the PDF's properties instead
+  root.querySelectorAll('.front-matter-card, script').forEach(node => node.remove());
+  doc.body.appendChild(root);
+
+  await Promise.all(loads);
+  await doc.fonts?.ready;
+  await Promise.all(Array.from(root.querySelectorAll('img')).map(img =>
+    img.complete ? null : new Promise(resolve => { img.onload = img.onerror = resolve; })
+  ));
+  return { frame, root };
+}
+
+const ATOMIC_TAGS = new Set(['PRE', 'TR', 'IMG', 'svg', 'CANVAS', 'VIDEO', 'HR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'FIGURE', 'INPUT']);
+const ATOMIC_CLASSES = ['katex-display', 'mermaid'];
+
+const isBlockLevel = (display: string) => display !== 'none' && display !== 'contents' && !display.startsWith('inline');
+
+interface BreakAtom {
+  top: number;
+  bottom: number;
+  // Headings stay on the page of what follows them
+  keepWithNext: boolean;
+}
+
+/** Vertical extents that must not be split: lines of text and unbreakable blocks. */
+function breakAtoms(root: HTMLElement, origin: Box): BreakAtom[] {
+  const win = root.ownerDocument.defaultView!;
+  const range = root.ownerDocument.createRange();
+  const atoms: BreakAtom[] = [];
+
+  const pushLines = (nodes: Node[]) => {
+    const rects: DOMRect[] = [];
+    for (const node of nodes) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        if (!node.textContent?.trim()) continue;
+        range.selectNodeContents(node);
+        rects.push(...Array.from(range.getClientRects()));
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        rects.push(...Array.from((node as Element).getClientRects()));
+      }
+    }
+    rects.filter(rect => rect.height > 0).sort((a, b) => a.top - b.top).forEach(rect => {
+      const last = atoms[atoms.length - 1];
+      const top = rect.top - origin.top;
+      const bottom = rect.bottom - origin.top;
+      if (last && !last.keepWithNext && top < last.bottom - 1 && top >= last.top) last.bottom = Math.max(last.bottom, bottom);
+      else atoms.push({ top, bottom, keepWithNext: false });
+    });
+  };
+
+  const visit = (element: Element) => {
+    const style = win.getComputedStyle(element);
+    if (style.display === 'none') return;
+    const rect = element.getBoundingClientRect();
+    if (rect.height === 0) return;
+    if (ATOMIC_TAGS.has(element.tagName) || ATOMIC_CLASSES.some(name => element.classList.contains(name))) {
+      atoms.push({ top: rect.top - origin.top, bottom: rect.bottom - origin.top, keepWithNext: /^H[1-6]$/.test(element.tagName) });
+      return;
+    }
+
+    let inline: Node[] = [];
+    const flush = () => {
+      if (inline.length) pushLines(inline);
+      inline = [];
+    };
+    element.childNodes.forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE && isBlockLevel(win.getComputedStyle(child as Element).display)) {
+        flush();
+        visit(child as Element);
+      } else {
+        inline.push(child);
+      }
+    });
+    flush();
+  };
+
+  Array.from(root.children).forEach(visit);
+  return atoms.sort((a, b) => a.top - b.top);
+}
+
+/** Where each page starts, breaking before atoms that would cross the page end. */
+function paginate(atoms: BreakAtom[]): number[] {
+  const starts = [0];
+  atoms.forEach((atom, index) => {
+    let start = starts[starts.length - 1];
+    const next = atoms[index + 1];
+    const keptBottom = atom.keepWithNext && next && next.bottom - atom.top <= CONTENT_HEIGHT ? next.bottom : atom.bottom;
+    if (keptBottom > start + CONTENT_HEIGHT && atom.top > start) {
+      start = atom.top;
+      starts.push(start);
+    }
+    // Taller than a page: slice it
+    while (atom.bottom > start + CONTENT_HEIGHT) {
+      start += CONTENT_HEIGHT;
+      starts.push(start);
+    }
+  });
+  return starts;
+}
+
+// Just enough of a 2D affine matrix for SVG geometry
+interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+const multiply = (m: Matrix, n: Matrix): Matrix => ({
+  a: m.a * n.a + m.c * n.b,
+  b: m.b * n.a + m.d * n.b,
+  c: m.a * n.c + m.c * n.d,
+  d: m.b * n.c + m.d * n.d,
+  e: m.a * n.e + m.c * n.f + m.e,
+  f: m.b * n.e + m.d * n.f + m.f,
+});
+
+type Point = [number, number];
+
+// A path as absolute moves, lines, cubic curves and closes
+type Segment = { op: 'm' | 'l'; c: Point } | { op: 'c'; c: [Point, Point, Point] } | { op: 'h' };
+
+interface ControlPoint {
+  point: Point;
+  cubic: boolean;
+}
+
+const PATH_TOKEN = /([MmLlHhVvCcSsQqTtAaZz])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+
+// Elliptical arc as cubic curves, after the SVG implementation notes
+function arcToCurves(from: Point, rx: number, ry: number, rotation: number, large: boolean, sweep: boolean, to: Point): Segment[] {
+  if (rx === 0 || ry === 0) return [{ op: 'l', c: to }];
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from[0] - to[0]) / 2;
+  const dy = (from[1] - to[1]) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const scale = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (scale > 1) {
+    rx *= Math.sqrt(scale);
+    ry *= Math.sqrt(scale);
+  }
+  const sign = large === sweep ? -1 : 1;
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const factor = sign * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from[0] + to[0]) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from[1] + to[1]) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const value = Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    return value;
+  };
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const parts = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / parts;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (theta: number): Point => [
+    cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+    cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+  ];
+  const derivative = (theta: number): Point => [
+    -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+    -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos,
+  ];
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < parts; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    const p1 = point(t1);
+    const p2 = point(t2);
+    const d1 = derivative(t1);
+    const d2 = derivative(t2);
+    segments.push({ op: 'c', c: [[p1[0] + k * d1[0], p1[1] + k * d1[1]], [p2[0] - k * d2[0], p2[1] - k * d2[1]], i === parts - 1 ? to : p2] });
+  }
+  return segments;
+}
+
+function parsePath(data: string): Segment[] {
+  const tokens: (string | number)[] = Array.from(data.matchAll(PATH_TOKEN), match => (match[1] !== undefined ? match[1] : Number(match[2])));
+  const segments: Segment[] = [];
+  let current: Point = [0, 0];
+  let start: Point = [0, 0];
+  // The last control point, for smooth curves of the same kind
+  let control: ControlPoint | null = null;
+  let command = '';
+  let i = 0;
+
+  const number = () => tokens[i++] as number;
+  const point = (relative: boolean): Point => {
+    const x = number();
+    const y = number();
+    return relative ? [current[0] + x, current[1] + y] : [x, y];
+  };
+
+  while (i < tokens.length) {
+    if (typeof tokens[i] === 'string') command = tokens[i++] as string;
+    else if (!command) break;
+    const relative = command === command.toLowerCase();
+    let nextControl: ControlPoint | null = null;
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        current = start = point(relative);
+        segments.push({ op: 'm', c: current });
+        // Further pairs are lines
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        current = point(relative);
+        segments.push({ op: 'l', c: current });
+        break;
+      case 'H':
+        current = [relative ? current[0] + number() : number(), current[1]];
+        segments.push({ op: 'l', c: current });
+        break;
+      case 'V':
+        current = [current[0], relative ? current[1] + number() : number()];
+        segments.push({ op: 'l', c: current });
+        break;
+      case 'C': {
+        const c1 = point(relative);
+        const c2 = point(relative);
+        const end = point(relative);
+        segments.push({ op: 'c', c: [c1, c2, end] });
+        current = end;
+        nextControl = { point: c2, cubic: true };
+        break;
+      }
+      case 'S': {
+        const c1: Point = control?.cubic ? [2 * current[0] - control.point[0], 2 * current[1] - control.point[1]] : current;
+        const c2 = point(relative);
+        const end = point(relative);
+        segments.push({ op: 'c', c: [c1, c2, end] });
+        current = end;
+        nextControl = { point: c2, cubic: true };
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const q: Point = command.toUpperCase() === 'Q'
+          ? point(relative)
+          : control && !control.cubic ? [2 * current[0] - control.point[0], 2 * current[1] - control.point[1]] : current;
+        const end = point(relative);
+        segments.push({
+          op: 'c',
+          c: [
+            [current[0] + (2 / 3) * (q[0] - current[0]), current[1] + (2 / 3) * (q[1] - current[1])],
+            [end[0] + (2 / 3) * (q[0] - end[0]), end[1] + (2 / 3) * (q[1] - end[1])],
+            end,
+          ],
+        });
+        current = end;
+        nextControl = { point: q, cubic: false };
+        break;
+      }
+      case 'A': {
+        const rx = number();
+        const ry = number();
+        const rotation = number();
+        const large = number() !== 0;
+        const sweep = number() !== 0;
+        const end = point(relative);
+        segments.push(...arcToCurves(current, rx, ry, rotation, large, sweep, end));
+        current = end;
+        break;
+      }
+      case 'Z':
+        segments.push({ op: 'h' });
+        current = start;
+        break;
+      default:
+        return segments;
+    }
+    // Ran out of numbers: drop the incomplete segment
+    if (i > tokens.length) {
+      segments.pop();
+      break;
+    }
+    control = nextControl;
+  }
+  return segments;
+}
+
+// Basic shapes as paths
+function shapeSegments(element: SVGElement): Segment[] {
+  const attribute = (name: string) => Number(element.getAttribute(name) ?? 0) || 0;
+  switch (element.tagName) {
+    case 'path':
+      return parsePath(element.getAttribute('d') ?? '');
+    case 'rect': {
+      const x = attribute('x');
+      const y = attribute('y');
+      const w = attribute('width');
+      const h = attribute('height');
+      const rx = Math.min(attribute('rx') || attribute('ry'), w / 2);
+      const ry = Math.min(attribute('ry') || rx, h / 2);
+      if (!rx) return [{ op: 'm', c: [x, y] }, { op: 'l', c: [x + w, y] }, { op: 'l', c: [x + w, y + h] }, { op: 'l', c: [x, y + h] }, { op: 'h' }];
+      return parsePath(`M${x + rx},${y}H${x + w - rx}A${rx},${ry} 0 0 1 ${x + w},${y + ry}V${y + h - ry}A${rx},${ry} 0 0 1 ${x + w - rx},${y + h}H${x + rx}A${rx},${ry} 0 0 1 ${x},${y + h - ry}V${y + ry}A${rx},${ry} 0 0 1 ${x + rx},${y}Z`);
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = attribute('cx');
+      const cy = attribute('cy');
+      const rx = attribute(element.tagName === 'circle' ? 'r' : 'rx');
+      const ry = attribute(element.tagName === 'circle' ? 'r' : 'ry');
+      return parsePath(`M${cx - rx},${cy}A${rx},${ry} 0 1 0 ${cx + rx},${cy}A${rx},${ry} 0 1 0 ${cx - rx},${cy}Z`);
+    }
+    case 'line':
+      return [{ op: 'm', c: [attribute('x1'), attribute('y1')] }, { op: 'l', c: [attribute('x2'), attribute('y2')] }];
+    case 'polyline':
+    case 'polygon': {
+      const values = (element.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(Number);
+      const segments: Segment[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) segments.push({ op: i === 0 ? 'm' : 'l', c: [values[i], values[i + 1]] });
+      if (element.tagName === 'polygon' && segments.length) segments.push({ op: 'h' });
+      return segments;
+    }
+    default:
+      return [];
+  }
+}
+
+const SVG_SKIPPED = new Set(['defs', 'marker', 'clipPath', 'mask', 'symbol', 'pattern', 'linearGradient', 'radialGradient', 'style', 'title', 'desc', 'use']);
+
+const LIST_COUNTERS: Record<string, (n: number) => string> = {
+  decimal: n => `${n}.`,
+  'decimal-leading-zero': n => `${String(n).padStart(2, '0')}.`,
+  'lower-alpha': n => `${String.fromCharCode(96 + ((n - 1) % 26) + 1)}.`,
+  'lower-latin': n => `${String.fromCharCode(96 + ((n - 1) % 26) + 1)}.`,
+  'upper-alpha': n => `${String.fromCharCode(64 + ((n - 1) % 26) + 1)}.`,
+  'upper-latin': n => `${String.fromCharCode(64 + ((n - 1) % 26) + 1)}.`,
+  'lower-roman': n => `${toRoman(n).toLowerCase()}.`,
+  'upper-roman': n => `${toRoman(n)}.`,
+};
+
+const LIST_BULLETS: Record<string, string> = { disc: '•', circle: '◦', square: '▪' };
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let result = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+const isLatin1 = (text: string) => Array.from(text).every(character => character.codePointAt(0)! <= 0xff);
+
+interface DrawState {
+  // Intersection of the boxes of overflow-clipping ancestors
+  clip: Box | null;
+  underline: boolean;
+  lineThrough: boolean;
+}
+
+/**
+ * Draws the laid out content onto the pages of a jsPDF document, mapping
+ * frame pixels to points and page offsets.
+ */
+class PdfPainter {
+  private readonly pdf: jsPDF;
+  private readonly win: Window;
+  private readonly origin: Box;
+  private readonly starts: number[];
+  private readonly parseColor = createColorParser();
+  private readonly range: Range;
+  private readonly cjk: boolean;
+  private readonly segmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null;
+  private page = -1;
+
+  constructor(pdf: jsPDF, root: HTMLElement, starts: number[], cjk: boolean) {
+    this.pdf = pdf;
+    this.win = root.ownerDocument.defaultView!;
+    const rect = root.getBoundingClientRect();
+    this.origin = { left: rect.left, top: rect.top, right: rect.right, bottom: rect.bottom };
+    this.starts = starts;
+    this.range = root.ownerDocument.createRange();
+    this.cjk = cjk;
+  }
+
+  pageOf(y: number): number {
+    let page = 0;
+    while (page + 1 < this.starts.length && this.starts[page + 1] <= y) page++;
+    return page;
+  }
+
+  private pageEnd(page: number): number {
+    return Math.min(this.starts[page] + CONTENT_HEIGHT, this.starts[page + 1] ?? Infinity);
+  }
+
+  private usePage(page: number) {
+    if (page === this.page) return;
+    this.pdf.setPage(page + 1);
+    this.page = page;
+  }
+
+  private x(value: number): number {
+    return MARGIN + (value - this.origin.left) * PT_PER_PX;
+  }
+
+  private y(value: number, page: number): number {
+    return MARGIN + (value - this.origin.top - this.starts[page]) * PT_PER_PX;
+  }
+
+  /** Run a drawing on every page a box touches, clipped to the page when it crosses one. */
+  private onPages(box: Box, draw: (page: number) => void, clip: Box | null = null) {
+    const top = box.top - this.origin.top;
+    const bottom = box.bottom - this.origin.top;
+    const first = this.pageOf(top);
+    const last = this.pageOf(Math.max(top, bottom - 0.5));
+    for (let page = first; page <= last; page++) {
+      this.usePage(page);
+      const crosses = first !== last;
+      if (!crosses && !clip) {
+        draw(page);
+        continue;
+      }
+      let clipTop = crosses ? Math.max(top, this.starts[page]) : top;
+      let clipBottom = crosses ? Math.min(bottom, this.pageEnd(page)) : bottom;
+      let clipLeft = box.left;
+      let clipRight = box.right;
+      if (clip) {
+        clipTop = Math.max(clipTop, clip.top - this.origin.top);
+        clipBottom = Math.min(clipBottom, clip.bottom - this.origin.top);
+        clipLeft = Math.max(clipLeft, clip.left);
+        clipRight = Math.min(clipRight, clip.right);
+      }
+      if (clipBottom <= clipTop || clipRight <= clipLeft) continue;
+      this.pdf.saveGraphicsState();
+      this.pdf.rect(this.x(clipLeft), this.y(clipTop + this.origin.top, page), (clipRight - clipLeft) * PT_PER_PX, (clipBottom - clipTop) * PT_PER_PX, null);
+      this.pdf.clip();
+      this.pdf.discardPath();
+      draw(page);
+      this.pdf.restoreGraphicsState();
+    }
+  }
+
+  private fillBox(box: Box, color: Color, radius = 0) {
+    this.pdf.setFillColor(...color);
+    this.onPages(box, page => {
+      const width = (box.right - box.left) * PT_PER_PX;
+      const height = (box.bottom - box.top) * PT_PER_PX;
+      if (radius > 0) this.pdf.roundedRect(this.x(box.left), this.y(box.top, page), width, height, radius * PT_PER_PX, radius * PT_PER_PX, 'F');
+      else this.pdf.rect(this.x(box.left), this.y(box.top, page), width, height, 'F');
+    });
+  }
+
+  private drawBox(element: Element, style: CSSStyleDeclaration, rect: DOMRect) {
+    const background = this.parseColor(style.backgroundColor);
+    if (background) this.fillBox(rect, background, parseFloat(style.borderTopLeftRadius) || 0);
+
+    for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+      const width = parseFloat(style.getPropertyValue(`border-${side}-width`)) || 0;
+      const lineStyle = style.getPropertyValue(`border-${side}-style`);
+      const color = width > 0 && lineStyle !== 'none' && lineStyle !== 'hidden'
+        ? this.parseColor(style.getPropertyValue(`border-${side}-color`))
+        : null;
+      if (!color) continue;
+      const edge: Box = {
+        left: side === 'right' ? rect.right - width : rect.left,
+        right: side === 'left' ? rect.left + width : rect.right,
+        top: side === 'bottom' ? rect.bottom - width : rect.top,
+        bottom: side === 'top' ? rect.top + width : rect.bottom,
+      };
+      this.fillBox(edge, color);
+    }
+
+    // List markers are pseudo-elements, which have no boxes of their own
+    if (element.tagName === 'LI' && style.display === 'list-item' && style.listStylePosition === 'outside') {
+      this.drawListMarker(element, style, rect);
+    }
+  }
+
+  private drawListMarker(element: Element, style: CSSStyleDeclaration, rect: DOMRect) {
+    const type = style.listStyleType;
+    let marker = LIST_BULLETS[type];
+    if (!marker && LIST_COUNTERS[type]) {
+      const list = element.parentElement;
+      const items = Array.from(list?.children ?? []).filter(child => child.tagName === 'LI');
+      const start = Number(list?.getAttribute('start') ?? 1) || 1;
+      marker = LIST_COUNTERS[type](start + items.indexOf(element));
+    }
+    if (!marker) return;
+
+    this.range.selectNodeContents(element);
+    const firstLine = Array.from(this.range.getClientRects()).find(line => line.height > 0) ?? rect;
+    const markerStyle = this.win.getComputedStyle(element, '::marker');
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const width = this.measure(marker, fontSize, false, false);
+    const box = { left: rect.left - fontSize * 0.5 - width, right: rect.left - fontSize * 0.5, top: firstLine.top, bottom: firstLine.bottom };
+    this.drawRun(marker, box, fontSize, this.parseColor(markerStyle.color || style.color) ?? [0, 0, 0], false, false, false);
+  }
+
+  private setFont(text: string, bold: boolean, italic: boolean, monospace: boolean): 'native' | 'cjk' {
+    if (this.cjk && !(monospace && isLatin1(text))) {
+      this.pdf.setFont(CJK_FONT, 'normal');
+      return 'cjk';
+    }
+    const family = monospace ? 'courier' : 'helvetica';
+    this.pdf.setFont(family, bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal');
+    return 'native';
+  }
+
+  private measure(text: string, fontSizePx: number, bold: boolean, monospace: boolean): number {
+    this.setFont(text, bold, false, monospace);
+    this.pdf.setFontSize(fontSizePx * PT_PER_PX);
+    return this.pdf.getTextWidth(text) / PT_PER_PX;
+  }
+
+  /** Draw a piece of text into the box the browser gave it. */
+  private drawRun(text: string, box: Box, fontSizePx: number, color: Color, bold: boolean, italic: boolean, monospace: boolean, state?: DrawState) {
+    const font = this.setFont(text, bold, italic, monospace);
+    const fontSize = fontSizePx * PT_PER_PX;
+    this.pdf.setFontSize(fontSize);
+    this.pdf.setTextColor(...color);
+
+    // Scale the PDF font's advance to the browser's so words land where they were laid out
+    const natural = this.pdf.getTextWidth(text);
+    const target = (box.right - box.left) * PT_PER_PX;
+    const ratio = natural > 0 ? target / natural : 1;
+    const horizontalScale = ratio > 0.6 && ratio < 1.6 && Math.abs(ratio - 1) > 0.01 ? ratio : undefined;
+    // One weight of the CJK font: bold is drawn with an outline
+    const fakeBold = bold && font === 'cjk';
+    const baseline = (box.top + box.bottom) / 2 + fontSizePx * 0.35;
+
+    this.onPages(box, page => {
+      if (fakeBold) {
+        this.pdf.setDrawColor(...color);
+        this.pdf.setLineWidth(fontSize * 0.03);
+      }
+      this.pdf.text(text, this.x(box.left), this.y(baseline, page), {
+        baseline: 'alphabetic',
+        horizontalScale,
+        renderingMode: fakeBold ? 'fillThenStroke' : undefined,
+      });
+      if (state?.underline || state?.lineThrough) {
+        this.pdf.setDrawColor(...color);
+        this.pdf.setLineWidth(Math.max(0.5, fontSize / 16));
+        const lineY = state.underline ? baseline + fontSizePx * 0.12 : baseline - fontSizePx * 0.3;
+        this.pdf.line(this.x(box.left), this.y(lineY, page), this.x(box.right), this.y(lineY, page));
+      }
+    });
+  }
+
+  private drawText(node: Text, state: DrawState) {
+    const text = node.data;
+    const parent = node.parentElement;
+    if (!parent || !text.trim()) return;
+    const style = this.win.getComputedStyle(parent);
+    if (style.visibility === 'hidden') return;
+
+    const inSvg = parent.namespaceURI === 'http://www.w3.org/2000/svg';
+    const color = this.parseColor(inSvg ? style.fill : style.color, Number(style.opacity) || 1);
+    if (!color) return;
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const bold = Number(style.fontWeight) >= 600 || style.fontWeight === 'bold';
+    const italic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
+    const monospace = /mono|courier|consolas|menlo/i.test(style.fontFamily);
+
+    const segments = this.segmenter
+      ? Array.from(this.segmenter.segment(text), segment => ({ text: segment.segment, index: segment.index }))
+      : Array.from(text.matchAll(/\S+|\s+/g), match => ({ text: match[0], index: match.index! }));
+
+    for (const segment of segments) {
+      if (!segment.text.trim()) continue;
+      this.range.setStart(node, segment.index);
+      this.range.setEnd(node, segment.index + segment.text.length);
+      const rects = Array.from(this.range.getClientRects()).filter(rect => rect.width > 0);
+      if (rects.length === 1) {
+        this.drawClipped(segment.text, rects[0], fontSize, color, bold, italic, monospace, state);
+        continue;
+      }
+      // Wrapped inside the segment: place it character by character
+      for (const character of Array.from(segment.text)) {
+        const offset = segment.index + segment.text.indexOf(character);
+        if (!character.trim()) continue;
+        this.range.setStart(node, offset);
+        this.range.setEnd(node, offset + character.length);
+        const rect = this.range.getClientRects()[0];
+        if (rect?.width > 0) this.drawClipped(character, rect, fontSize, color, bold, italic, monospace, state);
+      }
+    }
+  }
+
+  private drawClipped(text: string, rect: DOMRect, fontSize: number, color: Color, bold: boolean, italic: boolean, monospace: boolean, state: DrawState) {
+    const { clip } = state;
+    // Text scrolled out of view inside its container isn't part of the page
+    if (clip && (rect.left < clip.left - 1 || rect.right > clip.right + 1 || rect.bottom < clip.top || rect.top > clip.bottom)) return;
+    this.drawRun(text, rect, fontSize, color, bold, italic, monospace, state);
+  }
+
+  private drawImage(source: HTMLImageElement | HTMLCanvasElement, rect: DOMRect, state: DrawState) {
+    try {
+      this.onPages(rect, page => {
+        this.pdf.addImage(source, 'PNG', this.x(rect.left), this.y(rect.top, page), rect.width * PT_PER_PX, rect.height * PT_PER_PX, undefined, 'FAST');
+      }, state.clip);
+    } catch (error) {
+      // Cross-origin images can't be read back
+      console.warn('PDF export skipped an image:', error);
+    }
+  }
+
+  private drawCheckbox(input: HTMLInputElement, rect: DOMRect) {
+    const size = Math.min(rect.width, rect.height);
+    const box = { left: rect.left, top: rect.top, right: rect.left + size, bottom: rect.top + size };
+    this.pdf.setDrawColor(148, 163, 184);
+    this.pdf.setLineWidth(1);
+    this.onPages(box, page => {
+      this.pdf.roundedRect(this.x(box.left), this.y(box.top, page), size * PT_PER_PX, size * PT_PER_PX, 2, 2, 'S');
+      if (input.checked) {
+        this.pdf.setDrawColor(37, 99, 235);
+        this.pdf.lines([[size * 0.25 * PT_PER_PX, size * 0.25 * PT_PER_PX], [size * 0.45 * PT_PER_PX, -size * 0.5 * PT_PER_PX]], this.x(box.left + size * 0.2), this.y(box.top + size * 0.5, page), [1, 1], 'S');
+      }
+    });
+  }
+
+  private svgPath(segments: Segment[], matrix: Matrix, page: number) {
+    const map = ([px, py]: Point): [number, number] => {
+      const x = matrix.a * px + matrix.c * py + matrix.e;
+      const y = matrix.b * px + matrix.d * py + matrix.f;
+      return [this.x(x), this.y(y, page)];
+    };
+    this.pdf.path(segments.map(segment => {
+      if (segment.op === 'h') return { op: 'h', c: [] };
+      if (segment.op === 'c') return { op: 'c', c: segment.c.flatMap(map) };
+      return { op: segment.op, c: map(segment.c) };
+    }));
+  }
+
+  private paintShape(element: SVGElement, segments: Segment[], matrix: Matrix, box: Box, clip: Box) {
+    if (segments.length === 0) return;
+    const style = this.win.getComputedStyle(element);
+    if (style.visibility === 'hidden' || style.display === 'none') return;
+    const opacity = Number(style.opacity) || 1;
+    const fill = this.parseColor(style.fill, (Number(style.fillOpacity) || 1) * opacity);
+    const stroke = this.parseColor(style.stroke, (Number(style.strokeOpacity) || 1) * opacity);
+    const scale = Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c));
+    const strokeWidth = (parseFloat(style.strokeWidth) || 1) * scale * PT_PER_PX;
+    const dashes = style.strokeDasharray && style.strokeDasharray !== 'none'
+      ? style.strokeDasharray.split(/[\s,]+/).map(value => parseFloat(value) * scale * PT_PER_PX)
+      : [];
+    if (!fill && !stroke) return;
+
+    this.onPages(box, page => {
+      if (fill) this.pdf.setFillColor(...fill);
+      if (stroke) {
+        this.pdf.setDrawColor(...stroke);
+        this.pdf.setLineWidth(strokeWidth);
+        this.pdf.setLineDashPattern(dashes, 0);
+      }
+      this.svgPath(segments, matrix, page);
+      if (fill && stroke) this.pdf.fillStroke();
+      else if (fill) this.pdf.fill();
+      else this.pdf.stroke();
+      if (dashes.length) this.pdf.setLineDashPattern([], 0);
+    }, clip);
+
+    this.paintMarkers(element, style, segments, matrix, box, clip);
+  }
+
+  // Arrowheads of diagram edges, drawn from the `<marker>` they reference
+  private paintMarkers(element: SVGElement, style: CSSStyleDeclaration, segments: Segment[], matrix: Matrix, box: Box, clip: Box) {
+    const ends: { reference: string; at: Point; from: Point }[] = [];
+    const points = segments.flatMap(segment => (segment.op === 'h' ? [] : segment.op === 'c' ? segment.c : [segment.c]));
+    if (points.length < 2) return;
+    const markerStart = style.getPropertyValue('marker-start');
+    const markerEnd = style.getPropertyValue('marker-end');
+    if (markerStart && markerStart !== 'none') ends.push({ reference: markerStart, at: points[0], from: points[1] });
+    if (markerEnd && markerEnd !== 'none') ends.push({ reference: markerEnd, at: points[points.length - 1], from: points[points.length - 2] });
+
+    for (const end of ends) {
+      const id = end.reference.match(/url\(["']?#([^"')]+)["']?\)/)?.[1];
+      const marker = id ? element.ownerDocument.getElementById(id) : null;
+      if (!marker || marker.tagName !== 'marker') continue;
+      const number = (name: string, fallback: number) => Number(marker.getAttribute(name) ?? fallback) || fallback;
+      const viewBox = (marker.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+      const markerWidth = number('markerWidth', 3);
+      const markerHeight = number('markerHeight', 3);
+      const scaleX = viewBox.length === 4 && viewBox[2] ? markerWidth / viewBox[2] : 1;
+      const scaleY = viewBox.length === 4 && viewBox[3] ? markerHeight / viewBox[3] : 1;
+      const unit = marker.getAttribute('markerUnits') === 'userSpaceOnUse' ? 1 : parseFloat(style.strokeWidth) || 1;
+      const orient = marker.getAttribute('orient') ?? '0';
+      const angle = orient.startsWith('auto')
+        ? Math.atan2(end.at[1] - end.from[1], end.at[0] - end.from[0]) + (orient === 'auto-start-reverse' && end === ends[0] && markerStart !== 'none' ? Math.PI : 0)
+        : (Number(orient) * Math.PI) / 180 || 0;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+
+      let local: Matrix = { a: 1, b: 0, c: 0, d: 1, e: end.at[0], f: end.at[1] };
+      local = multiply(local, { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 });
+      local = multiply(local, { a: unit * scaleX, b: 0, c: 0, d: unit * scaleY, e: 0, f: 0 });
+      local = multiply(local, { a: 1, b: 0, c: 0, d: 1, e: -number('refX', 0) - (viewBox[0] || 0), f: -number('refY', 0) - (viewBox[1] || 0) });
+      const markerMatrix = multiply(matrix, local);
+
+      marker.querySelectorAll('path, rect, circle, ellipse, line, polyline, polygon').forEach(shape => {
+        this.paintShape(shape as SVGElement, shapeSegments(shape as SVGElement), markerMatrix, box, clip);
+      });
+    }
+  }
+
+  private drawSvg(svg: SVGSVGElement, state: DrawState) {
+    const rect = svg.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+    const toFrame = (matrix: DOMMatrix | null): Matrix | null => matrix && { a: matrix.a, b: matrix.b, c: matrix.c, d: matrix.d, e: matrix.e, f: matrix.f };
+    // Everything stays inside the SVG's viewport
+    const clip: Box = state.clip
+      ? { left: Math.max(rect.left, state.clip.left), right: Math.min(rect.right, state.clip.right), top: Math.max(rect.top, state.clip.top), bottom: Math.min(rect.bottom, state.clip.bottom) }
+      : rect;
+    const inner: DrawState = { ...state, clip };
+
+    const visit = (node: Element) => {
+      for (const child of Array.from(node.children)) {
+        if (SVG_SKIPPED.has(child.tagName)) continue;
+        if (child.tagName === 'foreignObject') {
+          this.drawChildren(child, inner);
+          continue;
+        }
+        if (child.tagName === 'text') {
+          this.drawChildren(child, inner);
+          continue;
+        }
+        if (child.tagName === 'image') {
+          // Rare in diagrams; left out rather than rasterized
+          continue;
+        }
+        const matrix = toFrame((child as SVGGraphicsElement).getScreenCTM?.() ?? null);
+        const segments = matrix ? shapeSegments(child as SVGElement) : [];
+        if (matrix && segments.length) {
+          const box = child.getBoundingClientRect();
+          const pad = 4;
+          this.paintShape(child as SVGElement, segments, matrix, { left: box.left - pad, right: box.right + pad, top: box.top - pad, bottom: box.bottom + pad }, clip);
+        }
+        if (child.children.length) visit(child);
+      }
+    };
+    visit(svg);
+  }
+
+  private drawChildren(element: Element, state: DrawState) {
+    element.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) this.drawText(child as Text, state);
+      else if (child.nodeType === Node.ELEMENT_NODE) this.drawElement(child as Element, state);
+    });
+  }
+
+  drawElement(element: Element, state: DrawState) {
+    if (element.tagName === 'svg') {
+      this.drawSvg(element as SVGSVGElement, state);
+      return;
+    }
+    const style = this.win.getComputedStyle(element);
+    if (style.display === 'none') return;
+    const rect = element.getBoundingClientRect();
+    // Visually hidden content such as screen reader labels and KaTeX's MathML
+    if (style.position === 'absolute' && rect.width <= 1 && rect.height <= 1) return;
+    if (style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0) this.drawBox(element, style, rect);
+
+    switch (element.tagName) {
+      case 'IMG':
+        if (rect.width > 0) this.drawImage(element as HTMLImageElement, rect, state);
+        return;
+      case 'CANVAS':
+        this.drawImage(element as HTMLCanvasElement, rect, state);
+        return;
+      case 'INPUT':
+        if ((element as HTMLInputElement).type === 'checkbox') this.drawCheckbox(element as HTMLInputElement, rect);
+        return;
+      case 'VIDEO':
+      case 'AUDIO':
+      case 'IFRAME':
+      case 'STYLE':
+      case 'SCRIPT':
+        return;
+    }
+
+    const decoration = style.textDecorationLine || '';
+    const clips = style.overflowX !== 'visible' || style.overflowY !== 'visible';
+    const clip = clips
+      ? state.clip
+        ? { left: Math.max(rect.left, state.clip.left), right: Math.min(rect.right, state.clip.right), top: Math.max(rect.top, state.clip.top), bottom: Math.min(rect.bottom, state.clip.bottom) }
+        : { left: rect.left, right: rect.right, top: rect.top, bottom: rect.bottom }
+      : state.clip;
+    this.drawChildren(element, {
+      clip,
+      underline: state.underline || decoration.includes('underline'),
+      lineThrough: state.lineThrough || decoration.includes('line-through'),
+    });
+  }
+
+  /** Clickable areas over links; in-document anchors jump to their page. */
+  addLinks(root: HTMLElement) {
+    root.querySelectorAll('a[href]').forEach(anchor => {
+      const href = anchor.getAttribute('href')!;
+      let options: { url: string } | { pageNumber: number } | null = null;
+      if (href.startsWith('#')) {
+        const target = root.ownerDocument.getElementById(decodeURIComponent(href.slice(1)));
+        if (target) options = { pageNumber: this.pageOf(target.getBoundingClientRect().top - this.origin.top) + 1 };
+      } else if (/^(https?:|mailto:)/i.test(href)) {
+        options = { url: href };
+      }
+      if (!options) return;
+      for (const rect of Array.from(anchor.getClientRects())) {
+        if (rect.width === 0) continue;
+        const page = this.pageOf(rect.top - this.origin.top);
+        this.usePage(page);
+        this.pdf.link(this.x(rect.left), this.y(rect.top, page), rect.width * PT_PER_PX, rect.height * PT_PER_PX, options);
+      }
+    });
+  }
+
+  /** Bookmarks nested by heading level. */
+  addOutline(root: HTMLElement) {
+    const stack: { level: number; item: unknown }[] = [];
+    root.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(heading => {
+      const title = heading.textContent?.trim();
+      if (!title) return;
+      const level = Number(heading.tagName[1]);
+      while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+      const pageNumber = this.pageOf(heading.getBoundingClientRect().top - this.origin.top) + 1;
+      const item = this.pdf.outline.add(stack[stack.length - 1]?.item ?? null, title, { pageNumber });
+      stack.push({ level, item });
+    });
+  }
+}
+
+/**
+ * Render the preview element to a vector PDF. Rejects when the document
+ * has text beyond Latin-1 and no CJK font could be loaded.
+ */
+export async function createVectorPdf(element: HTMLElement, options: VectorPdfOptions = {}): Promise<jsPDF> {
+  const { frame, root } = await layOut(element);
+  try {
+    const needsCjk = !isLatin1(root.textContent ?? '');
+    // The font is several megabytes, so Latin-only documents go without it
+    const font = needsCjk ? await loadCjkFont() : null;
+    if (needsCjk && !font) throw new Error('无法加载中文字体，PDF 导出失败');
+
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4', compress: true });
+    if (font) {
+      pdf.addFileToVFS(`${CJK_FONT}.ttf`, font);
+      pdf.addFont(`${CJK_FONT}.ttf`, CJK_FONT, 'normal');
+    }
+    pdf.setDocumentProperties({
+      title: options.title ?? '',
+      author: options.author ?? '',
+      subject: options.subject ?? '',
+      keywords: options.keywords ?? '',
+      creator: 'Best AI MD',
+    });
+    pdf.setDisplayMode('fullwidth', 'continuous', 'UseOutlines');
+
+    const rootRect = root.getBoundingClientRect();
+    const starts = paginate(breakAtoms(root, rootRect));
+    for (let page = 1; page < starts.length; page++) pdf.addPage();
+
+    const painter = new PdfPainter(pdf, root, starts, !!font);
+    Array.from(root.childNodes).forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE) painter.drawElement(child as Element, { clip: null, underline: false, lineThrough: false });
+    });
+    painter.addLinks(root);
+    painter.addOutline(root);
+    return pdf;
+  } finally {
+    frame.remove();
+  }
+}
@@ -0,0 +1,56 @@
+import type { Processor } from "unified";
+import type { MdastNode } from "@/lib/markdown-pipeline";
+import { WIKI_LINK_PATTERN } from "@/lib/wiki-links";
+import { ALERT_MARKER } from "@/lib/alerts";
+import { isTocMarkerText } from "@/lib/toc";
+
+/**
+ * Syntax the preview's own plugins read out of plain text: `[[wiki links]]`,
+ * `[TOC]` markers and the `[!NOTE]` opening an alert. The visual editor
+ * parses without those plugins and keeps such syntax as text, which
+ * remark-stringify would escape (`\[\[Page]]`) once the block is edited and
+ * printed from the tree.
+ */
+
+interface SafeInfo {
+  before: string;
+  after: string;
+}
+
+// Just enough of mdast-util-to-markdown's state for the handler below
+interface ToMarkdownState {
+  stack: string[];
+  safe(value: string, info: SafeInfo): string;
+}
+
+// Ranges of the text to print as written
+function verbatimRanges(node: MdastNode, parent: MdastNode | undefined, state: ToMarkdownState): [number, number][] {
+  const value = node.value ?? '';
+  if (parent?.type === 'paragraph' && parent.children?.length === 1 && isTocMarkerText(value)) {
+    return [[0, value.length]];
+  }
+  const ranges = Array.from(value.matchAll(WIKI_LINK_PATTERN), match => [match.index!, match.index! + match[0].length] as [number, number]);
+  if (parent?.type === 'paragraph' && parent.children?.[0] === node && state.stack.includes('blockquote') && ALERT_MARKER.test(value)) {
+    ranges.unshift([0, value.indexOf(']') + 1]);
+  }
+  return ranges;
+}
+
+function text(node: MdastNode, parent: MdastNode | undefined, state: ToMarkdownState, info: SafeInfo): string {
+  const value = node.value ?? '';
+  let output = '';
+  let last = 0;
+
+  for (const [from, to] of verbatimRanges(node, parent, state)) {
+    output += state.safe(value.slice(last, from), { before: last > 0 ? value[last - 1] : info.before, after: value[from] });
+    output += value.slice(from, to);
+    last = to;
+  }
+  return output + state.safe(value.slice(last), { before: last > 0 ? value[last - 1] : info.before, after: info.after });
+}
+
+/** Remark plugin teaching remark-stringify to print that syntax unescaped. */
+export function remarkVerbatimText(this: Processor) {
+  const data = this.data() as { toMarkdownExtensions?: unknown[] };
+  (data.toMarkdownExtensions ??= []).push({ handlers: { text } });
+}
@@ -0,0 +1,153 @@
+import type { FileNode } from "@/lib/file-system";
+import type { MdastNode } from "@/lib/markdown-pipeline";
+
+/**
+ * `[[Page]]`, `[[Page#Heading]]` and `[[Page|Alias]]` links between the
+ * Markdown files of a workspace. Pages are matched by file name without
+ * extension, or by a path suffix like `[[notes/Page]]`.
+ */
+
+export interface WikiLink {
+  page: string;
+  heading?: string;
+  alias?: string;
+  // Offsets of the whole `[[...]]` in the document
+  from: number;
+  to: number;
+}
+
+export interface WikiPage {
+  node: FileNode;
+  path: string;
+  name: string;
+}
+
+export const WIKI_LINK_PATTERN = /\[\[([^[\]|#\n]*)(?:#([^[\]|\n]+))?(?:\|([^[\]\n]+))?\]\]/g;
+
+export function pageNameOf(fileName: string): string {
+  return fileName.replace(/\.(md|markdown|mdx)$/i, "");
+}
+
+function normalizePage(page: string): string {
+  return pageNameOf(page.trim()).replace(/\\/g, "/").toLowerCase();
+}
+
+export function parseWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  let offset = 0;
+  let inFence = false;
+
+  // Line by line so links inside fenced code blocks can be skipped
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && line.includes("[[")) {
+      for (const match of line.matchAll(WIKI_LINK_PATTERN)) {
+        const [text, page, heading, alias] = match;
+        if (!page.trim() && !heading) continue;
+        links.push({
+          page: page.trim(),
+          heading: heading?.trim(),
+          alias: alias?.trim(),
+          from: offset + match.index!,
+          to: offset + match.index! + text.length,
+        });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return links;
+}
+
+export function resolveWikiPage(pages: WikiPage[], page: string): WikiPage | null {
+  const target = normalizePage(page);
+  if (!target) return null;
+
+  if (target.includes("/")) {
+    return pages.find(candidate => {
+      const path = normalizePage(candidate.path);
+      return path === target || path.endsWith(`/${target}`);
+    }) ?? null;
+  }
+  return pages.find(candidate => candidate.name.toLowerCase() === target) ?? null;
+}
+
+/** Offset of the start of the line holding the given heading, if any. */
+export function findHeadingOffset(content: string, heading: string): number | null {
+  const target = heading.trim().toLowerCase();
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const match = line.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (match && match[1].toLowerCase() === target) {
+      return offset;
+    }
+    offset += line.length + 1;
+  }
+  return null;
+}
+
+// Nodes whose text must stay as written
+const SKIPPED_PARENTS = new Set(["link", "linkReference", "definition"]);
+
+function splitText(value: string, exists?: (page: string) => boolean): MdastNode[] {
+  const nodes: MdastNode[] = [];
+  let last = 0;
+
+  for (const match of value.matchAll(WIKI_LINK_PATTERN)) {
+    const [text, rawPage, rawHeading, rawAlias] = match;
+    const page = rawPage.trim();
+    const heading = rawHeading?.trim();
+    if (!page && !heading) continue;
+
+    if (match.index! > last) {
+      nodes.push({ type: "text", value: value.slice(last, match.index) });
+    }
+
+    const label = rawAlias?.trim() || (heading ? (page ? `${page} › ${heading}` : heading) : page);
+    const missing = !!page && !!exists && !exists(page);
+    nodes.push({
+      type: "link",
+      url: "#",
+      children: [{ type: "text", value: label }],
+      data: {
+        hProperties: {
+          className: missing ? ["wiki-link", "wiki-link-missing"] : ["wiki-link"],
+          dataWikiPage: page,
+          dataWikiHeading: heading,
+        },
+      },
+    });
+    last = match.index! + text.length;
+  }
+
+  if (nodes.length === 0) return [];
+  if (last < value.length) {
+    nodes.push({ type: "text", value: value.slice(last) });
+  }
+  return nodes;
+}
+
+/**
+ * Remark plugin turning wiki-links into link nodes carrying
+ * `data-wiki-page`/`data-wiki-heading`, so the renderer can open them.
+ */
+export function remarkWikiLinks(options: { exists?: (page: string) => boolean } = {}) {
+  const transform = (node: MdastNode) => {
+    if (!node.children || SKIPPED_PARENTS.has(node.type)) return;
+
+    node.children = node.children.flatMap(child => {
+      if (child.type === "text" && child.value?.includes("[[")) {
+        const replaced = splitText(child.value, options.exists);
+        if (replaced.length > 0) return replaced;
+      }
+      transform(child);
+      return [child];
+    });
+  };
+
+  return (tree: MdastNode) => {
+    transform(tree);
+  };
+}
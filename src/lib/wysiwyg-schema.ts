@@ -0,0 +1,409 @@
+import { Schema } from "prosemirror-model";
+import katex from "katex";
+
+/**
+ * ProseMirror schema of the visual editor. Every markdown construct has a
+ * node or mark here, so documents survive a trip through the editor; the
+ * conversion itself lives in `markdown-prosemirror`.
+ */
+
+/** Render TeX into an element, showing the source if KaTeX gives up. */
+export function renderKatex(target: HTMLElement, value: string, displayMode: boolean) {
+  try {
+    katex.render(value, target, { displayMode, throwOnError: false, strict: 'ignore' });
+  } catch (error) {
+    console.error('[KaTeX] Failed to render:', error);
+    target.textContent = value;
+  }
+}
+
+function renderMath(value: string, displayMode: boolean): HTMLElement {
+  const dom = document.createElement(displayMode ? 'div' : 'span');
+  dom.className = displayMode ? 'katex-block' : 'katex-inline';
+  dom.setAttribute('data-value', value);
+  renderKatex(dom, value, displayMode);
+  return dom;
+}
+
+const cellAttrs = {
+  align: { default: null },
+  colspan: { default: 1 },
+  rowspan: { default: 1 },
+  colwidth: { default: null },
+};
+
+const getCellAttrs = (dom: HTMLElement) => ({
+  align: dom.style.textAlign || dom.getAttribute("align") || null,
+  colspan: Number(dom.getAttribute("colspan") || 1),
+  rowspan: Number(dom.getAttribute("rowspan") || 1),
+});
+
+function setCellAttrs(attrs: Record<string, unknown>) {
+  const dom: Record<string, string> = {};
+  if (attrs.align) dom.style = `text-align: ${attrs.align}`;
+  if (attrs.colspan !== 1) dom.colspan = String(attrs.colspan);
+  if (attrs.rowspan !== 1) dom.rowspan = String(attrs.rowspan);
+  return dom;
+}
+
+// Enhanced schema with fenced code blocks that support language parameter
+export const schema = new Schema({
+  nodes: {
+    doc: {
+      content: "block+"
+    },
+    paragraph: {
+      content: "inline*",
+      group: "block",
+      parseDOM: [{ tag: "p" }],
+      toDOM() { return ["p", 0]; }
+    },
+    // YAML or TOML block at the very top of the document, kept as source
+    front_matter: {
+      attrs: { fence: { default: '---' } },
+      content: "text*",
+      marks: "",
+      group: "block",
+      code: true,
+      defining: true,
+      parseDOM: [{ tag: "pre.front-matter", preserveWhitespace: "full", priority: 60 }],
+      toDOM() { return ["pre", { class: "front-matter" }, ["code", 0]]; }
+    },
+    blockquote: {
+      content: "block+",
+      group: "block",
+      defining: true,
+      parseDOM: [{ tag: "blockquote" }],
+      toDOM() { return ["blockquote", 0]; }
+    },
+    horizontal_rule: {
+      group: "block",
+      parseDOM: [{ tag: "hr" }],
+      toDOM() { return ["hr"]; }
+    },
+    heading: {
+      attrs: { level: { default: 1 } },
+      content: "inline*",
+      group: "block",
+      defining: true,
+      parseDOM: [
+        { tag: "h1", attrs: { level: 1 } },
+        { tag: "h2", attrs: { level: 2 } },
+        { tag: "h3", attrs: { level: 3 } },
+        { tag: "h4", attrs: { level: 4 } },
+        { tag: "h5", attrs: { level: 5 } },
+        { tag: "h6", attrs: { level: 6 } },
+      ],
+      toDOM(node) { return ["h" + node.attrs.level, 0]; }
+    },
+    code_block: {
+      attrs: { language: { default: null }, meta: { default: null } },
+      content: "text*",
+      marks: "",
+      group: "block",
+      code: true,
+      defining: true,
+      parseDOM: [{
+        tag: "pre",
+        getAttrs(dom) {
+          const code = (dom as HTMLElement).querySelector('code');
+          if (code) {
+            const classList = code.className;
+            const langMatch = classList.match(/language-(\w+)/);
+            return {
+              language: langMatch ? langMatch[1] : null
+            };
+          }
+          return {};
+        }
+      }],
+      toDOM(node) {
+        const attrs = node.attrs.language ? { class: `language-${node.attrs.language}`, "data-language": node.attrs.language } : {};
+        return ["pre", ["code", attrs, 0]];
+      }
+    },
+    // Raw HTML blocks are edited as source
+    html_block: {
+      content: "text*",
+      marks: "",
+      group: "block",
+      code: true,
+      defining: true,
+      parseDOM: [{ tag: "pre.html-block", preserveWhitespace: "full", priority: 60 }],
+      toDOM() { return ["pre", { class: "html-block" }, ["code", 0]]; }
+    },
+    math_block: {
+      attrs: { value: { default: '' } },
+      group: "block",
+      atom: true,
+      parseDOM: [{
+        tag: "div.katex-block[data-value]",
+        getAttrs(dom) {
+          return { value: (dom as HTMLElement).getAttribute("data-value") };
+        }
+      }],
+      toDOM(node) { return renderMath(node.attrs.value, true); }
+    },
+    // `[label]: url "title"`, the target of reference links
+    definition: {
+      attrs: {
+        identifier: {},
+        label: { default: null },
+        url: { default: '' },
+        title: { default: null }
+      },
+      group: "block",
+      atom: true,
+      toDOM(node) {
+        const { label, identifier, url, title } = node.attrs;
+        return ["div", { class: "link-definition" }, `[${label ?? identifier}]: ${url}${title ? ` "${title}"` : ''}`];
+      }
+    },
+    footnote_definition: {
+      attrs: {
+        identifier: {},
+        label: { default: null }
+      },
+      content: "block+",
+      group: "block",
+      defining: true,
+      toDOM(node) {
+        return ["div", { class: "footnote-definition", "data-label": node.attrs.label ?? node.attrs.identifier }, 0];
+      }
+    },
+    text: {
+      group: "inline"
+    },
+    image: {
+      inline: true,
+      attrs: {
+        src: {},
+        alt: { default: null },
+        title: { default: null },
+        // Set for `![alt][ref]` images, which take their source from a definition
+        reference: { default: null }
+      },
+      group: "inline",
+      draggable: true,
+      parseDOM: [{
+        tag: "img[src]",
+        getAttrs(dom) {
+          return {
+            src: (dom as HTMLElement).getAttribute("src"),
+            title: (dom as HTMLElement).getAttribute("title"),
+            alt: (dom as HTMLElement).getAttribute("alt")
+          };
+        }
+      }],
+      toDOM(node) {
+        const { src, alt, title } = node.attrs;
+        return ["img", { src, alt, title }];
+      }
+    },
+    hard_break: {
+      inline: true,
+      group: "inline",
+      selectable: false,
+      parseDOM: [{ tag: "br" }],
+      toDOM() { return ["br"]; }
+    },
+    html_inline: {
+      attrs: { value: { default: '' } },
+      inline: true,
+      group: "inline",
+      atom: true,
+      toDOM(node) { return ["code", { class: "html-inline" }, node.attrs.value]; }
+    },
+    math_inline: {
+      attrs: { value: { default: '' } },
+      inline: true,
+      group: "inline",
+      atom: true,
+      parseDOM: [{
+        tag: "span.katex-inline[data-value]",
+        getAttrs(dom) {
+          return { value: (dom as HTMLElement).getAttribute("data-value") };
+        }
+      }],
+      toDOM(node) { return renderMath(node.attrs.value, false); }
+    },
+    footnote_reference: {
+      attrs: {
+        identifier: {},
+        label: { default: null }
+      },
+      inline: true,
+      group: "inline",
+      atom: true,
+      toDOM(node) { return ["sup", { class: "footnote-ref" }, `[${node.attrs.label ?? node.attrs.identifier}]`]; }
+    },
+    ordered_list: {
+      content: "list_item+",
+      group: "block",
+      attrs: { order: { default: 1 }, tight: { default: true } },
+      parseDOM: [{
+        tag: "ol",
+        getAttrs(dom) {
+          return { order: (dom as HTMLElement).hasAttribute("start") ? +(dom as HTMLElement).getAttribute("start")! : 1 };
+        }
+      }],
+      toDOM(node) {
+        return node.attrs.order === 1 ? ["ol", 0] : ["ol", { start: node.attrs.order }, 0];
+      }
+    },
+    bullet_list: {
+      content: "list_item+",
+      group: "block",
+      attrs: { tight: { default: true } },
+      parseDOM: [{ tag: "ul:not(.task-list)" }],
+      toDOM() { return ["ul", 0]; }
+    },
+    list_item: {
+      // Only set for task items in lists that also hold plain items
+      attrs: { checked: { default: null } },
+      content: "paragraph block*",
+      parseDOM: [{ tag: "li:not(.task-item)" }],
+      toDOM(node) {
+        return node.attrs.checked === null ? ["li", 0] : ["li", { "data-checked": node.attrs.checked }, 0];
+      },
+      defining: true
+    },
+    // Task list support
+    task_list: {
+      content: "task_item+",
+      group: "block",
+      attrs: { tight: { default: true } },
+      parseDOM: [{
+        tag: "ul.task-list",
+      }],
+      toDOM() { return ["ul", { class: "task-list" }, 0]; }
+    },
+    task_item: {
+      content: "paragraph block*",
+      attrs: {
+        checked: { default: false }
+      },
+      parseDOM: [{
+        tag: "li.task-item",
+        getAttrs(dom) {
+          const input = (dom as HTMLElement).querySelector('input[type="checkbox"]') as HTMLInputElement;
+          return {
+            checked: input ? input.checked : false
+          };
+        }
+      }],
+      toDOM(node) {
+        return ["li", {
+          class: "task-item",
+          "data-checked": node.attrs.checked
+        }, ["input", {
+          type: "checkbox",
+          checked: node.attrs.checked,
+          contentEditable: "false"
+        }], 0];
+      }
+    },
+    // Table nodes, with the roles and spans prosemirror-tables works with
+    table: {
+      content: "table_row+",
+      group: "block",
+      tableRole: "table",
+      isolating: true,
+      parseDOM: [{ tag: "table" }],
+      toDOM() { return ["table", 0]; }
+    },
+    table_row: {
+      content: "(table_cell | table_header)*",
+      tableRole: "row",
+      parseDOM: [{ tag: "tr" }],
+      toDOM() { return ["tr", 0]; }
+    },
+    table_header: {
+      attrs: cellAttrs,
+      content: "paragraph block*",
+      tableRole: "header_cell",
+      isolating: true,
+      parseDOM: [{ tag: "th", getAttrs: (dom) => getCellAttrs(dom as HTMLElement) }],
+      toDOM(node) { return ["th", setCellAttrs(node.attrs), 0]; }
+    },
+    table_cell: {
+      attrs: cellAttrs,
+      content: "paragraph block*",
+      tableRole: "cell",
+      isolating: true,
+      parseDOM: [{ tag: "td", getAttrs: (dom) => getCellAttrs(dom as HTMLElement) }],
+      toDOM(node) { return ["td", setCellAttrs(node.attrs), 0]; }
+    }
+  },
+  marks: {
+    link: {
+      attrs: {
+        href: {},
+        title: { default: null },
+        // Set for `[text][ref]` links, which take their target from a definition
+        reference: { default: null }
+      },
+      inclusive: false,
+      parseDOM: [{
+        tag: "a[href]",
+        getAttrs(dom) {
+          return {
+            href: (dom as HTMLElement).getAttribute("href"),
+            title: (dom as HTMLElement).getAttribute("title")
+          };
+        }
+      }],
+      toDOM(node) {
+        const { href, title } = node.attrs;
+        return ["a", { href, title }, 0];
+      }
+    },
+    em: {
+      parseDOM: [
+        { tag: "i" },
+        { tag: "em" },
+        { style: "font-style=italic" }
+      ],
+      toDOM() { return ["em", 0]; }
+    },
+    strong: {
+      parseDOM: [
+        { tag: "strong" },
+        { tag: "b" },
+        { style: "font-weight", getAttrs: (value) => /^(bold(er)?|[5-9]\d{2,})$/.test(value as string) && null }
+      ],
+      toDOM() { return ["strong", 0]; }
+    },
+    strike: {
+      parseDOM: [
+        { tag: "del" },
+        { tag: "s" },
+        { tag: "strike" },
+        { style: "text-decoration=line-through" }
+      ],
+      toDOM() { return ["del", 0]; }
+    },
+    highlight: {
+      parseDOM: [{ tag: "mark" }],
+      toDOM() { return ["mark", 0]; }
+    },
+    subscript: {
+      excludes: "subscript superscript",
+      parseDOM: [{ tag: "sub" }, { style: "vertical-align=sub" }],
+      toDOM() { return ["sub", 0]; }
+    },
+    superscript: {
+      excludes: "subscript superscript",
+      parseDOM: [{ tag: "sup" }, { style: "vertical-align=super" }],
+      toDOM() { return ["sup", 0]; }
+    },
+    underline: {
+      parseDOM: [{ tag: "u" }, { tag: "ins" }, { style: "text-decoration=underline" }],
+      toDOM() { return ["u", 0]; }
+    },
+    code: {
+      parseDOM: [{ tag: "code" }],
+      toDOM() { return ["code", 0]; }
+    }
+  }
+});
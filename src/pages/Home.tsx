@@ -1,8 +1,30 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { useAutoSave } from "@/hooks/use-auto-save";
+import { useTabs, isTabDirty, type EditorTab, type TabViewState } from "@/hooks/use-tabs";
+import { useExternalChanges } from "@/hooks/use-external-changes";
+import { useRecentWorkspaces } from "@/hooks/use-recent-workspaces";
 import { toast } from "sonner";
-import { type FileNode, openDirectory, openFile, readFileContent, saveFileContent, saveAsFile, processLegacyFileList, createFileNodeFromFile } from "@/lib/file-system";
-import { FileTree } from "@/components/FileTree";
+import { type FileNode, type FileSnapshot, type FileSystemDirectoryHandle, type FileSystemFileHandle, openDirectory, openFile, readFileSnapshot, getFileLastModified, saveFileContent, saveAsFile, readFileContent, processLegacyFileList, createFileNodeFromFile, isDescendantNode } from "@/lib/file-system";
+import { FileTree, type FileTreeChange } from "@/components/FileTree";
+import { TabBar } from "@/components/TabBar";
+import { UnsavedChangesDialog } from "@/components/UnsavedChangesDialog";
+import { MergeDialog } from "@/components/MergeDialog";
+import { FrontMatterDialog } from "@/components/FrontMatterDialog";
+import { HtmlExportDialog, type HtmlExportSettings } from "@/components/HtmlExportDialog";
+import { documentMetadata, documentTitle, fieldText, type FrontMatterValue, parseFrontMatter, updateFrontMatter } from "@/lib/front-matter";
+import { SearchPanel } from "@/components/SearchPanel";
+import type { FileReplacement, SearchMatch } from "@/lib/search";
+import { type RecentEntry, restoreRecentEntry } from "@/lib/recent-workspaces";
+import { RecentWorkspaces } from "@/components/RecentWorkspaces";
+import { BacklinksPanel } from "@/components/BacklinksPanel";
+import { useWorkspaceLinks } from "@/hooks/use-workspace-links";
+import { useRelativeResources } from "@/hooks/use-relative-resources";
+import { useOutline } from "@/hooks/use-outline";
+import { useScrollSync } from "@/hooks/use-scroll-sync";
+import { moveSection } from "@/lib/outline";
+import { setTaskChecked, taskMarkerOffset } from "@/lib/task-list";
+import { docToMarkdownWithOffsets, hasPendingEdits } from "@/lib/markdown-prosemirror";
+import { OutlinePanel } from "@/components/OutlinePanel";
+import { findHeadingOffset, resolveWikiPage } from "@/lib/wiki-links";
 import { FolderOpen, Save } from "lucide-react";
 import {
   ResizableHandle,
@@ -40,13 +62,30 @@ import {
   ChevronDown,
   Code,
   Eye,
+  Files,
+  Search,
+  Link2,
+  ListTree,
+  Tags,
+  Printer,
 } from "lucide-react";
-import { exportToPDFWithPrint, exportToPNG, exportToDOCX } from "@/lib/export";
+import { exportToPDF, exportToPDFWithPrint, exportToPNG, exportToDOCX, exportToHTML } from "@/lib/export";
+import { importDocx } from "@/lib/docx-import";
+import { uploadImage } from "@/lib/image-upload";
 import { useTheme } from "@/contexts/ThemeContext";
+import { useSettings } from "@/contexts/SettingsContext";
 import { cn } from "@/lib/utils";
 import emptyStateIcon from "@/assets/empty-state.png";
 
+const SIDEBAR_TITLES = {
+  files: "资源管理器",
+  outline: "大纲",
+  search: "搜索",
+  backlinks: "反向链接",
+};
+
 const STORAGE_KEY = "md-editor-content";
+const TABS_STORAGE_KEY = "md-editor-tabs";
 const DEFAULT_MARKDOWN = `# 欢迎使用 AI Markdown 编辑器
 
 在左侧输入 Markdown 内容，右侧将实时显示预览效果。
@@ -94,13 +133,40 @@ $$
 `;
 
 export default function Home() {
-  const { value: markdown, setValue: setMarkdown, lastSaved } = useAutoSave(STORAGE_KEY, DEFAULT_MARKDOWN);
+  const [rootNode, setRootNode] = useState<FileNode | null>(null);
+  // Documents from before tabs existed live under the single-buffer key
+  const {
+    tabs,
+    activeTab,
+    activeTabId,
+    setActiveTabId,
+    openTab,
+    updateTab,
+    closeTab,
+    getViewState,
+    setViewState,
+    lastSaved,
+  } = useTabs(TABS_STORAGE_KEY, localStorage.getItem(STORAGE_KEY) ?? DEFAULT_MARKDOWN, rootNode);
+  const markdown = activeTab.content;
+  const editorMode = activeTab.editorMode;
+  const activeFileNode = activeTab.fileNode;
+  const isDirty = isTabDirty(activeTab);
+  const dirtyFileIds = new Set(
+    tabs.filter(tab => tab.fileNode && isTabDirty(tab)).map(tab => tab.fileNode!.id)
+  );
   const { theme, toggleTheme } = useTheme();
+  const { defaultImageUploadProvider } = useSettings();
   const [showSidebar, setShowSidebar] = useState(window.innerWidth >= 768);
-  const [editorMode, setEditorMode] = useState<'source' | 'wysiwyg'>('source');
-  const [rootNode, setRootNode] = useState<FileNode | null>(null);
-  const [activeFileNode, setActiveFileNode] = useState<FileNode | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [discardRequest, setDiscardRequest] = useState<{ tabId: string; proceed: () => void } | null>(null);
+  const [showFrontMatterDialog, setShowFrontMatterDialog] = useState(false);
+  const [showHtmlExportDialog, setShowHtmlExportDialog] = useState(false);
+  const [mergeRequest, setMergeRequest] = useState<{
+    tabId: string;
+    base: string;
+    ours: string;
+    theirs: FileSnapshot;
+  } | null>(null);
   
   useEffect(() => {
     const handleResize = () => {
@@ -116,15 +182,149 @@ export default function Home() {
   const [editorView, setEditorView] = useState<EditorView | ProseMirrorEditorView | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
+  const docxInputRef = useRef<HTMLInputElement>(null);
   const previewRef = useRef<HTMLDivElement>(null);
-  const isScrollingRef = useRef(false); // Flag to prevent scroll loop
+  const [sidebarView, setSidebarView] = useState<'files' | 'outline' | 'search' | 'backlinks'>('files');
+  // Selection to show once the target tab's editor is mounted
+  const [pendingReveal, setPendingReveal] = useState<{ tabId: string; from: number; to: number } | null>(null);
+  const tabsRef = useRef(tabs);
+  const { entries: recentEntries, loaded: recentLoaded, add: addRecent, remove: removeRecent } = useRecentWorkspaces();
+  const restoredWorkspaceRef = useRef(false);
+
+  useEffect(() => {
+    tabsRef.current = tabs;
+  }, [tabs]);
+
+  const setMarkdown = useCallback((value: string) => {
+    updateTab(activeTabId, { content: value });
+  }, [activeTabId, updateTab]);
+
+  const handleEditorChange = setMarkdown;
+
+  const outline = useOutline(markdown, editorView);
+
+  const handleMoveSection = (sourceIndex: number, targetIndex: number, position: 'before' | 'after') => {
+    const moved = moveSection(markdown, outline.headings, sourceIndex, targetIndex, position);
+    if (moved !== markdown) setMarkdown(moved);
+  };
+
+  // Set when switching modes, so the editor that comes up takes the focus
+  const focusEditorRef = useRef(false);
+
+  const setEditorMode = (mode: 'source' | 'wysiwyg') => {
+    focusEditorRef.current = true;
+    // The scroll position belongs to the editor being left; the next one centers the cursor
+    setViewState(activeTabId, { scrollMode: editorMode });
+    // The source editor renders before the visual one goes away, so its
+    // pending edits and cursor are taken over here. Without pending edits
+    // the buffer is newer, e.g. after an outline move or a merge.
+    if (editorView instanceof ProseMirrorEditorView && editorView.dom.isConnected) {
+      const { anchor, head } = editorView.state.selection;
+      const { markdown: content, offsets } = docToMarkdownWithOffsets(editorView.state.doc, [anchor, head]);
+      setViewState(activeTabId, { anchor: offsets[0], head: offsets[1] });
+      updateTab(activeTabId, hasPendingEdits(editorView) ? { content, editorMode: mode } : { editorMode: mode });
+      return;
+    }
+    updateTab(activeTabId, { editorMode: mode });
+  };
 
-  const handleEditorChange = useCallback((value: string) => {
-    setMarkdown(value);
-  }, [setMarkdown]);
+  useEffect(() => {
+    if (editorView && focusEditorRef.current) {
+      focusEditorRef.current = false;
+      editorView.focus();
+    }
+  }, [editorView]);
+
+  const handleViewStateChange = useCallback((state: Partial<TabViewState>) => {
+    setViewState(activeTabId, state);
+  }, [activeTabId, setViewState]);
 
-  const handleDownload = () => {
-    const blob = new Blob([markdown], { type: "text/markdown" });
+  // Open a document in a tab: focus the tab that already shows this file,
+  // reuse a pristine empty tab, or open a new one.
+  const openDocument = (node: FileNode, { content, lastModified }: FileSnapshot) => {
+    const existing = tabs.find(tab => tab.fileNode?.id === node.id);
+    if (existing) {
+      setActiveTabId(existing.id);
+      return existing.id;
+    }
+
+    if (!activeTab.fileNode && !isDirty && !activeTab.content.trim()) {
+      updateTab(activeTabId, { fileNode: node, title: node.name, content, baseline: content, lastModified });
+      return activeTabId;
+    }
+
+    return openTab({ fileNode: node, content, lastModified }).id;
+  };
+
+  // Another program wrote to a file we have open. Reload it when that can't
+  // lose anything, otherwise let the user merge the two versions.
+  const handleExternalChange = useCallback((tab: EditorTab, snapshot: FileSnapshot) => {
+    if (snapshot.content === tab.baseline) {
+      updateTab(tab.id, { lastModified: snapshot.lastModified });
+    } else if (snapshot.content === tab.content) {
+      updateTab(tab.id, { baseline: snapshot.content, lastModified: snapshot.lastModified });
+    } else if (!isTabDirty(tab)) {
+      updateTab(tab.id, { content: snapshot.content, baseline: snapshot.content, lastModified: snapshot.lastModified });
+      toast.info(`${tab.title} 已在磁盘上被修改，已重新加载`);
+    } else {
+      setMergeRequest(current => current ?? {
+        tabId: tab.id,
+        base: tab.baseline,
+        ours: tab.content,
+        theirs: snapshot,
+      });
+    }
+  }, [updateTab]);
+
+  useExternalChanges(tabs, handleExternalChange);
+
+  const handleMergeApply = (merged: string) => {
+    if (!mergeRequest) return;
+    const { tabId, theirs } = mergeRequest;
+    // The disk version becomes the new baseline, so the merge result shows
+    // up as unsaved changes on top of it
+    updateTab(tabId, { content: merged, baseline: theirs.content, lastModified: theirs.lastModified });
+    setMergeRequest(null);
+    toast.success("已合并外部修改，请保存文件");
+  };
+
+  // Run an action that throws away the tab's buffer, asking first if it
+  // has edits that haven't been written to disk.
+  const confirmDiscard = (tab: EditorTab, proceed: () => void) => {
+    if (!isTabDirty(tab)) {
+      proceed();
+      return;
+    }
+    setDiscardRequest({ tabId: tab.id, proceed });
+  };
+
+  const handleCloseTab = (id: string) => {
+    const tab = tabs.find(t => t.id === id);
+    if (!tab) return;
+    confirmDiscard(tab, () => closeTab(id));
+  };
+
+  const handleDiscardSave = async () => {
+    const request = discardRequest;
+    setDiscardRequest(null);
+    const tab = tabs.find(t => t.id === request?.tabId);
+    if (request && tab && await saveTab(tab)) {
+      request.proceed();
+    }
+  };
+
+  const handleDiscardConfirm = () => {
+    const request = discardRequest;
+    setDiscardRequest(null);
+    request?.proceed();
+  };
+
+  const handleLoadContent = (content: string) => {
+    confirmDiscard(activeTab, () => setMarkdown(content));
+  };
+
+  const handleDownload = useCallback((content: string = markdown) => {
+    const blob = new Blob([content], { type: "text/markdown" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -134,13 +334,14 @@ export default function Home() {
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
     toast.success("文档已下载");
-  };
+  }, [markdown]);
 
   const handleSaveAs = async () => {
     try {
       const newNode = await saveAsFile(markdown);
       if (newNode) {
-        setActiveFileNode(newNode);
+        const lastModified = await getFileLastModified(newNode);
+        updateTab(activeTabId, { fileNode: newNode, title: newNode.name, baseline: markdown, lastModified });
         toast.success(`已另存为: ${newNode.name}`);
       }
     } catch (error: any) {
@@ -158,13 +359,95 @@ export default function Home() {
     fileInputRef.current?.click();
   };
 
+  const handleImportDocx = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const toastId = toast.loading(`正在导入 ${file.name}...`);
+    let failedUploads = 0;
+    const embedImage = (image: File) => new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (event) => resolve(event.target?.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(image);
+    });
+
+    try {
+      const content = await importDocx(file, {
+        onImage: async (image) => {
+          if (defaultImageUploadProvider) {
+            try {
+              return await uploadImage(image, defaultImageUploadProvider);
+            } catch (error) {
+              console.error(error);
+              failedUploads++;
+            }
+          }
+          // Without cloud storage, or when the upload fails, the image is embedded
+          return embedImage(image);
+        },
+      });
+      // Left unsaved so the converted document gets a file of its own
+      openTab({ title: file.name.replace(/\.docx$/i, "") + ".md", content, baseline: "" });
+      if (failedUploads) {
+        toast.warning(`已导入 ${file.name}，${failedUploads} 张图片上传失败，已嵌入文档`, { id: toastId });
+      } else {
+        toast.success(`已导入 ${file.name}`, { id: toastId });
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(`导入失败: ${error instanceof Error ? error.message : file.name}`, { id: toastId });
+    }
+  };
+
 
 
   const handleNew = () => {
-    if (confirm("确定要清空当前文档吗？未保存的更改可能会丢失。")) {
-      setMarkdown("");
-      setActiveFileNode(null); // Clear active file context
-      toast.success("已创建新文档");
+    openTab();
+  };
+
+  // Reopen the last folder after a reload. Without a user gesture the
+  // browser won't show a permission prompt, so this only works when access
+  // is still granted; otherwise the folder shows up under recent workspaces.
+  useEffect(() => {
+    if (!recentLoaded || restoredWorkspaceRef.current) return;
+    restoredWorkspaceRef.current = true;
+
+    const last = recentEntries[0];
+    if (!last || last.kind !== 'directory') return;
+    restoreRecentEntry(last, false)
+      .then(root => {
+        if (root) setRootNode(current => current ?? root);
+      })
+      .catch(error => console.error("Failed to restore workspace:", error));
+  }, [recentLoaded, recentEntries]);
+
+  const handleOpenRecent = async (entry: RecentEntry) => {
+    try {
+      const node = await restoreRecentEntry(entry);
+      if (!node) {
+        toast.error(`无法访问 ${entry.name}：权限被拒绝`);
+        return;
+      }
+
+      if (node.kind === 'directory') {
+        setRootNode(node);
+        setShowSidebar(true);
+      } else {
+        openDocument(node, await readFileSnapshot(node));
+        setRootNode(null);
+      }
+      addRecent(entry.handle);
+      toast.success(`已打开${node.kind === 'directory' ? '文件夹' : '文件'}: ${node.name}`);
+    } catch (error) {
+      console.error(error);
+      if ((error as Error).message === "NOT_FOUND") {
+        removeRecent(entry.id);
+        toast.error(`${entry.name} 已不存在，已从最近打开中移除`);
+      } else {
+        toast.error(`打开失败: ${entry.name}`);
+      }
     }
   };
 
@@ -172,6 +455,8 @@ export default function Home() {
     try {
       const root = await openDirectory();
       if (root) {
+        // Remembered first, so the tabs can tell which workspace their files are in
+        await addRecent(root.handle as FileSystemDirectoryHandle);
         setRootNode(root);
         setShowSidebar(true);
         toast.success(`已打开文件夹: ${root.name}`);
@@ -195,8 +480,7 @@ export default function Home() {
     const reader = new FileReader();
     reader.onload = (event) => {
       const content = event.target?.result as string;
-      setMarkdown(content);
-      setActiveFileNode(node);
+      openDocument(node, { content, lastModified: file.lastModified });
       setRootNode(null);
       toast.success(`已打开文件 (兼容模式): ${file.name}`);
     };
@@ -211,12 +495,11 @@ export default function Home() {
         // For single file open, we don't necessarily need a tree root, or we treat it as root.
         // Let's set it as root for the tree view to keep consistency, or just load it directly.
         // Loading directly is better for "Open File" UX.
-        const content = await readFileContent(node);
-        setMarkdown(content);
-        setActiveFileNode(node);
+        openDocument(node, await readFileSnapshot(node));
         // Clear tree view if we open a single file? Or keep previous context?
         // Let's clear tree to avoid confusion if the file isn't in the tree.
         setRootNode(null); 
+        addRecent(node.handle as FileSystemFileHandle);
         toast.success(`已打开文件: ${node.name}`);
       }
     } catch (error: any) {
@@ -253,10 +536,13 @@ export default function Home() {
 
   const handleSelectFile = async (node: FileNode) => {
     try {
-      // Check if we have unsaved changes? (Skip for MVP, or assume auto-save handles it)
-      const content = await readFileContent(node);
-      setMarkdown(content);
-      setActiveFileNode(node);
+      const existing = tabs.find(tab => tab.fileNode?.id === node.id);
+      if (existing) {
+        setActiveTabId(existing.id);
+        return;
+      }
+
+      openDocument(node, await readFileSnapshot(node));
       toast.success(`已打开 ${node.name}`);
     } catch (error) {
       console.error(error);
@@ -264,57 +550,215 @@ export default function Home() {
     }
   };
 
-  const handleSave = async () => {
-    if (!activeFileNode) {
+  // Keep tabs pointing at the right files after the tree was edited
+  const handleTreeChange = (change: FileTreeChange) => {
+    const { node } = change;
+    if (change.type === 'create') {
+      refreshLinks();
+      return;
+    }
+
+    const affected = tabs.filter(tab =>
+      tab.fileNode && (tab.fileNode.id === node.id || isDescendantNode(node, tab.fileNode))
+    );
+
+    for (const tab of affected) {
+      if (change.type === 'delete') {
+        // Keep the text around as an unsaved buffer instead of losing it
+        updateTab(tab.id, { fileNode: null, baseline: "", lastModified: null });
+      } else {
+        updateTab(tab.id, { fileNode: tab.fileNode, title: tab.fileNode!.name });
+      }
+    }
+
+    if (change.type === 'delete' && affected.length > 0) {
+      toast.info("已删除文件的标签页已保留为未保存的文档");
+    }
+    refreshLinks();
+  };
+
+  // Search sees open files as they are in the editor, unsaved edits included
+  const readSearchContent = useCallback(async (node: FileNode) => {
+    const tab = tabsRef.current.find(tab => tab.fileNode?.id === node.id);
+    return tab ? tab.content : readFileContent(node);
+  }, []);
+
+  const handleOpenMatch = (node: FileNode, match: SearchMatch) => revealInFile(node, match.from, match.to);
+
+  // Open a file (or focus its tab) and select the given range once its editor is up
+  const revealInFile = async (node: FileNode, from: number, to: number) => {
+    try {
+      const existing = tabs.find(tab => tab.fileNode?.id === node.id);
+      let tabId: string;
+      if (existing) {
+        setActiveTabId(existing.id);
+        tabId = existing.id;
+      } else {
+        tabId = openDocument(node, await readFileSnapshot(node));
+      }
+      setPendingReveal({ tabId, from, to });
+    } catch (error) {
+      console.error(error);
+      toast.error(`读取文件失败: ${node.name}`);
+    }
+  };
+
+  const {
+    pages: wikiPages,
+    backlinks,
+    isScanning: isScanningBacklinks,
+    refresh: refreshLinks,
+  } = useWorkspaceLinks(rootNode, activeFileNode, readSearchContent);
+
+  const relativeResources = useRelativeResources(rootNode, activeFileNode);
+
+  const wikiPageExists = useCallback(
+    (page: string) => resolveWikiPage(wikiPages, page) !== null,
+    [wikiPages]
+  );
+
+  const handleOpenWikiLink = async (page: string, heading?: string) => {
+    const target = page ? resolveWikiPage(wikiPages, page)?.node : activeFileNode;
+    if (!target) {
+      toast.error(page ? `未找到页面: ${page}` : "当前文档不在已打开的文件夹中");
+      return;
+    }
+
+    let from = 0;
+    if (heading) {
+      try {
+        from = findHeadingOffset(await readSearchContent(target), heading) ?? 0;
+      } catch (error) {
+        console.error(error);
+      }
+    }
+    revealInFile(target, from, from);
+  };
+
+  const handleApplyReplace = async (replacements: FileReplacement[]) => {
+    let written = 0;
+    let buffered = 0;
+
+    for (const { node, path, content } of replacements) {
+      const tab = tabsRef.current.find(tab => tab.fileNode?.id === node.id);
+      try {
+        if (tab && isTabDirty(tab)) {
+          // Writing would also save the user's other pending edits, so
+          // only change the buffer and leave saving to them
+          updateTab(tab.id, { content });
+          buffered++;
+          continue;
+        }
+
+        await saveFileContent(node, content);
+        if (tab) {
+          const lastModified = await getFileLastModified(node);
+          updateTab(tab.id, { content, baseline: content, lastModified });
+        }
+        written++;
+      } catch (error) {
+        console.error(error);
+        toast.error((error as Error).message === "PERMISSION_DENIED"
+          ? `替换失败：没有写入 ${path} 的权限`
+          : `替换失败: ${path}`);
+      }
+    }
+
+    if (written > 0) toast.success(`已替换并保存 ${written} 个文件`);
+    if (buffered > 0) toast.info(`${buffered} 个有未保存更改的文件已在编辑器中替换，请手动保存`);
+  };
+
+  // Returns whether the content ended up somewhere safe (on disk or downloaded)
+  const saveTab = useCallback(async (tab: EditorTab): Promise<boolean> => {
+    if (!tab.fileNode) {
       // If no file is open, maybe trigger export? Or just save to local storage (which is auto).
       // Let's prompt to export if it's a new file.
-      handleDownload();
-      return;
+      handleDownload(tab.content);
+      return true;
     }
 
     setIsSaving(true);
     try {
-      await saveFileContent(activeFileNode, markdown);
+      // Never overwrite changes another program made since we read the file
+      const diskModified = await getFileLastModified(tab.fileNode);
+      if (diskModified !== null && tab.lastModified !== null && diskModified !== tab.lastModified) {
+        const snapshot = await readFileSnapshot(tab.fileNode);
+        if (snapshot.content !== tab.baseline && snapshot.content !== tab.content) {
+          setMergeRequest({ tabId: tab.id, base: tab.baseline, ours: tab.content, theirs: snapshot });
+          toast.warning("文件已被其他程序修改，请先合并更改再保存");
+          return false;
+        }
+      }
+
+      await saveFileContent(tab.fileNode, tab.content);
+      const lastModified = await getFileLastModified(tab.fileNode);
+      updateTab(tab.id, { baseline: tab.content, lastModified });
       toast.success("文件保存成功");
+      return true;
     } catch (error: any) {
       if (error.message === "LEGACY_MODE") {
-        handleDownload();
+        handleDownload(tab.content);
         toast.warning("浏览器限制：无法直接覆盖本地文件。已自动改为下载副本。", { duration: 4000 });
+        return true;
       } else if (error.message === "PERMISSION_DENIED") {
         toast.error("保存失败：权限被拒绝。请在提示时允许写入权限。");
       } else {
         console.error(error);
         toast.error("保存文件失败");
       }
+      return false;
     } finally {
       setIsSaving(false);
     }
-  };
+  }, [handleDownload, updateTab]);
 
-  const handleExportPDF = async () => {
+  const handleSave = useCallback(() => saveTab(activeTab), [saveTab, activeTab]);
+
+  const handlePrint = async () => {
     try {
       // Use actual filename or extract from markdown title
       const documentFilename = activeFileNode?.name || undefined;
-      exportToPDFWithPrint(markdown, documentFilename);
+      const printing = exportToPDFWithPrint(markdown, documentFilename, { resolveImage: relativeResources?.resolveObjectUrl });
       toast.info("正在打开打印对话框，请选择 \"另存为 PDF\"");
-    } catch (error: any) {
-      toast.error(error.message || "PDF 导出失败");
+      await printing;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExportPDF = async () => {
+    const toastId = toast.loading("正在生成 PDF...");
+    try {
+      const { description, ...metadata } = documentMetadata(markdown);
+      // The mounted preview, or the same rendering of the markdown in the visual editor
+      await exportToPDF(previewRef.current ?? markdown, getExportFilename('.pdf'), { ...metadata, subject: description }, {
+        resolveImage: relativeResources?.resolveObjectUrl,
+      });
+      toast.success("PDF 导出成功", { id: toastId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error), { id: toastId });
     }
   };
 
   // Helper function to generate export filename
   const getExportFilename = (extension: string): string => {
+    // Remove invalid filename characters
+    const cleanFilename = (title: string) => title.replace(/[<>:"/\\|?*\p{Cc}]/gu, '').trim();
+
+    // A title set in the front matter comes first
+    const frontMatterTitle = cleanFilename(fieldText(parseFrontMatter(markdown)?.fields.title));
+    if (frontMatterTitle) {
+      return frontMatterTitle + extension;
+    }
+
     // Try to get filename from active file
     if (activeFileNode?.name) {
       return activeFileNode.name.replace(/\.md$/i, '') + extension;
     }
 
     // Otherwise extract title from markdown
-    const titleMatch = markdown.match(/^#\s+(.+)$/m);
-    if (titleMatch && titleMatch[1]) {
-      let title = titleMatch[1].trim();
-      // Remove invalid filename characters
-      title = title.replace(/[<>:"/\\|?*\x00-\x1f]/g, '');
+    const title = cleanFilename(documentTitle(markdown) ?? '');
+    if (title) {
       return title + extension;
     }
 
@@ -323,23 +767,38 @@ export default function Home() {
   };
 
   const handleExportPNG = async () => {
-    if (!previewRef.current) return;
     try {
       const filename = getExportFilename('.png');
-      await exportToPNG(previewRef.current, filename);
+      await exportToPNG(previewRef.current ?? markdown, filename, { resolveImage: relativeResources?.resolveObjectUrl });
       toast.success("PNG 导出成功");
-    } catch (error: any) {
-      toast.error(error.message || "PNG 导出失败");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
     }
   };
 
   const handleExportDOCX = async () => {
+    // Images and diagrams are fetched and rendered first
+    const toastId = toast.loading("正在生成 DOCX...");
     try {
       const filename = getExportFilename('.docx');
-      await exportToDOCX(markdown, filename);
-      toast.success("DOCX 导出成功");
-    } catch (error: any) {
-      toast.error(error.message || "DOCX 导出失败");
+      await exportToDOCX(markdown, filename, { resolveImage: relativeResources?.resolveObjectUrl });
+      toast.success("DOCX 导出成功", { id: toastId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error), { id: toastId });
+    }
+  };
+
+  const handleExportHTML = async (settings: HtmlExportSettings) => {
+    setShowHtmlExportDialog(false);
+    const toastId = toast.loading("正在生成 HTML...");
+    try {
+      await exportToHTML(markdown, getExportFilename('.html'), {
+        ...settings,
+        resolveImage: relativeResources?.resolveObjectUrl,
+      });
+      toast.success("HTML 导出成功", { id: toastId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "HTML 导出失败", { id: toastId });
     }
   };
 
@@ -349,65 +808,100 @@ export default function Home() {
       if ((e.ctrlKey || e.metaKey) && e.key === 's') {
         e.preventDefault();
         handleSave();
+      } else if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f' && rootNode) {
+        e.preventDefault();
+        setShowSidebar(true);
+        setSidebarView('search');
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [markdown, activeFileNode]);
+  }, [handleSave, rootNode]);
 
-  // Synchronized Scrolling (only for CodeMirror source mode)
+  // Tabs without a file are kept in localStorage, but edits to files on disk
+  // would only survive as detached copies.
+  const hasUnsavedFiles = tabs.some(tab => tab.fileNode && isTabDirty(tab));
   useEffect(() => {
-    // Only sync scrolling in source mode with CodeMirror
-    if (editorMode !== 'source' || !previewRef.current) {
-      return () => {};
-    }
-
-    // Double-check it's a CodeMirror editor before accessing scrollDOM
-    const editorViewTyped = editorView as any;
-    if (!editorView || !editorViewTyped.scrollDOM) {
-      return () => {};
-    }
-
-    const editorScroller = editorViewTyped.scrollDOM;
-    const previewScroller = previewRef.current;
+    if (!hasUnsavedFiles) return;
 
-    const handleEditorScroll = () => {
-      if (isScrollingRef.current) return;
-      isScrollingRef.current = true;
-
-      const ratio = editorScroller.scrollTop / (editorScroller.scrollHeight - editorScroller.clientHeight);
-      const previewScrollTop = ratio * (previewScroller.scrollHeight - previewScroller.clientHeight);
-
-      previewScroller.scrollTop = previewScrollTop;
-
-      // Reset flag after a short delay
-      setTimeout(() => { isScrollingRef.current = false; }, 50);
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
     };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedFiles]);
 
-    const handlePreviewScroll = () => {
-      if (isScrollingRef.current) return;
-      isScrollingRef.current = true;
+  useEffect(() => {
+    if (!pendingReveal || pendingReveal.tabId !== activeTabId) return;
+    if (editorMode !== 'source') {
+      setPendingReveal(null);
+      return;
+    }
+    // Right after switching tabs this is still the previous, detached editor
+    if (!(editorView instanceof EditorView) || !editorView.dom.isConnected) return;
 
-      const ratio = previewScroller.scrollTop / (previewScroller.scrollHeight - previewScroller.clientHeight);
-      const editorScrollTop = ratio * (editorScroller.scrollHeight - editorScroller.clientHeight);
+    const length = editorView.state.doc.length;
+    const from = Math.min(pendingReveal.from, length);
+    editorView.dispatch({
+      selection: { anchor: from, head: Math.min(pendingReveal.to, length) },
+      effects: EditorView.scrollIntoView(from, { y: 'center' }),
+    });
+    editorView.focus();
+    setPendingReveal(null);
+  }, [pendingReveal, activeTabId, editorMode, editorView]);
 
-      editorScroller.scrollTop = editorScrollTop;
+  // Synchronized scrolling between the source editor and the preview
+  useScrollSync(editorView instanceof EditorView ? editorView : null, previewRef, editorMode === 'source');
 
-      setTimeout(() => { isScrollingRef.current = false; }, 50);
-    };
+  // Toggle a task item from the preview. The source editor gets a one character
+  // change of its own, so it lands in its undo history like any other edit.
+  const handleTaskChange = useCallback((line: number, checked: boolean) => {
+    if (editorView instanceof EditorView && editorView.dom.isConnected && line <= editorView.state.doc.lines) {
+      const lineInfo = editorView.state.doc.line(line);
+      const offset = taskMarkerOffset(lineInfo.text);
+      if (offset === null) return;
+      editorView.dispatch({
+        changes: { from: lineInfo.from + offset, to: lineInfo.from + offset + 1, insert: checked ? 'x' : ' ' },
+        userEvent: 'input.toggle',
+      });
+      return;
+    }
+    setMarkdown(setTaskChecked(markdown, line, checked));
+  }, [editorView, markdown, setMarkdown]);
 
-    editorScroller.addEventListener('scroll', handleEditorScroll);
-    previewScroller.addEventListener('scroll', handlePreviewScroll);
+  // Front matter edits from the form. In the source editor only the changed
+  // text is replaced, so the cursor and undo history stay intact.
+  const handleFrontMatterApply = useCallback((updates: Record<string, FrontMatterValue | null>) => {
+    setShowFrontMatterDialog(false);
+    const next = updateFrontMatter(markdown, updates);
+    if (next === markdown) return;
+    if (editorView instanceof EditorView && editorView.dom.isConnected) {
+      const current = editorView.state.doc.toString();
+      let from = 0;
+      while (from < current.length && current[from] === next[from]) from++;
+      let end = 0;
+      while (end < current.length - from && end < next.length - from && current[current.length - 1 - end] === next[next.length - 1 - end]) end++;
+      editorView.dispatch({
+        changes: { from, to: current.length - end, insert: next.slice(from, next.length - end) },
+        userEvent: 'input.frontmatter',
+      });
+      return;
+    }
+    setMarkdown(next);
+  }, [editorView, markdown, setMarkdown]);
 
-    return () => {
-      if (editorScroller) {
-        editorScroller.removeEventListener('scroll', handleEditorScroll);
-      }
-      if (previewScroller) {
-        previewScroller.removeEventListener('scroll', handlePreviewScroll);
-      }
-    };
-  }, [editorMode, editorView]);
+  // Clicking the preview puts the cursor on the line the block came from
+  const handlePreviewLineClick = useCallback((line: number) => {
+    if (!(editorView instanceof EditorView)) return;
+    const { doc } = editorView.state;
+    const from = doc.line(Math.min(line, doc.lines)).from;
+    editorView.dispatch({
+      selection: { anchor: from },
+      effects: EditorView.scrollIntoView(from, { y: 'nearest' }),
+    });
+    editorView.focus();
+  }, [editorView]);
 
   return (
     <div className="h-screen w-full flex flex-col bg-background text-foreground overflow-hidden animate-fade-in">
@@ -443,9 +937,36 @@ export default function Home() {
               directory=""
               onChange={handleFolderInput}
             />
-            <Button variant="ghost" size="sm" onClick={handleImportClick} className="gap-2 text-muted-foreground hover:text-foreground" title="导入本地 .md 文件">
-              <Upload size={16} /> 导入
-            </Button>
+            <input
+              type="file"
+              ref={docxInputRef}
+              className="hidden"
+              accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+              onChange={handleImportDocx}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground hover:text-foreground" title="导入本地文件">
+                  <Upload size={16} /> 导入 <ChevronDown size={12} />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-48">
+                <DropdownMenuItem onClick={handleImportClick}>
+                  <FileText size={16} className="mr-2 text-muted-foreground" />
+                  <div className="flex-1">
+                    <div className="font-medium">Markdown 文件</div>
+                    <div className="text-xs text-muted-foreground">.md / .txt</div>
+                  </div>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => docxInputRef.current?.click()}>
+                  <File size={16} className="mr-2 text-muted-foreground" />
+                  <div className="flex-1">
+                    <div className="font-medium">Word 文档</div>
+                    <div className="text-xs text-muted-foreground">.docx，图片自动上传</div>
+                  </div>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button variant="ghost" size="sm" onClick={handleSaveAs} className="gap-2 text-muted-foreground hover:text-foreground" title="另存为新文件">
               <Download size={16} /> 另存为
             </Button>
@@ -456,6 +977,7 @@ export default function Home() {
               {activeFileNode ? (
                 <span className="bg-primary/10 text-primary px-2 py-0.5 rounded flex items-center gap-1">
                   <FileText size={10} /> {activeFileNode.name}
+                  {isDirty && <span className="w-1.5 h-1.5 rounded-full bg-primary" title="有未保存的更改" />}
                 </span>
               ) : (
                 <span className="opacity-50">未保存文件</span>
@@ -468,6 +990,15 @@ export default function Home() {
         <div className="flex items-center gap-2">
           {/* Export Dropdown */}
           <div className="hidden md:flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-2 text-muted-foreground hover:text-foreground"
+              title="编辑标题、作者、标签等文档信息"
+              onClick={() => setShowFrontMatterDialog(true)}
+            >
+              <Tags size={16} /> 文档信息
+            </Button>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button
@@ -484,7 +1015,14 @@ export default function Home() {
                   <FileDown size={16} className="mr-2 text-muted-foreground" />
                   <div className="flex-1">
                     <div className="font-medium">导出为 PDF</div>
-                    <div className="text-xs text-muted-foreground">高质量（智能分页）</div>
+                    <div className="text-xs text-muted-foreground">矢量文本，带书签</div>
+                  </div>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handlePrint}>
+                  <Printer size={16} className="mr-2 text-muted-foreground" />
+                  <div className="flex-1">
+                    <div className="font-medium">打印</div>
+                    <div className="text-xs text-muted-foreground">通过浏览器另存为 PDF</div>
                   </div>
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleExportPNG}>
@@ -501,6 +1039,13 @@ export default function Home() {
                     <div className="text-xs text-muted-foreground">Word 文档</div>
                   </div>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowHtmlExportDialog(true)}>
+                  <Code size={16} className="mr-2 text-muted-foreground" />
+                  <div className="flex-1">
+                    <div className="font-medium">导出为 HTML</div>
+                    <div className="text-xs text-muted-foreground">单文件网页，可选主题</div>
+                  </div>
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -509,7 +1054,7 @@ export default function Home() {
 
           <MultiCloudStorageDialog
             markdown={markdown}
-            onLoadContent={setMarkdown}
+            onLoadContent={handleLoadContent}
             filename={activeFileNode?.name || 'document.md'}
           />
 
@@ -530,16 +1075,78 @@ export default function Home() {
         {/* Sidebar (File Explorer) */}
         {showSidebar && (
           <aside className="w-64 border-r border-border bg-sidebar flex flex-col shrink-0 animate-slide-in sidebar-transition">
-            <div className="p-4 font-medium text-sm text-muted-foreground uppercase tracking-wider">
-              资源管理器
+            <div className="p-4 flex items-center justify-between font-medium text-sm text-muted-foreground uppercase tracking-wider">
+              {SIDEBAR_TITLES[sidebarView]}
+              <div className="flex items-center gap-1 normal-case">
+                <button
+                  type="button"
+                  title="资源管理器"
+                  onClick={() => setSidebarView('files')}
+                  className={cn("p-1 rounded hover:text-foreground transition-colors", sidebarView === 'files' && "text-primary")}
+                >
+                  <Files size={16} />
+                </button>
+                <button
+                  type="button"
+                  title="大纲"
+                  onClick={() => setSidebarView('outline')}
+                  className={cn("p-1 rounded hover:text-foreground transition-colors", sidebarView === 'outline' && "text-primary")}
+                >
+                  <ListTree size={16} />
+                </button>
+                {rootNode && (
+                  <>
+                    <button
+                      type="button"
+                      title="在文件中搜索 (Ctrl+Shift+F)"
+                      onClick={() => setSidebarView('search')}
+                      className={cn("p-1 rounded hover:text-foreground transition-colors", sidebarView === 'search' && "text-primary")}
+                    >
+                      <Search size={16} />
+                    </button>
+                    <button
+                      type="button"
+                      title="反向链接"
+                      onClick={() => setSidebarView('backlinks')}
+                      className={cn("p-1 rounded hover:text-foreground transition-colors", sidebarView === 'backlinks' && "text-primary")}
+                    >
+                      <Link2 size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
             <div className="flex-1 flex flex-col overflow-hidden">
-              {rootNode ? (
+              {sidebarView === 'outline' ? (
+                <OutlinePanel
+                  headings={outline.headings}
+                  activeIndex={outline.activeIndex}
+                  onNavigate={outline.navigate}
+                  onMoveSection={handleMoveSection}
+                />
+              ) : rootNode && sidebarView === 'search' ? (
+                <SearchPanel
+                  root={rootNode}
+                  readContent={readSearchContent}
+                  onOpenMatch={handleOpenMatch}
+                  onApplyReplace={handleApplyReplace}
+                />
+              ) : rootNode && sidebarView === 'backlinks' ? (
+                <BacklinksPanel
+                  fileName={wikiPages.some(page => page.node.id === activeFileNode?.id) ? activeFileNode!.name : null}
+                  backlinks={backlinks}
+                  isScanning={isScanningBacklinks}
+                  onOpen={({ source, link }) => revealInFile(source.node, link.from, link.to)}
+                  onRefresh={refreshLinks}
+                />
+              ) : rootNode ? (
                 <div className="flex-1 overflow-y-auto">
                   <FileTree 
                     root={rootNode} 
                     onSelectFile={handleSelectFile} 
                     selectedFileId={activeFileNode?.id} 
+                    dirtyFileIds={dirtyFileIds}
+                    onTreeChange={handleTreeChange}
                   />
                 </div>
               ) : (
@@ -554,6 +1161,11 @@ export default function Home() {
                       <FileText size={16} className="mr-2" /> 打开文件
                     </Button>
                   </div>
+                  <RecentWorkspaces
+                    entries={recentEntries}
+                    onOpen={handleOpenRecent}
+                    onRemove={(entry) => removeRecent(entry.id)}
+                  />
                 </div>
               )}
             </div>
@@ -565,6 +1177,13 @@ export default function Home() {
 
         {/* Editor & Preview Split View */}
         <main className="flex-1 flex flex-col overflow-hidden panel-transition">
+          <TabBar
+            tabs={tabs}
+            activeTabId={activeTabId}
+            onSelectTab={setActiveTabId}
+            onCloseTab={handleCloseTab}
+            onNewTab={handleNew}
+          />
           <ResizablePanelGroup direction="horizontal" className="h-full w-full">
             {/* Editor Panel */}
             <ResizablePanel
@@ -617,15 +1236,22 @@ export default function Home() {
                 <div className="flex-1 overflow-hidden relative">
                   {editorMode === 'source' ? (
                     <Editor
+                      key={activeTabId}
                       value={markdown}
                       onChange={handleEditorChange}
                       onEditorCreate={setEditorView}
+                      initialViewState={getViewState(activeTabId)}
+                      onViewStateChange={handleViewStateChange}
+                      wikiPages={wikiPages}
                     />
                   ) : (
                     <WysiwygEditor
+                      key={activeTabId}
                       content={markdown}
                       onChange={handleEditorChange}
                       onEditorReady={setEditorView}
+                      initialViewState={getViewState(activeTabId)}
+                      onViewStateChange={handleViewStateChange}
                     />
                   )}
                 </div>
@@ -637,13 +1263,61 @@ export default function Home() {
               <>
                 <ResizableHandle withHandle className="bg-border hover:bg-primary/50 transition-colors w-1" />
                 <ResizablePanel defaultSize={50} minSize={20} className="bg-background">
-                  <Preview content={markdown} ref={previewRef} />
+                  <Preview
+                    content={markdown}
+                    ref={previewRef}
+                    wikiLinks={{ exists: wikiPageExists, onOpen: handleOpenWikiLink }}
+                    resources={relativeResources}
+                    onOpenFile={handleSelectFile}
+                    onTaskChange={handleTaskChange}
+                    onSourceLineClick={handlePreviewLineClick}
+                    onEditFrontMatter={() => setShowFrontMatterDialog(true)}
+                  />
                 </ResizablePanel>
               </>
             )}
           </ResizablePanelGroup>
         </main>
       </div>
+
+      {showFrontMatterDialog && (
+        <FrontMatterDialog
+          open
+          markdown={markdown}
+          onApply={handleFrontMatterApply}
+          onCancel={() => setShowFrontMatterDialog(false)}
+        />
+      )}
+
+      {showHtmlExportDialog && (
+        <HtmlExportDialog
+          open
+          defaultTheme={theme === "dark" ? "dark" : "light"}
+          onExport={handleExportHTML}
+          onCancel={() => setShowHtmlExportDialog(false)}
+        />
+      )}
+
+      {mergeRequest && (
+        <MergeDialog
+          key={`${mergeRequest.tabId}-${mergeRequest.theirs.lastModified}`}
+          open
+          fileName={tabs.find(tab => tab.id === mergeRequest.tabId)?.title || ""}
+          base={mergeRequest.base}
+          ours={mergeRequest.ours}
+          theirs={mergeRequest.theirs.content}
+          onApply={handleMergeApply}
+          onCancel={() => setMergeRequest(null)}
+        />
+      )}
+
+      <UnsavedChangesDialog
+        open={!!discardRequest}
+        fileName={tabs.find(tab => tab.id === discardRequest?.tabId)?.title || ""}
+        onSave={handleDiscardSave}
+        onDiscard={handleDiscardConfirm}
+        onCancel={() => setDiscardRequest(null)}
+      />
     </div>
   );
 }